@@ -1,8 +1,46 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
-import { analyzeMusicRequest, MusicTheoryResponse } from './lib/gemini';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { MusicTheoryResponse } from './lib/types';
+import { getProviderConfig, listProviders, PartialTheoryResponse, ProviderConfig, setProviderConfig } from './lib/provider';
+import { lookupMusicRequest } from './lib/cache';
+import { buildVoicing, VOICING_STYLES, VoicingStyle } from './lib/voicing';
+import { midiNumber, parseNote } from './lib/theory';
+import { parseMusicQuery } from './lib/parser';
+import { NOTE_NAMINGS, NoteNaming, displayNote, loadNoteNaming, namingInstruction, saveNoteNaming, toEnglishNoteNames } from './lib/noteNames';
+import { TheoryError, toTheoryError } from './lib/errors';
+import { readStoredJson, writeStoredJson } from './lib/storage';
 import Piano from './components/Piano';
-import { Loader2, Music, Search, AlertCircle, Sparkles, Bookmark, Trash2, History } from 'lucide-react';
+import Staff from './components/Staff';
+import Fretboard from './components/Fretboard';
+import { TUNINGS, TuningId } from './lib/fretboard';
+import { chordAsResponse } from './lib/harmony';
+import ProgressionPanel from './components/ProgressionPanel';
+import DiatonicChords from './components/DiatonicChords';
+import ExportMenu from './components/ExportMenu';
+import PresetLibrary from './components/PresetLibrary';
+import { Preset, SkippedPreset, loadPresets, savePresets } from './lib/presets';
+import { buildShareHash, readShareHash } from './lib/shareLink';
+import {
+  HistoryEntry,
+  HistorySource,
+  addHistoryEntry,
+  loadHistory,
+  loadHistoryLimit,
+  saveHistory,
+  saveHistoryLimit,
+} from './lib/history';
+import HistoryPanel from './components/HistoryPanel';
+import ReverseLookup from './components/ReverseLookup';
+import ComparePanel from './components/ComparePanel';
+import QuizPanel from './components/QuizPanel';
+import CircleOfFifths from './components/CircleOfFifths';
+import { COMPARE_LIMIT, CompareItem, compareLabel } from './lib/compare';
+import TransposeControls from './components/TransposeControls';
+import PlaybackControls from './components/PlaybackControls';
+import MidiInputPanel from './components/MidiInputPanel';
+import MidiOutputControls from './components/MidiOutputControls';
+import SynthPanel from './components/SynthPanel';
+import { Loader2, Music, Search, AlertCircle, Sparkles, Bookmark, BookmarkCheck, ShieldCheck, RotateCcw, Link2, Check, GitCompareArrows } from 'lucide-react';
 
 const SUGGESTIONS = [
   "C Major Scale",
@@ -22,78 +60,311 @@ const SUGGESTIONS = [
   "B Minor 11"
 ];
 
-interface Preset {
-  id: string;
-  name: string;
-  data: MusicTheoryResponse;
-  timestamp: number;
+type PianoDisplay = 'voicing' | 'pitch-class';
+type InstrumentView = 'piano' | 'fretboard';
+
+interface FretboardSettings {
+  tuning: TuningId;
+  leftHanded: boolean;
+}
+
+const FRETBOARD_STORAGE_KEY = 'theorygen_fretboard';
+
+const loadFretboardSettings = (): FretboardSettings => {
+  const saved = readStoredJson(FRETBOARD_STORAGE_KEY);
+  return { tuning: 'standard', leftHanded: false, ...(saved && typeof saved === 'object' ? saved : {}) };
+};
+
+interface RequestError {
+  error: TheoryError;
+  request: string;
 }
 
 function App() {
   const [prompt, setPrompt] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [data, setData] = useState<MusicTheoryResponse | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [partial, setPartial] = useState<PartialTheoryResponse | null>(null);
+  const [error, setError] = useState<RequestError | null>(null);
   const [presets, setPresets] = useState<Preset[]>([]);
+  const [presetsSkipped, setPresetsSkipped] = useState<SkippedPreset[]>([]);
+  const [providerConfig, setProviderConfigState] = useState<ProviderConfig>(getProviderConfig);
+  const [pianoDisplay, setPianoDisplay] = useState<PianoDisplay>('voicing');
+  // 'suggested' uses the model's own voicing when it sent one
+  const [voicingStyle, setVoicingStyle] = useState<VoicingStyle | 'suggested'>('suggested');
+  const activeRequestRef = useRef<AbortController | null>(null);
+  const [soundingKeys, setSoundingKeys] = useState<number[]>([]);
+  const [heldKeys, setHeldKeys] = useState<number[]>([]);
+  const [instrumentView, setInstrumentView] = useState<InstrumentView>('piano');
+  const [fretboardSettings, setFretboardSettings] = useState<FretboardSettings>(loadFretboardSettings);
+  const [progressionStep, setProgressionStep] = useState(0);
+  // The query behind `data`, for share links
+  const [resultQuery, setResultQuery] = useState('');
+  // Whether the URL has been read yet; until then it mustn't be overwritten
+  const [linkRestored, setLinkRestored] = useState(false);
+  // New results get their own history entry; option changes just update the current one
+  const historyModeRef = useRef<'push' | 'replace'>('replace');
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [history, setHistory] = useState<HistoryEntry[]>(loadHistory);
+  const [historyLimit, setHistoryLimit] = useState(loadHistoryLimit);
+  const [noteNaming, setNoteNaming] = useState<NoteNaming>(loadNoteNaming);
+
+  const updateFretboardSettings = (changes: Partial<FretboardSettings>) => {
+    const next = { ...fretboardSettings, ...changes };
+    setFretboardSettings(next);
+    writeStoredJson(FRETBOARD_STORAGE_KEY, next);
+  };
+
+  // Progressions put one chord at a time on the keyboard and staff
+  const display = useMemo(() => {
+    const chord = data?.progression?.[progressionStep];
+    return chord ? chordAsResponse(chord, data!.keySignature) : data;
+  }, [data, progressionStep]);
+
+  const effectiveVoicingStyle = voicingStyle === 'suggested' && !display?.voicing ? 'close' : voicingStyle;
+  const voicing = useMemo(() => {
+    if (!display) return [];
+    return effectiveVoicingStyle === 'suggested' && display.voicing ? display.voicing : buildVoicing(display, effectiveVoicingStyle as VoicingStyle);
+  }, [display, effectiveVoicingStyle]);
+
+  // Scales are played up to the octave so runs sound finished
+  const playbackNotes = useMemo(() => {
+    const midi = voicing.flatMap(name => {
+      const note = parseNote(name);
+      return note ? [midiNumber(note)] : [];
+    });
+    if (display?.category === 'scale' && midi.length > 0) midi.push(midi[0] + 12);
+    return midi;
+  }, [voicing, display?.category]);
 
   // Load presets from local storage on mount
   useEffect(() => {
-    const saved = localStorage.getItem('theorygen_presets');
-    if (saved) {
-      try {
-        setPresets(JSON.parse(saved));
-      } catch (e) {
-        console.error("Failed to parse presets", e);
+    const { presets: saved, skipped } = loadPresets();
+    setPresets(saved);
+    setPresetsSkipped(skipped);
+  }, []);
+
+  // Drop any pending lookup when the app unmounts
+  useEffect(() => () => activeRequestRef.current?.abort(), []);
+
+  const showResult = (result: MusicTheoryResponse | null, query: string) => {
+    historyModeRef.current = 'push';
+    setData(result);
+    setResultQuery(query);
+    setProgressionStep(0);
+  };
+
+  // Opening a shared link (or going back/forward) restores that view without a lookup
+  useEffect(() => {
+    const restore = async () => {
+      const link = await readShareHash(window.location.hash);
+      activeRequestRef.current?.abort();
+      historyModeRef.current = 'replace';
+      setError(null);
+      setData(link?.response ?? null);
+      setResultQuery(link?.query ?? '');
+      setPrompt(link?.query ?? '');
+      if (link) {
+        const { view, display: displayMode, voicing: style, step, tuning } = link.options;
+        setInstrumentView(view === 'fretboard' ? 'fretboard' : 'piano');
+        setPianoDisplay(displayMode === 'pitch-class' ? 'pitch-class' : 'voicing');
+        setVoicingStyle(VOICING_STYLES.find(s => s.id === style)?.id ?? 'suggested');
+        setProgressionStep(Math.min(Math.max(parseInt(step, 10) || 0, 0), Math.max((link.response?.progression?.length ?? 1) - 1, 0)));
+        const sharedTuning = TUNINGS.find(t => t.id === tuning);
+        if (sharedTuning) setFretboardSettings(settings => ({ ...settings, tuning: sharedTuning.id }));
       }
-    }
+      setLinkRestored(true);
+    };
+    restore();
+    window.addEventListener('popstate', restore);
+    return () => window.removeEventListener('popstate', restore);
   }, []);
 
+  // Mirror the current view into the URL; defaults are left out to keep links short
+  useEffect(() => {
+    if (!linkRestored) return;
+    const mode = historyModeRef.current;
+    historyModeRef.current = 'replace';
+    let cancelled = false;
+    let applied = false;
+    buildShareHash(resultQuery, data, {
+      view: instrumentView === 'fretboard' ? 'fretboard' : undefined,
+      display: pianoDisplay === 'pitch-class' ? 'pitch-class' : undefined,
+      voicing: data?.category === 'chord' && voicingStyle !== 'suggested' ? voicingStyle : undefined,
+      step: data?.progression && progressionStep > 0 ? progressionStep : undefined,
+      tuning: instrumentView === 'fretboard' ? fretboardSettings.tuning : undefined,
+    }).then(hash => {
+      applied = true;
+      if (cancelled || hash === window.location.hash) return;
+      const url = `${window.location.pathname}${window.location.search}${hash}`;
+      if (mode === 'push') window.history.pushState(null, '', url);
+      else window.history.replaceState(null, '', url);
+    });
+    return () => {
+      cancelled = true;
+      // A newer state replaced this one before it reached the URL; it still deserves its own entry
+      if (!applied && mode === 'push') historyModeRef.current = 'push';
+    };
+  }, [linkRestored, data, resultQuery, instrumentView, pianoDisplay, voicingStyle, progressionStep, fretboardSettings.tuning]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (e) {
+      console.error("Failed to copy link", e);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!prompt.trim()) return;
-    await handleRequest(prompt);
+    // Note names typed in German or solfège are read as English letter names
+    await handleRequest(toEnglishNoteNames(prompt, noteNaming), prompt);
   };
 
-  const handleRequest = async (requestText: string) => {
-    setPrompt(requestText);
+  // `requestText` is always English; queries the app builds itself (suggestions,
+  // circle of fifths, history) come straight here. `typedText` is what the search box shows.
+  const handleRequest = async (requestText: string, typedText = requestText) => {
+    // Only the latest request may render; anything still pending is superseded
+    activeRequestRef.current?.abort();
+    const controller = new AbortController();
+    activeRequestRef.current = controller;
+
+    setPrompt(typedText);
     setIsLoading(true);
     setError(null);
+    setPartial(null);
     
     try {
-      const result = await analyzeMusicRequest(requestText);
-      setData(result);
+      // Plain scale names and chord symbols are resolved locally; only free-form questions hit the model
+      const local = parseMusicQuery(requestText);
+      const { response: result, source }: { response: MusicTheoryResponse; source: HistorySource } = local
+        ? { response: local, source: 'local' }
+        : await lookupMusicRequest(requestText + namingInstruction(noteNaming), {
+          config: providerConfig,
+          signal: controller.signal,
+          onPartial: (p) => { if (!controller.signal.aborted) setPartial(p); },
+        });
+      if (controller.signal.aborted) return;
+      showResult(result, requestText);
+      setHistory(entries => {
+        const updated = addHistoryEntry(entries, { query: requestText, response: result, source }, historyLimit);
+        saveHistory(updated);
+        return updated;
+      });
     } catch (err) {
+      const theoryError = toTheoryError(err);
+      if (theoryError.kind === 'cancelled') return;
       console.error(err);
-      setError("Failed to analyze music theory request. Please try again.");
+      setError({ error: theoryError, request: requestText });
     } finally {
-      setIsLoading(false);
+      if (activeRequestRef.current === controller) {
+        activeRequestRef.current = null;
+        setIsLoading(false);
+        setPartial(null);
+      }
     }
   };
 
-  const handleSavePreset = () => {
-    if (!data) return;
+  const handleProviderChange = (provider: string) => {
+    // A model name only makes sense for the provider it was chosen for
+    setProviderConfig({ provider });
+    setProviderConfigState(getProviderConfig());
+  };
+
+  const handleNamingChange = (naming: NoteNaming) => {
+    setNoteNaming(naming);
+    saveNoteNaming(naming);
+  };
+
+  const updatePresets = (updated: Preset[]) => {
+    setPresets(updated);
+    savePresets(updated);
+  };
+
+  // The same result is only saved once
+  const savedResults = useMemo(() => new Set(presets.map(p => JSON.stringify(p.data))), [presets]);
+  const isResultSaved = (result: MusicTheoryResponse) => savedResults.has(JSON.stringify(result));
+  const isSaved = !!data && isResultSaved(data);
+
+  const [compareItems, setCompareItems] = useState<CompareItem[]>([]);
+  const comparedKey = (result: MusicTheoryResponse) => compareItems.find(item => JSON.stringify(item.response) === JSON.stringify(result))?.id;
+  const isCompared = !!data && !!comparedKey(data);
+
+  // Adds a result to the comparison, or takes it out again if it's already there
+  const toggleCompare = (result: MusicTheoryResponse, label = compareLabel(result)) => {
+    const existing = comparedKey(result);
+    if (existing) {
+      setCompareItems(items => items.filter(item => item.id !== existing));
+    } else if (compareItems.length < COMPARE_LIMIT) {
+      setCompareItems(items => [...items, { id: Date.now().toString(), label, response: result }]);
+    }
+  };
+
+  const savePreset = (result: MusicTheoryResponse) => {
+    if (isResultSaved(result)) return;
     
     const newPreset: Preset = {
       id: Date.now().toString(),
-      name: `${data.root} ${data.type}`,
-      data: data,
-      timestamp: Date.now()
+      name: `${result.root} ${result.type}`,
+      data: result,
+      timestamp: Date.now(),
+      notes: '',
+      tags: [],
     };
 
-    const updatedPresets = [newPreset, ...presets];
-    setPresets(updatedPresets);
-    localStorage.setItem('theorygen_presets', JSON.stringify(updatedPresets));
+    updatePresets([newPreset, ...presets]);
+  };
+
+  const handleSavePreset = () => {
+    if (data) savePreset(data);
+  };
+
+  const updateHistoryLimit = (limit: number) => {
+    setHistoryLimit(limit);
+    saveHistoryLimit(limit);
+    const trimmed = history.slice(0, limit);
+    setHistory(trimmed);
+    saveHistory(trimmed);
+  };
+
+  const handleClearHistory = () => {
+    setHistory([]);
+    saveHistory([]);
+  };
+
+  // Transposed results get a query that reproduces them locally, e.g. "ii V I in F# major"
+  const handleTranspose = (transposed: MusicTheoryResponse) => {
+    const query = transposed.progression
+      ? `${transposed.progression.map(c => c.numeral).join(' ')} ${transposed.type.replace(/^Progression /, '')}`
+      : `${transposed.root} ${transposed.type}`;
+    const step = progressionStep;
+    showResult(transposed, query);
+    setProgressionStep(step);
+    setPrompt(query);
+  };
+
+  const handleShowHistoryEntry = (entry: HistoryEntry) => {
+    activeRequestRef.current?.abort();
+    setError(null);
+    showResult(entry.response, entry.query);
+    setPrompt(entry.query);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  const handleDeletePreset = (e: React.MouseEvent, id: string) => {
-    e.stopPropagation();
-    const updatedPresets = presets.filter(p => p.id !== id);
-    setPresets(updatedPresets);
-    localStorage.setItem('theorygen_presets', JSON.stringify(updatedPresets));
+  // Shows a result that's already built locally (picked from played notes, a comparison ...)
+  const handleShowResult = (response: MusicTheoryResponse, name: string) => {
+    activeRequestRef.current?.abort();
+    setError(null);
+    showResult(response, name);
+    setPrompt(name);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
   const handleLoadPreset = (preset: Preset) => {
-    setData(preset.data);
+    showResult(preset.data, preset.name);
     setPrompt(preset.name);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
@@ -103,7 +374,7 @@ function App() {
       
       {/* Header */}
       <header className="w-full max-w-4xl mx-auto p-6 flex items-center justify-between border-b border-slate-800/50">
-        <div className="flex items-center gap-3 cursor-pointer" onClick={() => { setData(null); setPrompt(''); }}>
+        <div className="flex items-center gap-3 cursor-pointer" onClick={() => { showResult(null, ''); setPrompt(''); }}>
           <div className="p-2 bg-purple-600 rounded-lg shadow-lg shadow-purple-900/20">
             <Music className="w-6 h-6 text-white" />
           </div>
@@ -111,9 +382,32 @@ function App() {
             TheoryGen
           </h1>
         </div>
-        <a href="https://ai.google.dev" target="_blank" rel="noreferrer" className="text-xs font-medium text-slate-500 hover:text-purple-400 transition-colors">
-          Powered by Gemini
-        </a>
+        <div className="flex items-center gap-4">
+          <select
+            value={noteNaming}
+            onChange={(e) => handleNamingChange(e.target.value as NoteNaming)}
+            className="bg-transparent text-xs font-medium text-slate-500 hover:text-purple-400 transition-colors focus:outline-none cursor-pointer"
+            title="Note names"
+          >
+            {NOTE_NAMINGS.map((n) => (
+              <option key={n.id} value={n.id} className="bg-slate-900">
+                Notes: {n.label} ({n.example})
+              </option>
+            ))}
+          </select>
+          <select
+            value={providerConfig.provider}
+            onChange={(e) => handleProviderChange(e.target.value)}
+            className="bg-transparent text-xs font-medium text-slate-500 hover:text-purple-400 transition-colors focus:outline-none cursor-pointer"
+            title="Theory provider"
+          >
+            {listProviders().map((p) => (
+              <option key={p.id} value={p.id} className="bg-slate-900">
+                Powered by {p.label}
+              </option>
+            ))}
+          </select>
+        </div>
       </header>
 
       <main className="flex-1 w-full max-w-4xl mx-auto p-6 flex flex-col gap-10">
@@ -170,21 +464,156 @@ function App() {
           </div>
         )}
 
+        {/* Streaming Preview */}
+        {isLoading && partial && (!!partial.notes?.length || !!partial.description) && (
+          <section className="animate-in fade-in duration-300 space-y-8">
+            <div className="flex justify-center overflow-x-auto pb-4">
+              <Piano activeNotes={partial.notes ?? []} rootNote={partial.root} naming={noteNaming} />
+            </div>
+            <div className="bg-slate-900/50 backdrop-blur border border-slate-800 rounded-2xl p-6 space-y-4">
+              <div>
+                <h3 className="text-3xl font-bold text-white">{partial.root ? displayNote(partial.root, noteNaming) : '…'}</h3>
+                <p className="text-purple-400 font-medium text-lg">{partial.type ?? ''}</p>
+              </div>
+              <p className="text-slate-300 leading-relaxed">
+                {partial.description}
+                <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-purple-400 animate-pulse" />
+              </p>
+            </div>
+          </section>
+        )}
+
         {/* Error State */}
         {error && (
           <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 flex items-center gap-3 justify-center animate-in fade-in slide-in-from-bottom-4">
-            <AlertCircle className="w-5 h-5" />
-            <span>{error}</span>
+            <AlertCircle className="w-5 h-5 shrink-0" />
+            <span>{error.error.userMessage}</span>
+            {error.error.retryable && (
+              <button
+                onClick={() => handleRequest(error.request)}
+                className="ml-2 px-3 py-1 bg-red-500/10 hover:bg-red-500/20 border border-red-500/30 rounded-lg text-sm font-medium flex items-center gap-1.5 transition-colors shrink-0"
+              >
+                <RotateCcw className="w-3.5 h-3.5" />
+                Retry
+              </button>
+            )}
           </div>
         )}
 
+        {/* Sound and MIDI settings stay put across results */}
+        <div className="flex flex-col items-center gap-3">
+          <div className="w-full max-w-2xl">
+            <SynthPanel />
+          </div>
+          <MidiInputPanel response={data} onHeldChange={setHeldKeys} />
+          <MidiOutputControls />
+        </div>
+
         {/* Results Section */}
         {data && (
           <section className="animate-in fade-in slide-in-from-bottom-8 duration-700 space-y-8 mb-10">
             
+            {/* Progression */}
+            {data.progression && data.progression.length > 0 && (
+              <ProgressionPanel
+                progression={data.progression}
+                step={progressionStep}
+                onStepChange={setProgressionStep}
+                onSoundingChange={setSoundingKeys}
+                naming={noteNaming}
+              />
+            )}
+
             {/* Piano Viz */}
-            <div className="flex justify-center overflow-x-auto pb-4">
-              <Piano activeNotes={data.notes} rootNote={data.root} />
+            <div className="flex flex-col items-center gap-3">
+              <div className="flex flex-wrap items-start justify-center gap-4 overflow-x-auto pb-4 max-w-full">
+                {instrumentView === 'piano' ? (
+                  <Piano
+                    activeNotes={display!.notes}
+                    rootNote={display!.root}
+                    voicing={pianoDisplay === 'voicing' ? voicing : undefined}
+                    soundingKeys={soundingKeys}
+                    heldKeys={heldKeys}
+                    naming={noteNaming}
+                  />
+                ) : (
+                  <Fretboard
+                    activeNotes={display!.notes}
+                    rootNote={display!.root}
+                    intervals={display!.intervals}
+                    tuning={fretboardSettings.tuning}
+                    leftHanded={fretboardSettings.leftHanded}
+                    naming={noteNaming}
+                  />
+                )}
+                <Staff
+                  notes={pianoDisplay === 'voicing' ? voicing : display!.notes}
+                  keySignature={data.keySignature}
+                  chord={display!.category === 'chord'}
+                  rootNote={display!.root}
+                />
+              </div>
+              <PlaybackControls notes={playbackNotes} onSoundingChange={setSoundingKeys} />
+              <div className="flex flex-wrap items-center justify-center gap-2 text-xs">
+                <div className="flex items-center bg-slate-900/80 rounded-lg border border-slate-800 p-1">
+                  {(['piano', 'fretboard'] as const).map((view) => (
+                    <button
+                      key={view}
+                      onClick={() => setInstrumentView(view)}
+                      className={`px-3 py-1 rounded-md font-medium transition-all ${instrumentView === view ? 'bg-purple-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                    >
+                      {view === 'piano' ? 'Piano' : 'Fretboard'}
+                    </button>
+                  ))}
+                </div>
+                {instrumentView === 'fretboard' && (
+                  <>
+                    <select
+                      value={fretboardSettings.tuning}
+                      onChange={(e) => updateFretboardSettings({ tuning: e.target.value as TuningId })}
+                      className="bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1.5 text-slate-300 focus:outline-none focus:border-purple-500"
+                      title="Tuning"
+                    >
+                      {TUNINGS.map(t => (
+                        <option key={t.id} value={t.id}>{t.label}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => updateFretboardSettings({ leftHanded: !fretboardSettings.leftHanded })}
+                      className={`px-3 py-1.5 rounded-lg border font-medium transition-all ${fretboardSettings.leftHanded ? 'bg-slate-700 border-slate-600 text-white' : 'bg-slate-900/80 border-slate-800 text-slate-400 hover:text-white'}`}
+                    >
+                      Left-handed
+                    </button>
+                  </>
+                )}
+                <div className="flex items-center bg-slate-900/80 rounded-lg border border-slate-800 p-1">
+                  {(['voicing', 'pitch-class'] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => setPianoDisplay(mode)}
+                      className={`px-3 py-1 rounded-md font-medium transition-all ${pianoDisplay === mode ? 'bg-purple-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                    >
+                      {mode === 'voicing' ? 'Voicing' : 'Pitch Class'}
+                    </button>
+                  ))}
+                </div>
+                {pianoDisplay === 'voicing' && display!.category === 'chord' && (
+                  <div className="flex items-center bg-slate-900/80 rounded-lg border border-slate-800 p-1">
+                    {[...(display!.voicing ? [{ id: 'suggested' as const, label: 'Suggested' }] : []), ...VOICING_STYLES].map((style) => (
+                      <button
+                        key={style.id}
+                        onClick={() => setVoicingStyle(style.id)}
+                        className={`px-3 py-1 rounded-md font-medium transition-all ${effectiveVoicingStyle === style.id ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                      >
+                        {style.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {pianoDisplay === 'voicing' && (
+                  <span className="font-mono text-slate-500">{voicing.map(n => displayNote(n, noteNaming, display!.root)).join(' ')}</span>
+                )}
+              </div>
             </div>
 
             {/* Info Cards */}
@@ -193,26 +622,59 @@ function App() {
               <div className="bg-slate-900/50 backdrop-blur border border-slate-800 rounded-2xl p-6 space-y-4 hover:border-slate-700 transition-colors relative group">
                 <div className="flex items-center justify-between">
                   <div>
-                    <h3 className="text-3xl font-bold text-white">{data.root}</h3>
+                    <h3 className="text-3xl font-bold text-white">{displayNote(data.root, noteNaming)}</h3>
                     <p className="text-purple-400 font-medium text-lg">{data.type}</p>
                   </div>
                   <div className="flex flex-col items-end gap-2">
-                    <span className="px-3 py-1 bg-slate-800 rounded-full text-xs font-bold tracking-wider uppercase text-slate-400">
-                      {data.category}
-                    </span>
-                    <button 
-                      onClick={handleSavePreset}
-                      className="p-2 bg-slate-800/50 hover:bg-purple-600/20 text-slate-400 hover:text-purple-400 rounded-lg transition-colors flex items-center gap-2 text-sm"
-                      title="Save as Preset"
-                    >
-                      <Bookmark className="w-4 h-4" />
-                      <span className="hidden sm:inline">Save</span>
-                    </button>
+                    <div className="flex items-center gap-2">
+                      {data.corrections && data.corrections.length > 0 && (
+                        <span
+                          className="px-2 py-1 bg-amber-500/10 border border-amber-500/30 rounded-full text-[10px] font-bold tracking-wider uppercase text-amber-400 flex items-center gap-1 cursor-help"
+                          title={data.corrections.join('\n')}
+                        >
+                          <ShieldCheck className="w-3 h-3" />
+                          Corrected
+                        </span>
+                      )}
+                      <span className="px-3 py-1 bg-slate-800 rounded-full text-xs font-bold tracking-wider uppercase text-slate-400">
+                        {data.category}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={handleCopyLink}
+                        className="p-2 bg-slate-800/50 hover:bg-purple-600/20 text-slate-400 hover:text-purple-400 rounded-lg transition-colors flex items-center gap-2 text-sm"
+                        title="Copy a link to this result"
+                      >
+                        {linkCopied ? <Check className="w-4 h-4" /> : <Link2 className="w-4 h-4" />}
+                        <span className="hidden sm:inline">{linkCopied ? 'Copied' : 'Link'}</span>
+                      </button>
+                      <button
+                        onClick={() => toggleCompare(data)}
+                        disabled={!isCompared && compareItems.length >= COMPARE_LIMIT}
+                        className={`p-2 rounded-lg transition-colors flex items-center gap-2 text-sm disabled:opacity-40 disabled:pointer-events-none ${isCompared ? 'bg-purple-600/20 text-purple-400' : 'bg-slate-800/50 hover:bg-purple-600/20 text-slate-400 hover:text-purple-400'}`}
+                        title={isCompared ? 'Remove from comparison' : compareItems.length >= COMPARE_LIMIT ? `Compare holds up to ${COMPARE_LIMIT} results` : 'Add to comparison'}
+                      >
+                        <GitCompareArrows className="w-4 h-4" />
+                        <span className="hidden sm:inline">Compare</span>
+                      </button>
+                      <ExportMenu response={data} voicing={data.category === 'chord' ? voicing : undefined} naming={noteNaming} />
+                      <button 
+                        onClick={handleSavePreset}
+                        disabled={isSaved}
+                        className="p-2 bg-slate-800/50 hover:bg-purple-600/20 text-slate-400 hover:text-purple-400 rounded-lg transition-colors flex items-center gap-2 text-sm disabled:text-purple-400 disabled:hover:bg-slate-800/50"
+                        title={isSaved ? 'Already in your library' : 'Save as Preset'}
+                      >
+                        {isSaved ? <BookmarkCheck className="w-4 h-4" /> : <Bookmark className="w-4 h-4" />}
+                        <span className="hidden sm:inline">{isSaved ? 'Saved' : 'Save'}</span>
+                      </button>
+                    </div>
                   </div>
                 </div>
                 <p className="text-slate-300 leading-relaxed">
                   {data.description}
                 </p>
+                <TransposeControls response={data} onTranspose={handleTranspose} naming={noteNaming} />
               </div>
 
               {/* Theory Details */}
@@ -222,20 +684,14 @@ function App() {
                 <div>
                   <h4 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">Key Signature</h4>
                   {data.keySignature && data.keySignature.type !== 'none' ? (
-                    <div className="flex items-center gap-4 p-3 bg-slate-800/50 rounded-xl border border-slate-700/50">
-                      <div className="flex -space-x-3">
-                        {Array.from({ length: Math.min(data.keySignature.count, 7) }).map((_, i) => (
-                          <div key={i} className="w-10 h-10 rounded-full bg-slate-800 border border-slate-600 flex items-center justify-center text-xl font-serif text-white shadow-md relative z-10" style={{zIndex: 10-i}}>
-                            {data.keySignature!.type === 'sharp' ? '♯' : '♭'}
-                          </div>
-                        ))}
-                      </div>
+                    <div className="flex flex-wrap items-center gap-4 p-3 bg-slate-800/50 rounded-xl border border-slate-700/50">
+                      <Staff notes={[]} keySignature={data.keySignature} />
                       <div>
                         <div className="text-white font-medium text-lg">
                           {data.keySignature.count} {data.keySignature.type === 'sharp' ? 'Sharps' : 'Flats'}
                         </div>
                         <div className="text-slate-400 text-sm font-mono">
-                          {data.keySignature.notes.join(' ')}
+                          {data.keySignature.notes.map(n => displayNote(n, noteNaming, data.root)).join(' ')}
                         </div>
                       </div>
                     </div>
@@ -251,15 +707,23 @@ function App() {
                   )}
                 </div>
 
+                {/* Circle of Fifths */}
+                {data.category !== 'interval' && (
+                  <div>
+                    <h4 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">Circle of Fifths</h4>
+                    <CircleOfFifths response={data} onSelect={handleRequest} naming={noteNaming} />
+                  </div>
+                )}
+
                 {/* Notes List */}
                 <div>
                   <h4 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">Notes</h4>
                   <div className="flex flex-wrap gap-2">
                     {data.notes.map((note, idx) => (
                       <div key={idx} className="flex flex-col items-center gap-1">
-                        <div className={`w-10 h-10 rounded-xl flex items-center justify-center font-bold text-lg shadow-lg 
+                        <div className={`min-w-[2.5rem] h-10 px-2 rounded-xl flex items-center justify-center font-bold text-lg shadow-lg 
                           ${idx === 0 ? 'bg-purple-600 text-white shadow-purple-900/30' : 'bg-slate-800 text-slate-200 border border-slate-700'}`}>
-                          {note}
+                          {displayNote(note, noteNaming, data.root)}
                         </div>
                         {/* Show Interval below note if available */}
                         {data.intervals && data.intervals[idx] && (
@@ -270,55 +734,58 @@ function App() {
                   </div>
                 </div>
 
+                {/* Diatonic Chords */}
+                {data.category === 'scale' && data.notes.length === 7 && (
+                  <div>
+                    <h4 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">Diatonic Chords</h4>
+                    <DiatonicChords scale={data} onSelect={handleRequest} naming={noteNaming} />
+                  </div>
+                )}
+
               </div>
             </div>
           </section>
         )}
 
-        {/* Saved Presets */}
-        {presets.length > 0 && (
-          <section className="animate-in fade-in slide-in-from-bottom-8 duration-700 border-t border-slate-800/50 pt-8">
-            <div className="flex items-center gap-2 mb-6">
-              <History className="w-5 h-5 text-purple-400" />
-              <h3 className="text-xl font-bold text-white">Your Library</h3>
-            </div>
-            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
-              {presets.map((preset) => (
-                <div 
-                  key={preset.id}
-                  onClick={() => handleLoadPreset(preset)}
-                  className="group bg-slate-900/50 border border-slate-800 hover:border-purple-500/30 rounded-xl p-4 cursor-pointer transition-all hover:bg-slate-800/50 relative"
-                >
-                  <div className="flex justify-between items-start mb-2">
-                    <h4 className="font-bold text-slate-200 group-hover:text-white truncate pr-6">{preset.name}</h4>
-                    <button 
-                      onClick={(e) => handleDeletePreset(e, preset.id)}
-                      className="text-slate-600 hover:text-red-400 transition-colors p-1 rounded opacity-0 group-hover:opacity-100 absolute top-3 right-3"
-                      title="Delete Preset"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
-                  </div>
-                  <div className="flex flex-wrap gap-1.5 mb-3">
-                    {preset.data.notes.slice(0, 5).map((note, i) => (
-                      <span key={i} className="text-xs bg-slate-800 text-slate-400 px-1.5 py-0.5 rounded border border-slate-700">
-                        {note}
-                      </span>
-                    ))}
-                    {preset.data.notes.length > 5 && (
-                      <span className="text-xs text-slate-600 px-1 py-0.5">+ {preset.data.notes.length - 5}</span>
-                    )}
-                  </div>
-                  <div className="flex justify-between items-center text-xs text-slate-500">
-                    <span className="uppercase tracking-wider">{preset.data.category}</span>
-                    <span>{new Date(preset.timestamp).toLocaleDateString()}</span>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </section>
+        {/* Compare */}
+        {compareItems.length > 0 && (
+          <ComparePanel
+            items={compareItems}
+            onRemove={(id) => setCompareItems(items => items.filter(item => item.id !== id))}
+            onClear={() => setCompareItems([])}
+            onLoad={(item) => handleShowResult(item.response, item.label)}
+            naming={noteNaming}
+          />
         )}
 
+        {/* Practice */}
+        <QuizPanel presets={presets} heldKeys={heldKeys} naming={noteNaming} />
+
+        {/* Find by Notes */}
+        <ReverseLookup onSelect={handleShowResult} naming={noteNaming} />
+
+        {/* History */}
+        <HistoryPanel
+          entries={history}
+          limit={historyLimit}
+          onLimitChange={updateHistoryLimit}
+          onShow={handleShowHistoryEntry}
+          onRerun={handleRequest}
+          onPromote={(entry) => savePreset(entry.response)}
+          isSaved={isResultSaved}
+          onClear={handleClearHistory}
+        />
+
+        {/* Saved Presets */}
+        <PresetLibrary
+          presets={presets}
+          onPresetsChange={updatePresets}
+          onLoad={handleLoadPreset}
+          onCompare={(preset) => toggleCompare(preset.data, preset.name)}
+          loadSkipped={presetsSkipped}
+          naming={noteNaming}
+        />
+
       </main>
     </div>
   );
@@ -0,0 +1,174 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { MusicTheoryResponse } from '../lib/types';
+import { keySignatureFromFifths } from '../lib/theory';
+import {
+  CIRCLE_SEGMENTS,
+  describeModulation,
+  keyContext,
+  keyScaleQuery,
+  majorKeyName,
+  minorKeyName,
+  modulation,
+  segmentIndex,
+} from '../lib/circle';
+import { NoteNaming, displayNote } from '../lib/noteNames';
+
+interface CircleOfFifthsProps {
+  response: MusicTheoryResponse;
+  onSelect: (query: string) => void; // Loads a key's scale
+  naming: NoteNaming;
+}
+
+const SIZE = 280;
+const CENTER = SIZE / 2;
+const OUTER = 134;
+const MIDDLE = 94;
+const INNER = 60;
+
+// Every key from 7 flats to 7 sharps, for the modulation pickers
+const KEY_POSITIONS = Array.from({ length: 15 }, (_, i) => i - 7);
+
+const FILLS = {
+  major: { current: '#7c3aed', near: '#312e81', other: '#1e293b' },   // violet-600, indigo-900, slate-800
+  minor: { current: '#0891b2', near: '#1e1b4b', other: '#0f172a' },   // cyan-600, indigo-950, slate-900
+};
+
+const inputClass = 'bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1.5 text-sm text-slate-300 placeholder-slate-600 focus:outline-none focus:border-purple-500';
+
+const polar = (radius: number, degrees: number) => {
+  const radians = ((degrees - 90) * Math.PI) / 180;
+  return [CENTER + radius * Math.cos(radians), CENTER + radius * Math.sin(radians)];
+};
+
+// Ring slice for segment `index`, between two radii
+const slicePath = (index: number, inner: number, outer: number): string => {
+  const start = index * 30 - 15;
+  const end = start + 30;
+  const [x1, y1] = polar(outer, start);
+  const [x2, y2] = polar(outer, end);
+  const [x3, y3] = polar(inner, end);
+  const [x4, y4] = polar(inner, start);
+  return `M ${x1} ${y1} A ${outer} ${outer} 0 0 1 ${x2} ${y2} L ${x3} ${y3} A ${inner} ${inner} 0 0 0 ${x4} ${y4} Z`;
+};
+
+
+const signatureLabel = (position: number) => {
+  const signature = keySignatureFromFifths(position);
+  return signature.type === 'none' ? 'no ♯/♭' : `${signature.count}${signature.type === 'sharp' ? '♯' : '♭'}`;
+};
+
+// Circle of fifths around the current result's key, with a modulation hint between any two keys
+const CircleOfFifths: React.FC<CircleOfFifthsProps> = ({ response, onSelect, naming }) => {
+  const context = useMemo(() => keyContext(response), [response]);
+  const [hovered, setHovered] = useState<number | null>(null);
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | null>(null);
+
+  // A new result starts the modulation hint from its own key again
+  useEffect(() => setFrom(null), [context?.position]);
+
+  // Key names in the chosen naming; the queries sent on click stay English
+  const majorName = (position: number) => displayNote(majorKeyName(position), naming);
+  const minorName = (position: number) => displayNote(minorKeyName(position), naming);
+  const keyOptionLabel = (position: number) => `${majorName(position)} / ${minorName(position)}m`;
+
+  const current = context ? segmentIndex(context.position) : -1;
+  const fromKey = from ?? context?.position ?? 0;
+  const toKey = hovered ?? to;
+  const hint = useMemo(() => (toKey === null ? null : modulation(fromKey, toKey)), [fromKey, toKey]);
+
+  const fillFor = (ring: 'major' | 'minor', index: number) => {
+    if (index === current) return FILLS[ring].current;
+    if (current !== -1 && (index === (current + 1) % 12 || index === (current + 11) % 12)) return FILLS[ring].near;
+    return FILLS[ring].other;
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-center">
+        <svg width={SIZE} height={SIZE} className="block select-none" onMouseLeave={() => setHovered(null)}>
+          {CIRCLE_SEGMENTS.map(({ index, position, enharmonic }) => {
+            const [mx, my] = polar((OUTER + MIDDLE) / 2, index * 30);
+            const [nx, ny] = polar((MIDDLE + INNER) / 2, index * 30);
+            const isHovered = hovered !== null && segmentIndex(hovered) === index;
+            return (
+              <g key={index} onMouseEnter={() => setHovered(position)}>
+                <path
+                  d={slicePath(index, MIDDLE, OUTER)}
+                  fill={fillFor('major', index)}
+                  stroke={isHovered ? '#c4b5fd' : '#334155'}
+                  strokeWidth={isHovered ? 2 : 1}
+                  className="cursor-pointer transition-colors"
+                  onClick={() => onSelect(keyScaleQuery(position))}
+                >
+                  <title>{`${majorName(position)} Major (${signatureLabel(position)})`}</title>
+                </path>
+                <text x={mx} y={enharmonic !== undefined ? my - 2 : my + 4} textAnchor="middle" fontSize="13" fontWeight="bold" fill="#f1f5f9" pointerEvents="none">
+                  {majorName(position)}
+                </text>
+                {enharmonic !== undefined && (
+                  <text x={mx} y={my + 11} textAnchor="middle" fontSize="9" fill="#94a3b8" pointerEvents="none">
+                    {majorName(enharmonic)}
+                  </text>
+                )}
+                <path
+                  d={slicePath(index, INNER, MIDDLE)}
+                  fill={fillFor('minor', index)}
+                  stroke={isHovered ? '#c4b5fd' : '#334155'}
+                  strokeWidth={isHovered ? 2 : 1}
+                  className="cursor-pointer transition-colors"
+                  onClick={() => onSelect(keyScaleQuery(position, true))}
+                >
+                  <title>{`${minorName(position)} Minor (${signatureLabel(position)})`}</title>
+                </path>
+                <text x={nx} y={ny + 4} textAnchor="middle" fontSize="10" fill="#cbd5e1" pointerEvents="none">
+                  {minorName(position)}m
+                </text>
+              </g>
+            );
+          })}
+          <text x={CENTER} y={CENTER - 4} textAnchor="middle" fontSize="12" fontWeight="bold" fill="#e2e8f0">
+            {context ? `${majorName(context.position)} Major` : 'No key'}
+          </text>
+          <text x={CENTER} y={CENTER + 12} textAnchor="middle" fontSize="10" fill="#94a3b8">
+            {context ? signatureLabel(context.position) : ''}
+          </text>
+        </svg>
+      </div>
+
+      {context && context.relation !== 'major' && context.relation !== 'signature' && (
+        <p className="text-sm text-slate-400 text-center">
+          {displayNote(response.root, naming)} {context.modeName} is {context.relation === 'mode' ? 'a mode' : 'the relative minor'} of{' '}
+          <button onClick={() => onSelect(keyScaleQuery(context.position))} className="text-purple-300 hover:text-purple-200 font-medium">
+            {majorName(context.position)} Major
+          </button>
+        </p>
+      )}
+      {!context && (
+        <p className="text-sm text-slate-500 text-center">{displayNote(response.root, naming)} {response.type} doesn't belong to a single key.</p>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+          Modulate from
+          <select value={fromKey} onChange={(e) => setFrom(Number(e.target.value))} className={inputClass}>
+            {KEY_POSITIONS.map(p => <option key={p} value={p}>{keyOptionLabel(p)}</option>)}
+          </select>
+          to
+          <select value={to ?? ''} onChange={(e) => setTo(e.target.value === '' ? null : Number(e.target.value))} className={inputClass}>
+            <option value="">hover or pick a key</option>
+            {KEY_POSITIONS.map(p => <option key={p} value={p}>{keyOptionLabel(p)}</option>)}
+          </select>
+        </div>
+        {hint && toKey !== null && (
+          <p className="text-xs text-slate-400">
+            <span className="text-slate-200 font-medium">{majorName(fromKey)} → {majorName(toKey)}</span>{' '}
+            ({hint.commonNotes} of 7 notes shared). {describeModulation(hint, naming)}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CircleOfFifths;
@@ -0,0 +1,177 @@
+import React, { useMemo } from 'react';
+import { ArrowRight, GitCompareArrows, Trash2, X } from 'lucide-react';
+import {
+  COMPARE_COLORS,
+  CompareItem,
+  PARTIAL_COLOR,
+  SHARED_COLOR,
+  compareKeyColors,
+  compareNotes,
+  intervalDiff,
+  noteColor,
+  voiceLeading,
+} from '../lib/compare';
+import { NoteNaming, displayNote } from '../lib/noteNames';
+import Piano from './Piano';
+
+interface ComparePanelProps {
+  items: CompareItem[];
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onLoad: (item: CompareItem) => void;
+  naming: NoteNaming;
+}
+
+const itemColor = (index: number) => COMPARE_COLORS[index % COMPARE_COLORS.length];
+
+const formatStep = (semitones: number) => `${semitones > 0 ? '+' : '−'}${Math.abs(semitones)}`;
+
+// Several results on one keyboard, with an interval table and voice leading between neighbours
+const ComparePanel: React.FC<ComparePanelProps> = ({ items, onRemove, onClear, onLoad, naming }) => {
+  const comparisons = useMemo(() => compareNotes(items), [items]);
+  const keyColors = useMemo(() => compareKeyColors(comparisons, items.length), [comparisons, items.length]);
+  const rows = useMemo(() => intervalDiff(items), [items]);
+  const leadings = useMemo(
+    () => items.slice(1).map((item, i) => ({ from: items[i], to: item, leading: voiceLeading(items[i].response, item.response) })),
+    [items]
+  );
+  const activeNotes = useMemo(() => comparisons.map(c => c.names.find(Boolean)!), [comparisons]);
+
+  return (
+    <section className="animate-in fade-in slide-in-from-bottom-8 duration-700 border-t border-slate-800/50 pt-8 space-y-5">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <GitCompareArrows className="w-5 h-5 text-purple-400" />
+          <h3 className="text-xl font-bold text-white">Compare</h3>
+        </div>
+        <button onClick={onClear} className="flex items-center gap-1.5 text-xs text-slate-500 hover:text-red-400 transition-colors">
+          <Trash2 className="w-3.5 h-3.5" />
+          Clear
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {items.map((item, i) => (
+          <div key={item.id} className="flex items-center gap-2 pl-3 pr-1 py-1 rounded-lg bg-slate-900/50 border border-slate-800">
+            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: itemColor(i) }} />
+            <button onClick={() => onLoad(item)} className="text-sm font-medium text-slate-200 hover:text-white" title="Show this result">
+              {item.label}
+            </button>
+            <button onClick={() => onRemove(item.id)} className="p-1 rounded text-slate-600 hover:text-red-400 transition-colors" title="Remove from comparison">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+        {items.length < 2 && (
+          <span className="self-center text-xs text-slate-500">Add another result or preset to compare.</span>
+        )}
+      </div>
+
+      <div className="flex flex-col items-center gap-3">
+        <div className="overflow-x-auto max-w-full pb-2">
+          <Piano activeNotes={activeNotes} keyColors={keyColors} naming={naming} />
+        </div>
+        <div className="flex flex-wrap justify-center gap-x-4 gap-y-1 text-xs text-slate-400">
+          {items.length > 1 && (
+            <span className="flex items-center gap-1.5">
+              <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: SHARED_COLOR }} />
+              In all
+            </span>
+          )}
+          {items.length > 2 && (
+            <span className="flex items-center gap-1.5">
+              <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: PARTIAL_COLOR }} />
+              In some
+            </span>
+          )}
+          {items.map((item, i) => (
+            <span key={item.id} className="flex items-center gap-1.5">
+              <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: itemColor(i) }} />
+              Only {item.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {/* Notes and intervals */}
+        <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-4 overflow-x-auto">
+          <h4 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">Intervals</h4>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-slate-500">
+                <th className="text-left font-medium pb-2 pr-3">Degree</th>
+                {items.map((item, i) => (
+                  <th key={item.id} className="text-left font-medium pb-2 pr-3" style={{ color: itemColor(i) }}>{item.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.degree} className={`border-t border-slate-800/70 ${row.differs ? 'bg-amber-500/5' : ''}`}>
+                  <td className="py-1.5 pr-3 font-mono text-slate-500">{row.degree}</td>
+                  {row.cells.map((labels, i) => (
+                    <td key={items[i].id} className={`py-1.5 pr-3 font-mono ${row.differs ? 'text-amber-300' : 'text-slate-300'}`}>
+                      {labels.length > 0 ? labels.join(' ') : <span className="text-slate-700">—</span>}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex flex-wrap gap-1.5 mt-4">
+            {comparisons.map(c => (
+              <span
+                key={c.pitchClass}
+                className="text-xs font-mono px-2 py-0.5 rounded border border-slate-700 text-slate-900 font-semibold"
+                style={{ backgroundColor: noteColor(c, items.length) }}
+                title={c.members.map(i => items[i].label).join(', ')}
+              >
+                {c.names.filter((n, i, all): n is string => !!n && all.indexOf(n) === i).map(n => displayNote(n, naming)).join('/')}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {/* Voice leading */}
+        <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-4 space-y-4">
+          <h4 className="text-sm font-semibold text-slate-500 uppercase tracking-wider">Common Tones & Voice Leading</h4>
+          {leadings.length === 0 && <p className="text-sm text-slate-500">Needs at least two items.</p>}
+          {leadings.map(({ from, to, leading }) => (
+            <div key={`${from.id}-${to.id}`} className="space-y-2">
+              <div className="flex items-center gap-2 text-sm font-medium text-slate-200">
+                {from.label}
+                <ArrowRight className="w-3.5 h-3.5 text-slate-500" />
+                {to.label}
+                <span className="ml-auto text-xs font-normal text-slate-500">
+                  {leading.distance} semitone{leading.distance === 1 ? '' : 's'} of motion
+                </span>
+              </div>
+              <p className="text-xs text-slate-400">
+                <span className="text-slate-500">{leading.common.length} common tone{leading.common.length === 1 ? '' : 's'}: </span>
+                <span className="font-mono">{leading.common.join(' ') || 'none'}</span>
+              </p>
+              {leading.moves.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {leading.moves.map(move => (
+                    <span key={move.from} className="text-xs font-mono px-2 py-0.5 rounded bg-slate-800 border border-slate-700 text-slate-300">
+                      {move.from} → {move.to} <span className="text-slate-500">({formatStep(move.semitones)})</span>
+                    </span>
+                  ))}
+                </div>
+              )}
+              {(leading.dropped.length > 0 || leading.added.length > 0) && (
+                <p className="text-xs text-slate-500">
+                  {leading.dropped.length > 0 && <>Drops <span className="font-mono text-slate-400">{leading.dropped.join(' ')}</span>. </>}
+                  {leading.added.length > 0 && <>Adds <span className="font-mono text-slate-400">{leading.added.join(' ')}</span>.</>}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default ComparePanel;
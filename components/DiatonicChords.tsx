@@ -0,0 +1,46 @@
+import React, { useMemo } from 'react';
+import type { MusicTheoryResponse } from '../lib/types';
+import { diatonicChords } from '../lib/harmony';
+import { NoteNaming, displayChordSymbol, displayNote } from '../lib/noteNames';
+import { FUNCTION_STYLES } from './ProgressionPanel';
+
+interface DiatonicChordsProps {
+  scale: MusicTheoryResponse;
+  onSelect?: (symbol: string) => void;
+  naming: NoteNaming;
+}
+
+// Triads and seventh chords on every degree of a seven-note scale
+const DiatonicChords: React.FC<DiatonicChordsProps> = ({ scale, onSelect, naming }) => {
+  const rows = useMemo(() => [
+    { label: 'Triads', chords: diatonicChords(scale, 3) },
+    { label: 'Sevenths', chords: diatonicChords(scale, 4) },
+  ], [scale]);
+
+  if (rows.every(row => row.chords.length === 0)) return null;
+
+  return (
+    <div className="space-y-3">
+      {rows.map(({ label, chords }) => (
+        <div key={label}>
+          <div className="text-[10px] font-bold uppercase tracking-wider text-slate-500 mb-1.5">{label}</div>
+          <div className="flex flex-wrap gap-1.5">
+            {chords.map(chord => (
+              <button
+                key={chord.symbol}
+                onClick={() => onSelect?.(chord.symbol)}
+                className={`flex flex-col items-center px-2.5 py-1.5 rounded-lg border transition-all hover:brightness-125 ${FUNCTION_STYLES[chord.function]}`}
+                title={`${displayNote(chord.root, naming)} ${chord.type} (${chord.function})`}
+              >
+                <span className="font-serif font-bold text-sm">{chord.numeral}</span>
+                <span className="text-[11px] text-slate-300">{displayChordSymbol(chord.symbol, naming)}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DiatonicChords;
@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, FileMusic, Image, Music2, FileCode } from 'lucide-react';
+import type { MusicTheoryResponse } from '../lib/types';
+import { downloadBlob, exportFileName, svgToPng, toMidiFile, toMusicXml, toPianoSvg } from '../lib/export';
+import type { NoteNaming } from '../lib/noteNames';
+
+interface ExportMenuProps {
+  response: MusicTheoryResponse;
+  voicing?: string[]; // Chord voicing currently on screen
+  compact?: boolean; // Icon only, for library cards
+  naming?: NoteNaming; // Note names on the keyboard picture
+}
+
+type ExportFormat = 'midi' | 'musicxml' | 'svg' | 'png';
+
+const FORMATS: { id: ExportFormat; label: string; icon: React.ElementType }[] = [
+  { id: 'midi', label: 'MIDI file', icon: Music2 },
+  { id: 'musicxml', label: 'MusicXML', icon: FileMusic },
+  { id: 'svg', label: 'Keyboard (SVG)', icon: FileCode },
+  { id: 'png', label: 'Keyboard (PNG)', icon: Image },
+];
+
+// Download button with a small menu of file formats
+const ExportMenu: React.FC<ExportMenuProps> = ({ response, voicing, compact = false, naming }) => {
+  const [open, setOpen] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on any click outside the menu
+  useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (e: PointerEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('pointerdown', onPointerDown);
+    return () => document.removeEventListener('pointerdown', onPointerDown);
+  }, [open]);
+
+  const exportAs = async (format: ExportFormat) => {
+    setOpen(false);
+    setErrorMessage(null);
+    const options = { voicing, naming };
+    try {
+      if (format === 'midi') {
+        downloadBlob(new Blob([toMidiFile(response, options)], { type: 'audio/midi' }), exportFileName(response, 'mid'));
+      } else if (format === 'musicxml') {
+        downloadBlob(new Blob([toMusicXml(response, options)], { type: 'application/vnd.recordare.musicxml+xml' }), exportFileName(response, 'musicxml'));
+      } else {
+        const svg = toPianoSvg(response, options);
+        const blob = format === 'svg' ? new Blob([svg], { type: 'image/svg+xml' }) : await svgToPng(svg);
+        downloadBlob(blob, exportFileName(response, format));
+      }
+    } catch (e) {
+      console.error('Export failed', e);
+      setErrorMessage(e instanceof Error ? e.message : 'Export failed');
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setOpen(!open)}
+        className={compact
+          ? 'p-1 rounded text-slate-600 hover:text-purple-400 transition-colors'
+          : 'p-2 bg-slate-800/50 hover:bg-purple-600/20 text-slate-400 hover:text-purple-400 rounded-lg transition-colors flex items-center gap-2 text-sm'}
+        title={errorMessage ?? 'Export'}
+      >
+        <Download className={`w-4 h-4 ${errorMessage ? 'text-red-400' : ''}`} />
+        {!compact && <span className="hidden sm:inline">Export</span>}
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-1 z-20 w-44 bg-slate-900 border border-slate-700 rounded-lg shadow-xl py-1">
+          {FORMATS.map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => exportAs(id)}
+              className="w-full flex items-center gap-2 px-3 py-2 text-left text-sm text-slate-300 hover:bg-slate-800 hover:text-white transition-colors"
+            >
+              <Icon className="w-4 h-4 text-slate-500" />
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
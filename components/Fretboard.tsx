@@ -0,0 +1,152 @@
+import React, { useMemo } from 'react';
+import { TuningId, findPositions, getTuning, labelsByPitchClass } from '../lib/fretboard';
+import { parseNote, pitchClass } from '../lib/theory';
+import { NoteNaming, displayNote } from '../lib/noteNames';
+
+interface FretboardProps {
+  activeNotes: string[];
+  rootNote?: string;
+  intervals?: string[]; // Same order as activeNotes; shown on the dots instead of note names
+  tuning?: TuningId;
+  frets?: number;
+  leftHanded?: boolean; // Nut on the right
+  naming?: NoteNaming;  // How note names on the dots and strings are written
+}
+
+const NUT_WIDTH = 36;   // Room left of the nut for open-string dots and string names
+const SCALE_LENGTH = 1400; // Drawing units; fret positions follow the 12th root of 2
+const STRING_SPACING = 24;
+const PADDING_Y = 20;
+const DOT_RADIUS = 9;
+
+const INLAYS = [3, 5, 7, 9, 15, 17, 19, 21];
+const DOUBLE_INLAYS = [12, 24];
+
+// Distance of a fret from the nut on a real neck
+const fretDistance = (fret: number) => SCALE_LENGTH * (1 - Math.pow(2, -fret / 12));
+
+const Fretboard: React.FC<FretboardProps> = ({ activeNotes, rootNote, intervals, tuning = 'standard', frets = 15, leftHanded = false, naming }: FretboardProps) => {
+  const { strings } = getTuning(tuning);
+
+  const { positions, labels, rootPitchClass } = useMemo(() => {
+    const pitchClasses = new Set<number>();
+    activeNotes.forEach(n => {
+      const note = parseNote(n);
+      if (note) pitchClasses.add(pitchClass(note));
+    });
+    const root = rootNote ? parseNote(rootNote) : null;
+    return {
+      positions: findPositions(getTuning(tuning), pitchClasses, frets),
+      labels: labelsByPitchClass(activeNotes, intervals, name => displayNote(name, naming ?? 'english', rootNote)),
+      rootPitchClass: root ? pitchClass(root) : -1,
+    };
+  }, [activeNotes, rootNote, intervals, tuning, frets, naming]);
+
+  const neckLength = fretDistance(frets);
+  const width = NUT_WIDTH + neckLength + 12;
+  const height = PADDING_Y * 2 + STRING_SPACING * (strings.length - 1);
+
+  // Highest string at the top, as in tab; left-handed players see the neck mirrored
+  const stringY = (string: number) => PADDING_Y + (strings.length - 1 - string) * STRING_SPACING;
+  const flip = (x: number) => (leftHanded ? width - x : x);
+  const fretX = (fret: number) => flip(NUT_WIDTH + fretDistance(fret));
+  // Dots sit between a fret and the one before it; open strings sit behind the nut
+  const dotX = (fret: number) =>
+    fret === 0 ? flip(NUT_WIDTH / 2 + 4) : flip(NUT_WIDTH + (fretDistance(fret - 1) + fretDistance(fret)) / 2);
+
+  const midY = PADDING_Y + ((strings.length - 1) * STRING_SPACING) / 2;
+
+  return (
+    <div className="relative inline-block p-4 bg-slate-900 rounded-xl shadow-2xl border border-slate-800">
+      <svg width={width} height={height + 14} className="block" role="img" aria-label={`Fretboard (${getTuning(tuning).label})`}>
+        {/* Inlays */}
+        {INLAYS.filter(f => f <= frets).map(f => (
+          <circle key={`inlay-${f}`} cx={dotX(f)} cy={midY} r={5} fill="#334155" />
+        ))}
+        {DOUBLE_INLAYS.filter(f => f <= frets).map(f => (
+          <g key={`inlay-${f}`}>
+            <circle cx={dotX(f)} cy={midY - STRING_SPACING} r={5} fill="#334155" />
+            <circle cx={dotX(f)} cy={midY + STRING_SPACING} r={5} fill="#334155" />
+          </g>
+        ))}
+
+        {/* Frets, with a thick nut */}
+        {Array.from({ length: frets + 1 }, (_, f) => (
+          <line
+            key={`fret-${f}`}
+            x1={fretX(f)}
+            x2={fretX(f)}
+            y1={PADDING_Y}
+            y2={height - PADDING_Y}
+            stroke={f === 0 ? '#e2e8f0' : '#64748b'}
+            strokeWidth={f === 0 ? 4 : 1.5}
+          />
+        ))}
+
+        {/* Fret numbers */}
+        {[...INLAYS, ...DOUBLE_INLAYS].filter(f => f <= frets).map(f => (
+          <text key={`num-${f}`} x={dotX(f)} y={height + 8} fontSize="10" textAnchor="middle" fill="#64748b" style={{ userSelect: 'none' }}>
+            {f}
+          </text>
+        ))}
+
+        {/* Strings: lower strings drawn thicker */}
+        {strings.map((name, s) => (
+          <g key={`string-${s}`}>
+            <line
+              x1={flip(NUT_WIDTH)}
+              x2={fretX(frets)}
+              y1={stringY(s)}
+              y2={stringY(s)}
+              stroke="#94a3b8"
+              strokeWidth={1 + ((strings.length - 1 - s) / Math.max(strings.length - 1, 1)) * 1.5}
+            />
+            <text
+              x={flip(8)}
+              y={stringY(s)}
+              fontSize="10"
+              textAnchor="middle"
+              dominantBaseline="central"
+              fill="#64748b"
+              style={{ userSelect: 'none' }}
+            >
+              {displayNote(name.replace(/-?\d+$/, ''), naming ?? 'english')}
+            </text>
+          </g>
+        ))}
+
+        {/* Note dots: Violet for root, Blue for the rest */}
+        {positions.map(p => {
+          const isRoot = p.pitchClass === rootPitchClass;
+          return (
+            <g key={`dot-${p.string}-${p.fret}`}>
+              <circle
+                cx={dotX(p.fret)}
+                cy={stringY(p.string)}
+                r={DOT_RADIUS}
+                fill={isRoot ? '#8b5cf6' : '#3b82f6'}
+                stroke={p.fret === 0 ? '#e2e8f0' : 'none'}
+                strokeWidth={1}
+              />
+              <text
+                x={dotX(p.fret)}
+                y={stringY(p.string)}
+                fontSize="9"
+                fontWeight="bold"
+                textAnchor="middle"
+                dominantBaseline="central"
+                fill="white"
+                pointerEvents="none"
+                style={{ userSelect: 'none' }}
+              >
+                {labels.get(p.pitchClass)}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
+
+export default Fretboard;
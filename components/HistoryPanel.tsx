@@ -0,0 +1,142 @@
+import React, { useMemo, useState } from 'react';
+import { BookmarkCheck, BookmarkPlus, ChevronDown, ChevronUp, Clock, RotateCcw, Search, Trash2 } from 'lucide-react';
+import type { MusicTheoryResponse } from '../lib/types';
+import { HISTORY_LIMITS, HistoryEntry, HistorySource, historyDayLabel, searchHistory } from '../lib/history';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  limit: number;
+  onLimitChange: (limit: number) => void;
+  onShow: (entry: HistoryEntry) => void;    // Bring back the stored result
+  onRerun: (query: string) => void;         // Ask again
+  onPromote: (entry: HistoryEntry) => void; // Save to the library
+  isSaved: (response: MusicTheoryResponse) => boolean;
+  onClear: () => void;
+}
+
+const SOURCE_STYLES: Record<HistorySource, { label: string; className: string }> = {
+  model: { label: 'Model', className: 'bg-purple-500/10 border-purple-500/30 text-purple-300' },
+  cache: { label: 'Cache', className: 'bg-cyan-500/10 border-cyan-500/30 text-cyan-300' },
+  local: { label: 'Local', className: 'bg-slate-800 border-slate-700 text-slate-400' },
+};
+
+const inputClass = 'bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1.5 text-sm text-slate-300 placeholder-slate-600 focus:outline-none focus:border-purple-500';
+
+// Timeline of past lookups, grouped by day
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, limit, onLimitChange, onShow, onRerun, onPromote, isSaved, onClear }) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [confirmingClear, setConfirmingClear] = useState(false);
+
+  const days = useMemo(() => {
+    const groups: { label: string; entries: HistoryEntry[] }[] = [];
+    for (const entry of searchHistory(entries, query)) {
+      const label = historyDayLabel(entry.timestamp);
+      if (groups[groups.length - 1]?.label !== label) groups.push({ label, entries: [] });
+      groups[groups.length - 1].entries.push(entry);
+    }
+    return groups;
+  }, [entries, query]);
+
+  return (
+    <section className="border-t border-slate-800/50 pt-8 space-y-4">
+      <button onClick={() => setOpen(!open)} className="flex items-center gap-2 group">
+        <Clock className="w-5 h-5 text-purple-400" />
+        <h3 className="text-xl font-bold text-white">History</h3>
+        <span className="text-sm text-slate-500">{entries.length}</span>
+        {open ? <ChevronUp className="w-4 h-4 text-slate-500 group-hover:text-white" /> : <ChevronDown className="w-4 h-4 text-slate-500 group-hover:text-white" />}
+      </button>
+
+      {open && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="relative flex-1 min-w-[12rem]">
+              <Search className="w-4 h-4 text-slate-500 absolute left-2.5 top-1/2 -translate-y-1/2" />
+              <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search history" className={`${inputClass} w-full pl-8`} />
+            </label>
+            <label className="flex items-center gap-2 text-xs text-slate-500">
+              Keep last
+              <select value={limit} onChange={(e) => onLimitChange(Number(e.target.value))} className={inputClass}>
+                {HISTORY_LIMITS.map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            {confirmingClear ? (
+              <div className="flex items-center gap-2 text-sm">
+                <span className="text-slate-400">Clear all history?</span>
+                <button
+                  onClick={() => { onClear(); setConfirmingClear(false); }}
+                  className="px-3 py-1.5 rounded-lg bg-red-500/20 text-red-300 hover:bg-red-500/30 transition-colors"
+                >
+                  Clear
+                </button>
+                <button onClick={() => setConfirmingClear(false)} className="px-3 py-1.5 rounded-lg text-slate-500 hover:text-white transition-colors">
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => setConfirmingClear(true)}
+                disabled={entries.length === 0}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-800/50 text-sm text-slate-400 hover:text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+              >
+                <Trash2 className="w-4 h-4" />
+                Clear history
+              </button>
+            )}
+          </div>
+
+          {days.length === 0 ? (
+            <p className="text-sm text-slate-500">{entries.length === 0 ? 'Nothing looked up yet.' : 'No lookups match your search.'}</p>
+          ) : (
+            <div className="space-y-4">
+              {days.map(day => (
+                <div key={day.label}>
+                  <div className="text-[10px] font-bold uppercase tracking-wider text-slate-500 mb-2">{day.label}</div>
+                  <ol className="border-l border-slate-800 ml-1.5 space-y-1">
+                    {day.entries.map(entry => {
+                      const source = SOURCE_STYLES[entry.source];
+                      const saved = isSaved(entry.response);
+                      return (
+                        <li key={entry.id} className="group relative pl-4">
+                          <span className="absolute -left-[4.5px] top-3 w-2 h-2 rounded-full bg-slate-700 group-hover:bg-purple-500 transition-colors" />
+                          <div className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-slate-900/80 transition-colors">
+                            <button onClick={() => onShow(entry)} className="flex-1 min-w-0 text-left" title="Show this result">
+                              <div className="text-sm text-slate-200 truncate">{entry.query}</div>
+                              <div className="text-xs text-slate-500 truncate">
+                                {entry.response.root} {entry.response.type} · {new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                              </div>
+                            </button>
+                            <span className={`px-1.5 py-0.5 rounded border text-[9px] font-bold uppercase tracking-wider ${source.className}`}>
+                              {source.label}
+                            </span>
+                            <button
+                              onClick={() => onRerun(entry.query)}
+                              className="p-1 rounded text-slate-600 hover:text-purple-400 transition-colors"
+                              title="Run this query again"
+                            >
+                              <RotateCcw className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => onPromote(entry)}
+                              disabled={saved}
+                              className="p-1 rounded text-slate-600 hover:text-purple-400 transition-colors disabled:text-purple-400"
+                              title={saved ? 'Already in your library' : 'Save to your library'}
+                            >
+                              {saved ? <BookmarkCheck className="w-4 h-4" /> : <BookmarkPlus className="w-4 h-4" />}
+                            </button>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,158 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Download, Upload, X } from 'lucide-react';
+import {
+  DuplicateStrategy,
+  Preset,
+  PresetLoadResult,
+  SkippedPreset,
+  countDuplicates,
+  mergePresets,
+  parsePresetLibrary,
+  serializePresetLibrary,
+} from '../lib/presets';
+import { downloadBlob } from '../lib/export';
+
+interface LibraryTransferProps {
+  presets: Preset[];
+  selectedIds: string[]; // Export only these when any are selected
+  onPresetsChange: (presets: Preset[]) => void;
+  loadSkipped?: SkippedPreset[]; // Entries dropped when the library was read from storage
+}
+
+interface Report {
+  message: string;
+  skipped: SkippedPreset[];
+  isError?: boolean;
+}
+
+const DUPLICATE_CHOICES: { id: DuplicateStrategy; label: string }[] = [
+  { id: 'skip', label: 'Skip them' },
+  { id: 'replace', label: 'Replace mine' },
+  { id: 'keep-both', label: 'Keep both' },
+];
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+const describeSkipped = (entry: SkippedPreset) =>
+  entry.index < 0 ? entry.reason : `${entry.name ? `"${entry.name}"` : `Entry ${entry.index + 1}`}: ${entry.reason}`;
+
+// Import/export of the library as a JSON file, with a choice for presets that are already saved
+const LibraryTransfer: React.FC<LibraryTransferProps> = ({ presets, selectedIds, onPresetsChange, loadSkipped }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<{ result: PresetLoadResult; duplicates: number } | null>(null);
+  const [report, setReport] = useState<Report | null>(null);
+
+  useEffect(() => {
+    if (loadSkipped && loadSkipped.length > 0) {
+      setReport({
+        message: `${plural(loadSkipped.length, 'saved preset')} couldn't be read and ${loadSkipped.length === 1 ? 'was' : 'were'} skipped. The original data was kept as a backup.`,
+        skipped: loadSkipped,
+        isError: true,
+      });
+    }
+  }, [loadSkipped]);
+
+  const handleExport = () => {
+    const chosen = selectedIds.length > 0 ? presets.filter(p => selectedIds.includes(p.id)) : presets;
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(new Blob([serializePresetLibrary(chosen)], { type: 'application/json' }), `theorygen-library-${date}.json`);
+  };
+
+  const applyImport = (result: PresetLoadResult, strategy: DuplicateStrategy) => {
+    const merged = mergePresets(presets, result.presets, strategy);
+    onPresetsChange(merged.presets);
+    setPending(null);
+
+    const parts = [`Imported ${plural(merged.added, 'preset')}`];
+    if (merged.replaced > 0) parts.push(`replaced ${merged.replaced}`);
+    if (merged.skipped > 0) parts.push(`skipped ${plural(merged.skipped, 'duplicate')}`);
+    if (result.skipped.length > 0) {
+      parts.push(`left out ${result.skipped.length} unreadable ${result.skipped.length === 1 ? 'entry' : 'entries'}`);
+    }
+    setReport({ message: `${parts.join(', ')}.`, skipped: result.skipped, isError: result.skipped.length > 0 });
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Let the same file be picked again
+    if (!file) return;
+
+    setReport(null);
+    try {
+      const result = parsePresetLibrary(await file.text());
+      const duplicates = countDuplicates(presets, result.presets);
+      if (duplicates > 0) {
+        setPending({ result, duplicates });
+      } else {
+        applyImport(result, 'keep-both');
+      }
+    } catch (err) {
+      console.error("Failed to import presets", err);
+      setReport({ message: `Couldn't import ${file.name}: ${err instanceof Error ? err.message : 'unknown error'}`, skipped: [], isError: true });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-2 px-3 py-1.5 bg-slate-800/50 hover:bg-purple-600/20 text-slate-400 hover:text-purple-400 rounded-lg transition-colors"
+          title="Import presets from a JSON file"
+        >
+          <Upload className="w-4 h-4" />
+          Import
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={presets.length === 0}
+          className="flex items-center gap-2 px-3 py-1.5 bg-slate-800/50 hover:bg-purple-600/20 text-slate-400 hover:text-purple-400 rounded-lg transition-colors disabled:opacity-40 disabled:pointer-events-none"
+          title="Download presets as a JSON file"
+        >
+          <Download className="w-4 h-4" />
+          {selectedIds.length > 0 ? `Export ${selectedIds.length}` : 'Export all'}
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+      </div>
+
+      {pending && (
+        <div className="flex flex-wrap items-center gap-2 p-3 bg-slate-900/80 border border-purple-500/30 rounded-xl text-sm text-slate-300">
+          <span className="mr-1">
+            {plural(pending.duplicates, 'preset')} in this file {pending.duplicates === 1 ? 'is' : 'are'} already in your library.
+          </span>
+          {DUPLICATE_CHOICES.map(choice => (
+            <button
+              key={choice.id}
+              onClick={() => applyImport(pending.result, choice.id)}
+              className="px-3 py-1 rounded-lg bg-slate-800 hover:bg-purple-600 hover:text-white transition-colors"
+            >
+              {choice.label}
+            </button>
+          ))}
+          <button onClick={() => setPending(null)} className="px-3 py-1 rounded-lg text-slate-500 hover:text-white transition-colors">
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {report && (
+        <div className={`flex items-start gap-3 p-3 rounded-xl border text-sm ${report.isError ? 'bg-amber-500/5 border-amber-500/30 text-amber-200' : 'bg-slate-900/80 border-slate-700 text-slate-300'}`}>
+          {report.isError && <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-amber-400" />}
+          <div className="flex-1 space-y-1">
+            <p>{report.message}</p>
+            {report.skipped.length > 0 && (
+              <ul className="text-xs text-slate-400 font-mono space-y-0.5">
+                {report.skipped.map((entry, i) => <li key={i}>{describeSkipped(entry)}</li>)}
+              </ul>
+            )}
+          </div>
+          <button onClick={() => setReport(null)} className="text-slate-500 hover:text-white transition-colors" title="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LibraryTransfer;
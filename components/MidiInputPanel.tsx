@@ -0,0 +1,120 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Usb, Loader2 } from 'lucide-react';
+import type { MusicTheoryResponse } from '../lib/types';
+import { isMidiSupported, requestMidiAccess, subscribeToMidiInputs } from '../lib/midi';
+import { DEFAULT_SPELLING, identifyChords } from '../lib/recognition';
+import { mod12, parseNote, pitchClass } from '../lib/theory';
+
+interface MidiInputPanelProps {
+  response: MusicTheoryResponse | null; // Held notes are checked against this result
+  onHeldChange?: (held: number[]) => void;
+  access?: MIDIAccess; // Injected access (e.g. a fake) instead of asking the browser
+}
+
+type Status = 'idle' | 'connecting' | 'connected' | 'error';
+
+const MidiInputPanel: React.FC<MidiInputPanelProps> = ({ response, onHeldChange, access }) => {
+  const [midiAccess, setMidiAccess] = useState<MIDIAccess | null>(access ?? null);
+  const [status, setStatus] = useState<Status>(access ? 'connected' : 'idle');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [devices, setDevices] = useState<string[]>([]);
+  const [held, setHeld] = useState<number[]>([]);
+
+  const connect = async () => {
+    setStatus('connecting');
+    setErrorMessage(null);
+    try {
+      setMidiAccess(await requestMidiAccess());
+      setStatus('connected');
+    } catch (e) {
+      setErrorMessage(e instanceof Error ? e.message : 'MIDI access was denied');
+      setStatus('error');
+    }
+  };
+
+  useEffect(() => {
+    if (!midiAccess) return;
+    const unsubscribe = subscribeToMidiInputs(
+      midiAccess,
+      {
+        onNoteOn: (note) => setHeld(prev => (prev.includes(note) ? prev : [...prev, note].sort((a, b) => a - b))),
+        onNoteOff: (note) => setHeld(prev => prev.filter(n => n !== note)),
+      },
+      (inputs) => setDevices(inputs.map(input => input.name || 'MIDI input'))
+    );
+    return () => {
+      unsubscribe();
+      setHeld([]);
+    };
+  }, [midiAccess]);
+
+  useEffect(() => {
+    onHeldChange?.(held);
+  }, [held, onHeldChange]);
+
+  // Spell held notes the way the current result does, falling back to a neutral spelling
+  const resultSpelling = useMemo(() => {
+    const spelling = new Map<number, string>();
+    response?.notes.forEach(name => {
+      const note = parseNote(name);
+      if (note && !spelling.has(pitchClass(note))) spelling.set(pitchClass(note), name);
+    });
+    return spelling;
+  }, [response]);
+
+  const chords = useMemo(() => identifyChords(held), [held]);
+
+  if (status !== 'connected') {
+    return (
+      <div className="flex flex-col items-center gap-1 text-xs">
+        <button
+          onClick={connect}
+          disabled={status === 'connecting' || !isMidiSupported()}
+          className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-900/80 border border-slate-800 rounded-lg text-slate-400 hover:text-white hover:border-slate-600 font-medium transition-all disabled:opacity-40"
+          title={isMidiSupported() ? 'Play along on a MIDI keyboard' : 'Web MIDI is not supported in this browser'}
+        >
+          {status === 'connecting' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Usb className="w-3.5 h-3.5" />}
+          Connect MIDI Keyboard
+        </button>
+        {errorMessage && <span className="text-red-400">{errorMessage}</span>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-2 text-xs">
+      <div className="flex items-center gap-2 text-slate-500">
+        <Usb className="w-3.5 h-3.5" />
+        <span>{devices.length ? devices.join(', ') : 'No MIDI inputs connected'}</span>
+      </div>
+      <div className="flex items-baseline gap-3 min-h-[2rem]">
+        <span className="text-2xl font-bold text-white">{chords[0]?.name ?? (held.length ? '—' : '')}</span>
+        {chords.length > 1 && (
+          <span className="text-slate-500">also {chords.slice(1, 4).map(c => c.name).join(', ')}</span>
+        )}
+      </div>
+      <div className="flex flex-wrap justify-center gap-1.5">
+        {held.map(midi => {
+          const name = resultSpelling.get(mod12(midi)) ?? DEFAULT_SPELLING[mod12(midi)];
+          const inResult = resultSpelling.has(mod12(midi));
+          const colours = !response
+            ? 'bg-slate-800 border-slate-700 text-slate-200'
+            : inResult
+              ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400'
+              : 'bg-rose-500/10 border-rose-500/30 text-rose-400';
+          return (
+            <span
+              key={midi}
+              className={`px-2 py-1 rounded-md font-mono font-bold border ${colours}`}
+              title={response ? `${inResult ? 'In' : 'Not in'} ${response.root} ${response.type}` : undefined}
+            >
+              {name}{Math.floor(midi / 12) - 1}
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default MidiInputPanel;
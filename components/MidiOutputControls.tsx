@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { Cable, Loader2, OctagonX } from 'lucide-react';
+import { isMidiSupported, listMidiOutputs, midiOutput, requestMidiAccess } from '../lib/midi';
+
+interface MidiOutputControlsProps {
+  access?: MIDIAccess; // Injected access (e.g. a fake) instead of asking the browser
+}
+
+const CHANNELS = Array.from({ length: 16 }, (_, i) => i + 1);
+
+// Port, channel and velocity for the shared MIDI output. Notes reach the port
+// from every keyboard and from playback, alongside the built-in synth.
+const MidiOutputControls: React.FC<MidiOutputControlsProps> = ({ access }) => {
+  const [midiAccess, setMidiAccess] = useState<MIDIAccess | null>(access ?? null);
+  const [connecting, setConnecting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [ports, setPorts] = useState<MIDIOutput[]>([]);
+  const [settings, setSettings] = useState(midiOutput.getSettings);
+
+  const connect = async () => {
+    setConnecting(true);
+    setErrorMessage(null);
+    try {
+      setMidiAccess(await requestMidiAccess());
+    } catch (e) {
+      setErrorMessage(e instanceof Error ? e.message : 'MIDI access was denied');
+    } finally {
+      setConnecting(false);
+    }
+  };
+
+  // Track plugged/unplugged ports and reselect the last port used
+  useEffect(() => {
+    if (!midiAccess) return;
+    const refresh = () => {
+      const outputs = listMidiOutputs(midiAccess);
+      setPorts(outputs);
+      const saved = outputs.find(port => port.id === midiOutput.getSettings().portId);
+      if (saved) midiOutput.setPort(saved);
+      setSettings(midiOutput.getSettings());
+    };
+    refresh();
+    midiAccess.addEventListener('statechange', refresh);
+    return () => midiAccess.removeEventListener('statechange', refresh);
+  }, [midiAccess]);
+
+  // Nothing should keep sounding on the external synth once the controls are gone
+  useEffect(() => () => midiOutput.allNotesOff(), []);
+
+  const selectPort = (id: string) => {
+    midiOutput.setPort(ports.find(port => port.id === id) ?? null);
+    setSettings(midiOutput.getSettings());
+  };
+
+  const update = (changes: { channel?: number; velocity?: number }) => {
+    midiOutput.setSettings(changes);
+    setSettings(midiOutput.getSettings());
+  };
+
+  if (!midiAccess) {
+    return (
+      <div className="flex flex-col items-center gap-1 text-xs">
+        <button
+          onClick={connect}
+          disabled={connecting || !isMidiSupported()}
+          className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-900/80 border border-slate-800 rounded-lg text-slate-400 hover:text-white hover:border-slate-600 font-medium transition-all disabled:opacity-40"
+          title={isMidiSupported() ? 'Send notes to an external synth or DAW' : 'Web MIDI is not supported in this browser'}
+        >
+          {connecting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Cable className="w-3.5 h-3.5" />}
+          Connect MIDI Output
+        </button>
+        {errorMessage && <span className="text-red-400">{errorMessage}</span>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-xs">
+      <label className="flex items-center gap-2 bg-slate-900/80 rounded-lg border border-slate-800 px-3 py-1.5 text-slate-400" title="MIDI output port">
+        <Cable className="w-3.5 h-3.5" />
+        <select
+          value={settings.portId ?? ''}
+          onChange={(e) => selectPort(e.target.value)}
+          className="bg-transparent text-slate-300 focus:outline-none max-w-[10rem]"
+        >
+          <option value="" className="bg-slate-900">Built-in synth only</option>
+          {ports.map(port => (
+            <option key={port.id} value={port.id} className="bg-slate-900">{port.name || port.id}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center gap-2 bg-slate-900/80 rounded-lg border border-slate-800 px-3 py-1.5 text-slate-400" title="MIDI channel">
+        <span className="font-bold uppercase tracking-wider text-[10px]">Ch</span>
+        <select
+          value={settings.channel}
+          onChange={(e) => update({ channel: Number(e.target.value) })}
+          className="bg-transparent text-slate-300 focus:outline-none"
+        >
+          {CHANNELS.map(channel => (
+            <option key={channel} value={channel} className="bg-slate-900">{channel}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center gap-2 bg-slate-900/80 rounded-lg border border-slate-800 px-3 py-1.5 text-slate-400" title="Velocity">
+        <span className="font-bold uppercase tracking-wider text-[10px]">Vel</span>
+        <input
+          type="range"
+          min={1}
+          max={127}
+          value={settings.velocity}
+          onChange={(e) => update({ velocity: Number(e.target.value) })}
+          className="w-20 accent-cyan-500"
+        />
+        <span className="font-mono w-6">{settings.velocity}</span>
+      </label>
+
+      <button
+        onClick={() => midiOutput.allNotesOff()}
+        disabled={!settings.portId}
+        className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-900/80 border border-slate-800 rounded-lg text-slate-400 hover:text-red-400 hover:border-red-500/40 font-medium transition-all disabled:opacity-40"
+        title="All notes off"
+      >
+        <OctagonX className="w-3.5 h-3.5" />
+        Panic
+      </button>
+    </div>
+  );
+};
+
+export default MidiOutputControls;
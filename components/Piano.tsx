@@ -1,36 +1,22 @@
 import React, { useMemo } from 'react';
+import { midiNumber, parseNote } from '../lib/theory';
+import { NoteNaming, formatNoteName, notePitchClass } from '../lib/noteNames';
 
 interface PianoProps {
   activeNotes: string[];
   rootNote?: string;
+  voicing?: string[]; // Octave-specific pitches; when set only these exact keys light up
+  soundingKeys?: number[]; // MIDI notes currently being played back
+  heldKeys?: number[]; // MIDI notes held on an external keyboard
+  onKeyClick?: (midi: number) => void; // Makes the keys clickable
+  keyColors?: Record<number, string>; // Pitch class -> fill for active keys, overriding root/active colours
+  naming?: NoteNaming; // How the octave labels are written
 }
 
-// Static mapping to avoid repeated object creation
-const NOTE_TO_OFFSET: Record<string, number> = {
-  'C': 0, 'B#': 0,
-  'C#': 1, 'DB': 1,
-  'D': 2,
-  'D#': 3, 'EB': 3,
-  'E': 4, 'FB': 4,
-  'F': 5, 'E#': 5,
-  'F#': 6, 'GB': 6,
-  'G': 7,
-  'G#': 8, 'AB': 8,
-  'A': 9,
-  'A#': 10, 'BB': 10,
-  'B': 11, 'CB': 11
-};
-
-// Helper to map note names to key indices (0-11)
-const noteToOffset = (note: string): number => {
-  const n = note.toUpperCase().replace(/[0-9]/g, ''); // remove octave numbers if present
-  return NOTE_TO_OFFSET[n] ?? -1;
-};
-
-const OCTAVES = 2; // Number of octaves to render
+const OCTAVES = 2; // Number of octaves to render by default
 const START_OCTAVE = 3; // Start at C3
 
-const Piano: React.FC<PianoProps> = ({ activeNotes, rootNote }) => {
+const Piano: React.FC<PianoProps> = ({ activeNotes, rootNote, voicing, soundingKeys, heldKeys, onKeyClick, keyColors, naming }) => {
   const whiteKeyWidth = 40;
   const whiteKeyHeight = 160;
   const blackKeyWidth = 24;
@@ -40,35 +26,71 @@ const Piano: React.FC<PianoProps> = ({ activeNotes, rootNote }) => {
   const { activeIndices, rootIndex } = useMemo(() => {
     const activeSet = new Set<number>();
     activeNotes.forEach(n => {
-      const offset = noteToOffset(n);
+      const offset = notePitchClass(n);
       if (offset !== -1) activeSet.add(offset);
     });
 
     let rIndex = -1;
     if (rootNote) {
-      rIndex = noteToOffset(rootNote);
+      rIndex = notePitchClass(rootNote);
     }
 
     return { activeIndices: activeSet, rootIndex: rIndex };
   }, [activeNotes, rootNote]);
 
+  // MIDI numbers of the voiced keys, or null to highlight by pitch class
+  const voicedKeys = useMemo(() => {
+    if (!voicing) return null;
+    const midi = new Set<number>();
+    voicing.forEach(n => {
+      const note = parseNote(n);
+      if (note && note.octave !== undefined) midi.add(midiNumber(note));
+    });
+    return midi;
+  }, [voicing]);
+
+  const sounding = useMemo(() => new Set(soundingKeys ?? []), [soundingKeys]);
+  const held = useMemo(() => new Set(heldKeys ?? []), [heldKeys]);
+
+  // Widen the keyboard when a voicing, playback or held key reaches outside the default two octaves
+  const { startOctave, octaves } = useMemo(() => {
+    const keys = [...(voicedKeys ?? []), ...sounding, ...held];
+    if (keys.length === 0) return { startOctave: START_OCTAVE, octaves: OCTAVES };
+    const lowest = Math.min(START_OCTAVE, Math.floor(Math.min(...keys) / 12) - 1);
+    const highest = Math.max(START_OCTAVE + OCTAVES - 1, Math.floor(Math.max(...keys) / 12) - 1);
+    return { startOctave: lowest, octaves: highest - lowest + 1 };
+  }, [voicedKeys, sounding, held]);
+
+  // Movable do names the C keys relative to the root
+  const labelTonic = useMemo(() => (rootNote ? parseNote(rootNote) ?? undefined : undefined), [rootNote]);
+
+  const isKeyActive = (midi: number, noteIndex: number) =>
+    voicedKeys ? voicedKeys.has(midi) : activeIndices.has(noteIndex);
+
   // Optimization: Memoize the SVG keys generation to prevent unnecessary re-renders
   const keys = useMemo(() => {
     const generatedKeys = [];
 
-    for (let oct = 0; oct < OCTAVES; oct++) {
+    for (let oct = 0; oct < octaves; oct++) {
       const xOffset = oct * (whiteKeyWidth * 7);
 
       // White Keys
       const whiteNotes = [0, 2, 4, 5, 7, 9, 11]; // C, D, E, F, G, A, B offsets
       whiteNotes.forEach((noteIndex, i) => {
         // Check if this key matches any active note using O(1) Set lookup
-        const isActive = activeIndices.has(noteIndex);
-        const isRoot = rootIndex === noteIndex;
+        const midi = (startOctave + oct + 1) * 12 + noteIndex;
+        const isActive = isKeyActive(midi, noteIndex);
+        const isRoot = rootIndex === noteIndex && (!voicedKeys || isActive);
 
-        // Violet for root, Blue for active, White default
+        // Cyan while sounding, Green/Red while held (in/out of the result), Violet for root, Blue for active, White default
         let fill = 'white';
-        if (isRoot) {
+        if (sounding.has(midi)) {
+          fill = '#22d3ee'; // cyan-400
+        } else if (held.has(midi)) {
+          fill = activeIndices.has(noteIndex) ? '#34d399' : '#fb7185'; // emerald-400 / rose-400
+        } else if (isActive && keyColors?.[noteIndex]) {
+          fill = keyColors[noteIndex];
+        } else if (isRoot) {
           fill = '#8b5cf6'; // violet-500
         } else if (isActive) {
           fill = '#60a5fa'; // blue-400
@@ -84,7 +106,8 @@ const Piano: React.FC<PianoProps> = ({ activeNotes, rootNote }) => {
             fill={fill}
             stroke="#cbd5e1"
             strokeWidth="1"
-            className="transition-colors duration-300 ease-in-out hover:opacity-90"
+            className={`transition-colors duration-300 ease-in-out hover:opacity-90 ${onKeyClick ? 'cursor-pointer' : ''}`}
+            onClick={onKeyClick ? () => onKeyClick(midi) : undefined}
             rx={4}
             ry={4}
           />
@@ -103,7 +126,7 @@ const Piano: React.FC<PianoProps> = ({ activeNotes, rootNote }) => {
                   pointerEvents="none"
                   style={{ userSelect: 'none' }}
               >
-                  C{START_OCTAVE + oct}
+                  {formatNoteName({ letter: 'C', accidental: 0, octave: startOctave + oct }, naming ?? 'english', labelTonic)}
               </text>
            );
         }
@@ -119,12 +142,19 @@ const Piano: React.FC<PianoProps> = ({ activeNotes, rootNote }) => {
       ];
 
       blackNotes.forEach(({ idx, pos }) => {
-        const isActive = activeIndices.has(idx);
-        const isRoot = rootIndex === idx;
+        const midi = (startOctave + oct + 1) * 12 + idx;
+        const isActive = isKeyActive(midi, idx);
+        const isRoot = rootIndex === idx && (!voicedKeys || isActive);
         
-        // Darker Violet for root, Blue for active, Slate-800 default
+        // Cyan while sounding, Green/Red while held, Darker Violet for root, Blue for active, Slate-800 default
         let fill = '#1e293b';
-        if (isRoot) {
+        if (sounding.has(midi)) {
+          fill = '#22d3ee'; // cyan-400
+        } else if (held.has(midi)) {
+          fill = activeIndices.has(idx) ? '#10b981' : '#f43f5e'; // emerald-500 / rose-500
+        } else if (isActive && keyColors?.[idx]) {
+          fill = keyColors[idx];
+        } else if (isRoot) {
           fill = '#7c3aed'; // violet-600
         } else if (isActive) {
           fill = '#3b82f6'; // blue-500
@@ -143,7 +173,8 @@ const Piano: React.FC<PianoProps> = ({ activeNotes, rootNote }) => {
             fill={fill}
             stroke="#0f172a"
             strokeWidth="1"
-            className="transition-colors duration-300 ease-in-out z-10 hover:opacity-90"
+            className={`transition-colors duration-300 ease-in-out z-10 hover:opacity-90 ${onKeyClick ? 'cursor-pointer' : ''}`}
+            onClick={onKeyClick ? () => onKeyClick(midi) : undefined}
             rx={2}
             ry={2}
           />
@@ -151,10 +182,10 @@ const Piano: React.FC<PianoProps> = ({ activeNotes, rootNote }) => {
       });
     }
     return generatedKeys;
-  }, [activeIndices, rootIndex]);
+  }, [activeIndices, rootIndex, voicedKeys, sounding, held, startOctave, octaves, onKeyClick, keyColors, naming, labelTonic]);
 
-  // Total width = 7 white keys * OCTAVES
-  const totalWidth = 7 * whiteKeyWidth * OCTAVES;
+  // Total width = 7 white keys * octaves
+  const totalWidth = 7 * whiteKeyWidth * octaves;
 
   return (
     <div className="relative inline-block p-4 bg-slate-900 rounded-xl shadow-2xl border border-slate-800">
@@ -1,35 +1,19 @@
 
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { ethers } from 'ethers';
-import { Crown, ChevronLeft, ChevronRight, Activity, Zap, Music2 } from 'lucide-react';
+import { Crown, ChevronLeft, ChevronRight, Zap, Music2 } from 'lucide-react';
+import { instrument } from '../lib/instrument';
+import { NoteNaming, formatNoteName, notePitchClass } from '../lib/noteNames';
+import SynthPanel from './SynthPanel';
 
 interface PianoTokenProps {
   activeNotes?: string[]; // Optional external control
   rootNote?: string;      // Optional external control
+  heldKeys?: number[];    // MIDI notes held on an external keyboard
+  naming?: NoteNaming;    // How the octave labels are written
 }
 
 // --- Configuration ---
-const NOTE_TO_OFFSET: Record<string, number> = {
-  'C': 0, 'B#': 0,
-  'C#': 1, 'DB': 1,
-  'D': 2,
-  'D#': 3, 'EB': 3,
-  'E': 4, 'FB': 4,
-  'F': 5, 'E#': 5,
-  'F#': 6, 'GB': 6,
-  'G': 7,
-  'G#': 8, 'AB': 8,
-  'A': 9,
-  'A#': 10, 'BB': 10,
-  'B': 11, 'CB': 11
-};
-
-// Helper to map note names to key indices (0-11)
-const noteToOffset = (note: string): number => {
-  const n = note.toUpperCase().replace(/[0-9]/g, ''); 
-  return NOTE_TO_OFFSET[n] ?? -1;
-};
-
 const START_OCTAVE = 3;
 const DEFAULT_OCTAVES = 2;
 const MAX_OCTAVES = 4; // Extended range for token holders
@@ -43,7 +27,7 @@ const MINIMAL_ERC20_ABI = [
   "function balanceOf(address owner) view returns (uint256)"
 ];
 
-const PianoToken: React.FC<PianoTokenProps> = ({ activeNotes = [], rootNote }) => {
+const PianoToken: React.FC<PianoTokenProps> = ({ activeNotes = [], rootNote, heldKeys, naming }) => {
   // --- State ---
   const [hasAccess, setHasAccess] = useState(false);
   const [walletConnected, setWalletConnected] = useState(false);
@@ -51,14 +35,11 @@ const PianoToken: React.FC<PianoTokenProps> = ({ activeNotes = [], rootNote }) =
   const [playingNotes, setPlayingNotes] = useState<Set<number>>(new Set()); // Track currently playing MIDI notes
   const [octaveShift, setOctaveShift] = useState(0);
   
-  // New Features State
-  const [waveform, setWaveform] = useState<OscillatorType>('triangle');
+  // Sustain pedal: released keys keep sounding until the pedal is lifted
   const [sustain, setSustain] = useState(false);
-
-  // --- Refs ---
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const oscillatorsRef = useRef<Map<number, OscillatorNode>>(new Map());
-  const gainNodesRef = useRef<Map<number, GainNode>>(new Map());
+  const sustainedRef = useRef<Set<number>>(new Set());
+  // Keys this keyboard started, so it never silences notes played elsewhere on the shared engine
+  const heldRef = useRef<Set<number>>(new Set());
 
   // --- Constants ---
   const octaves = hasAccess ? MAX_OCTAVES : DEFAULT_OCTAVES;
@@ -69,72 +50,26 @@ const PianoToken: React.FC<PianoTokenProps> = ({ activeNotes = [], rootNote }) =
   const totalWidth = 7 * whiteKeyWidth * octaves;
 
   // --- Audio Logic ---
-  const initAudio = useCallback(() => {
-    if (!audioContextRef.current) {
-      const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
-      if (AudioContext) {
-        audioContextRef.current = new AudioContext();
-      }
-    }
-    if (audioContextRef.current?.state === 'suspended') {
-      audioContextRef.current.resume();
-    }
-  }, []);
-
   const playNoteStart = useCallback((midiNote: number) => {
-    initAudio();
-    const ctx = audioContextRef.current;
-    if (!ctx) return;
-
-    // If already playing, stop it first to re-trigger cleanly or just ignore
-    if (oscillatorsRef.current.has(midiNote)) return;
-
-    const osc = ctx.createOscillator();
-    const gain = ctx.createGain();
-
-    osc.connect(gain);
-    gain.connect(ctx.destination);
-
-    // Frequency calculation: f = 440 * 2^((d - 69)/12)
-    const freq = 440 * Math.pow(2, (midiNote - 69) / 12);
-    osc.frequency.value = freq;
-    osc.type = waveform;
+    // If already held, ignore so held keys don't re-trigger; a sustained note is struck again
+    if (instrument.isPlaying(midiNote) && !sustainedRef.current.has(midiNote)) return;
+    sustainedRef.current.delete(midiNote);
 
-    const now = ctx.currentTime;
-    gain.gain.setValueAtTime(0, now);
-    gain.gain.linearRampToValueAtTime(0.3, now + 0.05); // Attack
-
-    osc.start(now);
-
-    // Store refs
-    oscillatorsRef.current.set(midiNote, osc);
-    gainNodesRef.current.set(midiNote, gain);
-    
+    instrument.noteOn(midiNote);
+    heldRef.current.add(midiNote);
     setPlayingNotes(prev => new Set(prev).add(midiNote));
-  }, [initAudio, waveform]);
+  }, []);
 
   const playNoteStop = useCallback((midiNote: number) => {
-    const ctx = audioContextRef.current;
-    const osc = oscillatorsRef.current.get(midiNote);
-    const gain = gainNodesRef.current.get(midiNote);
-
-    const releaseTime = sustain ? 1.5 : 0.2;
-
-    if (ctx && osc && gain) {
-      const now = ctx.currentTime;
-      // Release
-      gain.gain.cancelScheduledValues(now);
-      gain.gain.setValueAtTime(gain.gain.value, now);
-      gain.gain.exponentialRampToValueAtTime(0.001, now + releaseTime);
-      osc.stop(now + releaseTime);
-
-      // Cleanup after release
-      setTimeout(() => {
-        oscillatorsRef.current.delete(midiNote);
-        gainNodesRef.current.delete(midiNote);
-      }, releaseTime * 1000 + 50);
+    if (!instrument.isPlaying(midiNote) || sustainedRef.current.has(midiNote)) return;
+
+    heldRef.current.delete(midiNote);
+    if (sustain) {
+      sustainedRef.current.add(midiNote);
+    } else {
+      instrument.noteOff(midiNote);
     }
-    
+
     setPlayingNotes(prev => {
         const next = new Set(prev);
         next.delete(midiNote);
@@ -142,6 +77,26 @@ const PianoToken: React.FC<PianoTokenProps> = ({ activeNotes = [], rootNote }) =
     });
   }, [sustain]);
 
+  const toggleSustain = () => {
+    if (sustain) {
+      sustainedRef.current.forEach(midiNote => instrument.noteOff(midiNote));
+      sustainedRef.current.clear();
+    }
+    setSustain(!sustain);
+  };
+
+  // Release this keyboard's notes when the range moves or it goes away, so none (here or on an external synth) hangs
+  useEffect(() => {
+    const held = heldRef.current;
+    const sustained = sustainedRef.current;
+    return () => {
+      [...held, ...sustained].forEach(midiNote => instrument.noteOff(midiNote));
+      held.clear();
+      sustained.clear();
+      setPlayingNotes(new Set());
+    };
+  }, [octaveShift]);
+
 
   // --- Web3 Logic ---
   const connectWallet = async () => {
@@ -200,13 +155,14 @@ const PianoToken: React.FC<PianoTokenProps> = ({ activeNotes = [], rootNote }) =
   const activeIndices = useMemo(() => {
     const s = new Set<number>();
     activeNotes.forEach(n => {
-        const offset = noteToOffset(n);
+        const offset = notePitchClass(n);
         if (offset !== -1) s.add(offset);
     });
     return s;
   }, [activeNotes]);
 
-  const rootIndex = useMemo(() => rootNote ? noteToOffset(rootNote) : -1, [rootNote]);
+  const rootIndex = useMemo(() => rootNote ? notePitchClass(rootNote) : -1, [rootNote]);
+  const held = useMemo(() => new Set(heldKeys ?? []), [heldKeys]);
 
   const keys = useMemo(() => {
     const generatedKeys = [];
@@ -222,7 +178,7 @@ const PianoToken: React.FC<PianoTokenProps> = ({ activeNotes = [], rootNote }) =
         
         const isExternalActive = activeIndices.has(noteIndex);
         const isRoot = rootIndex === noteIndex;
-        const isPressed = playingNotes.has(midiNote);
+        const isPressed = playingNotes.has(midiNote) || held.has(midiNote);
 
         let fill = 'white';
         if (isPressed) {
@@ -266,7 +222,7 @@ const PianoToken: React.FC<PianoTokenProps> = ({ activeNotes = [], rootNote }) =
                     pointerEvents="none"
                     className="select-none"
                 >
-                    C{currentOctaveNumber}
+                    {formatNoteName({ letter: 'C', accidental: 0, octave: currentOctaveNumber }, naming ?? 'english')}
                 </text>
             );
         }
@@ -284,7 +240,7 @@ const PianoToken: React.FC<PianoTokenProps> = ({ activeNotes = [], rootNote }) =
 
         const isExternalActive = activeIndices.has(idx);
         const isRoot = rootIndex === idx;
-        const isPressed = playingNotes.has(midiNote);
+        const isPressed = playingNotes.has(midiNote) || held.has(midiNote);
 
         let fill = '#1e293b'; // Default dark slate
         if (isPressed) {
@@ -319,7 +275,7 @@ const PianoToken: React.FC<PianoTokenProps> = ({ activeNotes = [], rootNote }) =
     }
 
     return generatedKeys;
-  }, [octaves, octaveShift, activeIndices, rootIndex, playingNotes, playNoteStart, playNoteStop]);
+  }, [octaves, octaveShift, activeIndices, rootIndex, playingNotes, held, playNoteStart, playNoteStop, naming]);
 
 
   return (
@@ -363,30 +319,9 @@ const PianoToken: React.FC<PianoTokenProps> = ({ activeNotes = [], rootNote }) =
             
             {/* Sound Settings */}
             <div className="flex items-center gap-2 overflow-x-auto pb-1 no-scrollbar">
-                {/* Waveform Selector */}
-                <div className="flex items-center bg-slate-950 rounded-lg border border-slate-800 p-1">
-                    <div className="flex items-center px-2 text-slate-500 gap-1 border-r border-slate-800 mr-1">
-                        <Activity className="w-3 h-3" />
-                        <span className="text-[10px] font-bold uppercase tracking-wider">Wave</span>
-                    </div>
-                    {(['triangle', 'sine', 'square', 'sawtooth'] as const).map((type) => (
-                        <button
-                            key={type}
-                            onClick={() => setWaveform(type)}
-                            className={`p-1.5 rounded-md text-xs transition-all ${waveform === type ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
-                            title={type}
-                        >
-                            {type === 'triangle' && <span className="font-sans">▲</span>}
-                            {type === 'sine' && <span className="font-sans">~</span>}
-                            {type === 'square' && <span className="font-sans">■</span>}
-                            {type === 'sawtooth' && <span className="font-sans">vf</span>}
-                        </button>
-                    ))}
-                </div>
-
                 {/* Sustain Toggle */}
                 <button
-                    onClick={() => setSustain(!sustain)}
+                    onClick={toggleSustain}
                     className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold transition-all border ${sustain ? 'bg-pink-600 border-pink-500 text-white shadow-[0_0_10px_rgba(219,39,119,0.3)]' : 'bg-slate-950 border-slate-800 text-slate-400 hover:border-slate-600'}`}
                 >
                     <Zap className={`w-3 h-3 ${sustain ? 'fill-current' : ''}`} />
@@ -418,6 +353,11 @@ const PianoToken: React.FC<PianoTokenProps> = ({ activeNotes = [], rootNote }) =
               </button>
             </div>
         </div>
+
+        {/* Row 3: Synth / Sampled Piano */}
+        <div className="w-full border-t border-slate-800 pt-3">
+            <SynthPanel />
+        </div>
       </div>
 
       {/* Piano SVG */}
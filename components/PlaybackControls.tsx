@@ -0,0 +1,101 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowUp, ArrowDown, Layers, Waves, Square, Gauge, Timer } from 'lucide-react';
+import { Playback, PlaybackPattern, playNotes } from '../lib/playback';
+
+interface PlaybackControlsProps {
+  notes: number[]; // MIDI notes in playing order
+  onSoundingChange?: (sounding: number[]) => void;
+}
+
+const PATTERNS: { id: PlaybackPattern; label: string; icon: React.ElementType }[] = [
+  { id: 'ascending', label: 'Ascending', icon: ArrowUp },
+  { id: 'descending', label: 'Descending', icon: ArrowDown },
+  { id: 'chord', label: 'Chord', icon: Layers },
+  { id: 'arpeggio', label: 'Arpeggiate', icon: Waves },
+];
+
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({ notes, onSoundingChange }) => {
+  const [bpm, setBpm] = useState(100);
+  const [noteLength, setNoteLength] = useState(0.9);
+  const [playing, setPlaying] = useState<PlaybackPattern | null>(null);
+  const playbackRef = useRef<Playback | null>(null);
+
+  const stop = () => {
+    playbackRef.current?.stop();
+    playbackRef.current = null;
+    setPlaying(null);
+  };
+
+  // Stop when the result changes or the controls go away
+  useEffect(() => stop, [notes]);
+
+  const play = (pattern: PlaybackPattern) => {
+    stop();
+    const playback = playNotes(notes, pattern, { bpm, noteLength, onSoundingChange });
+    playbackRef.current = playback;
+    setPlaying(pattern);
+    playback.done.then(() => {
+      if (playbackRef.current === playback) {
+        playbackRef.current = null;
+        setPlaying(null);
+      }
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-xs">
+      <div className="flex items-center bg-slate-900/80 rounded-lg border border-slate-800 p-1">
+        {PATTERNS.map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            onClick={() => play(id)}
+            disabled={notes.length === 0}
+            className={`flex items-center gap-1.5 px-3 py-1 rounded-md font-medium transition-all disabled:opacity-40 ${playing === id ? 'bg-cyan-600 text-white' : 'text-slate-400 hover:text-white'}`}
+            title={`Play ${label.toLowerCase()}`}
+          >
+            <Icon className="w-3.5 h-3.5" />
+            <span className="hidden sm:inline">{label}</span>
+          </button>
+        ))}
+        <button
+          onClick={stop}
+          disabled={!playing}
+          className="p-1.5 rounded-md text-slate-400 hover:text-white disabled:opacity-40 transition-all"
+          title="Stop"
+        >
+          <Square className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 bg-slate-900/80 rounded-lg border border-slate-800 px-3 py-1.5 text-slate-400" title="Tempo">
+        <Gauge className="w-3.5 h-3.5" />
+        <input
+          type="range"
+          min={40}
+          max={240}
+          step={5}
+          value={bpm}
+          onChange={(e) => setBpm(Number(e.target.value))}
+          className="w-20 accent-cyan-500"
+        />
+        <span className="font-mono w-14">{bpm} BPM</span>
+      </label>
+
+      <label className="flex items-center gap-2 bg-slate-900/80 rounded-lg border border-slate-800 px-3 py-1.5 text-slate-400" title="Note length">
+        <Timer className="w-3.5 h-3.5" />
+        <input
+          type="range"
+          min={0.1}
+          max={1}
+          step={0.05}
+          value={noteLength}
+          onChange={(e) => setNoteLength(Number(e.target.value))}
+          className="w-16 accent-cyan-500"
+        />
+        <span className="font-mono w-8">{Math.round(noteLength * 100)}%</span>
+      </label>
+    </div>
+  );
+};
+
+export default PlaybackControls;
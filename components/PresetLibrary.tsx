@@ -0,0 +1,361 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CheckSquare, Folder, GitCompareArrows, History, Pencil, Search, Square, Tag, Trash2, Undo2, X } from 'lucide-react';
+import type { MusicTheoryResponse } from '../lib/types';
+import {
+  PRESET_SORTS,
+  Preset,
+  PresetSort,
+  SkippedPreset,
+  filterPresets,
+  parseTags,
+  presetFolders,
+  presetTags,
+  sortPresets,
+} from '../lib/presets';
+import { NoteNaming, displayNote } from '../lib/noteNames';
+import ExportMenu from './ExportMenu';
+import LibraryTransfer from './LibraryTransfer';
+
+interface PresetLibraryProps {
+  presets: Preset[];
+  onPresetsChange: (presets: Preset[]) => void;
+  onLoad: (preset: Preset) => void;
+  onCompare?: (preset: Preset) => void;
+  loadSkipped?: SkippedPreset[];
+  naming: NoteNaming;
+}
+
+interface PendingUndo {
+  message: string;
+  before: Preset[];
+  deletedIds: Set<string>;
+}
+
+const CATEGORIES: MusicTheoryResponse['category'][] = ['scale', 'chord', 'interval', 'progression', 'other'];
+const UNDO_TIMEOUT_MS = 8000;
+// Folder filter value for presets without a folder
+const UNFILED = '\u0000unfiled';
+
+const inputClass = 'bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1.5 text-sm text-slate-300 placeholder-slate-600 focus:outline-none focus:border-purple-500';
+
+interface PresetEditorProps {
+  preset: Preset;
+  folders: string[];
+  onSave: (changes: Pick<Preset, 'name' | 'notes' | 'tags' | 'folder'>) => void;
+  onCancel: () => void;
+}
+
+const PresetEditor: React.FC<PresetEditorProps> = ({ preset, folders, onSave, onCancel }) => {
+  const [name, setName] = useState(preset.name);
+  const [folder, setFolder] = useState(preset.folder ?? '');
+  const [tags, setTags] = useState(preset.tags.join(', '));
+  const [notes, setNotes] = useState(preset.notes);
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({ name: name.trim() || preset.name, notes: notes.trim(), tags: parseTags(tags), folder: folder.trim() || undefined });
+  };
+
+  return (
+    <form onSubmit={save} onClick={(e) => e.stopPropagation()} className="space-y-2">
+      <input value={name} onChange={(e) => setName(e.target.value)} className={`${inputClass} w-full font-bold`} placeholder="Name" autoFocus />
+      <input value={folder} onChange={(e) => setFolder(e.target.value)} className={`${inputClass} w-full`} placeholder="Folder" list="preset-folders" />
+      <datalist id="preset-folders">
+        {folders.map(f => <option key={f} value={f} />)}
+      </datalist>
+      <input value={tags} onChange={(e) => setTags(e.target.value)} className={`${inputClass} w-full`} placeholder="Tags, comma separated" />
+      <textarea value={notes} onChange={(e) => setNotes(e.target.value)} className={`${inputClass} w-full resize-y`} rows={3} placeholder="Notes" />
+      <div className="flex justify-end gap-2 text-sm">
+        <button type="button" onClick={onCancel} className="px-3 py-1 rounded-lg text-slate-500 hover:text-white transition-colors">Cancel</button>
+        <button type="submit" className="px-3 py-1 rounded-lg bg-purple-600 hover:bg-purple-500 text-white transition-colors">Save</button>
+      </div>
+    </form>
+  );
+};
+
+// "Your Library": saved results with search, filters, sorting, editing and bulk delete
+const PresetLibrary: React.FC<PresetLibraryProps> = ({ presets, onPresetsChange, onLoad, onCompare, loadSkipped, naming }) => {
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState<MusicTheoryResponse['category'] | ''>('');
+  const [folder, setFolder] = useState('');
+  const [tag, setTag] = useState('');
+  const [sort, setSort] = useState<PresetSort>('newest');
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [pendingUndo, setPendingUndo] = useState<PendingUndo | null>(null);
+  const undoTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const folders = useMemo(() => presetFolders(presets), [presets]);
+  const tags = useMemo(() => presetTags(presets), [presets]);
+
+  const visible = useMemo(() => sortPresets(filterPresets(presets, {
+    query,
+    category: category || undefined,
+    folder: folder === UNFILED ? null : folder || undefined,
+    tag: tag || undefined,
+  }), sort), [presets, query, category, folder, tag, sort]);
+
+  // Forget selections and filters that point at presets, folders or tags that are gone
+  useEffect(() => {
+    setSelectedIds(ids => ids.filter(id => presets.some(p => p.id === id)));
+    if (folder && folder !== UNFILED && !folders.includes(folder)) setFolder('');
+    if (tag && !tags.includes(tag)) setTag('');
+  }, [presets, folders, tags]);
+
+  useEffect(() => () => {
+    if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+  }, []);
+
+  const updatePreset = (id: string, changes: Partial<Preset>) => {
+    onPresetsChange(presets.map(p => (p.id === id ? { ...p, ...changes } : p)));
+  };
+
+  const deletePresets = (ids: string[]) => {
+    if (ids.length === 0) return;
+    const deletedIds = new Set(ids);
+    const removed = presets.filter(p => deletedIds.has(p.id));
+    onPresetsChange(presets.filter(p => !deletedIds.has(p.id)));
+    setSelectedIds([]);
+
+    if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    setPendingUndo({
+      message: removed.length === 1 ? `Deleted "${removed[0].name}"` : `Deleted ${removed.length} presets`,
+      before: presets,
+      deletedIds,
+    });
+    undoTimerRef.current = setTimeout(() => setPendingUndo(null), UNDO_TIMEOUT_MS);
+  };
+
+  // Puts deleted presets back where they were, keeping anything changed or added since
+  const undoDelete = () => {
+    if (!pendingUndo) return;
+    const current = new Map(presets.map(p => [p.id, p]));
+    const previousIds = new Set(pendingUndo.before.map(p => p.id));
+    const restored = pendingUndo.before
+      .filter(p => pendingUndo.deletedIds.has(p.id) || current.has(p.id))
+      .map(p => current.get(p.id) ?? p);
+    onPresetsChange([...presets.filter(p => !previousIds.has(p.id)), ...restored]);
+    setPendingUndo(null);
+    if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(ids => (ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]));
+  };
+
+  const allVisibleSelected = visible.length > 0 && visible.every(p => selectedIds.includes(p.id));
+
+  return (
+    <section className="animate-in fade-in slide-in-from-bottom-8 duration-700 border-t border-slate-800/50 pt-8 space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <History className="w-5 h-5 text-purple-400" />
+          <h3 className="text-xl font-bold text-white">Your Library</h3>
+          {presets.length > 0 && <span className="text-sm text-slate-500">{visible.length} of {presets.length}</span>}
+        </div>
+        {presets.length > 0 && (
+          <button
+            onClick={() => { setSelecting(!selecting); setSelectedIds([]); }}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${selecting ? 'bg-purple-600 text-white' : 'bg-slate-800/50 text-slate-400 hover:text-purple-400 hover:bg-purple-600/20'}`}
+          >
+            <CheckSquare className="w-4 h-4" />
+            {selecting ? 'Done' : 'Select'}
+          </button>
+        )}
+      </div>
+
+      <LibraryTransfer presets={presets} selectedIds={selectedIds} onPresetsChange={onPresetsChange} loadSkipped={loadSkipped} />
+
+      {pendingUndo && (
+        <div className="flex items-center gap-3 p-3 rounded-xl border border-slate-700 bg-slate-900/80 text-sm text-slate-300">
+          <span className="flex-1">{pendingUndo.message}</span>
+          <button onClick={undoDelete} className="flex items-center gap-1.5 px-3 py-1 rounded-lg bg-slate-800 hover:bg-purple-600 hover:text-white transition-colors">
+            <Undo2 className="w-4 h-4" />
+            Undo
+          </button>
+        </div>
+      )}
+
+      {presets.length === 0 ? (
+        <p className="text-sm text-slate-500">No saved presets yet. Save a result above or import a library file.</p>
+      ) : (
+        <>
+          {/* Search and filters */}
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="relative flex-1 min-w-[12rem]">
+              <Search className="w-4 h-4 text-slate-500 absolute left-2.5 top-1/2 -translate-y-1/2" />
+              <input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search names, notes and tags"
+                className={`${inputClass} w-full pl-8`}
+              />
+            </label>
+            <select value={category} onChange={(e) => setCategory(e.target.value as MusicTheoryResponse['category'] | '')} className={inputClass} title="Category">
+              <option value="">All categories</option>
+              {CATEGORIES.map(c => <option key={c} value={c}>{c[0].toUpperCase() + c.slice(1)}</option>)}
+            </select>
+            <select value={folder} onChange={(e) => setFolder(e.target.value)} className={inputClass} title="Folder">
+              <option value="">All folders</option>
+              <option value={UNFILED}>Unfiled</option>
+              {folders.map(f => <option key={f} value={f}>{f}</option>)}
+            </select>
+            <select value={sort} onChange={(e) => setSort(e.target.value as PresetSort)} className={inputClass} title="Sort">
+              {PRESET_SORTS.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+            </select>
+          </div>
+
+          {tags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5">
+              <Tag className="w-3.5 h-3.5 text-slate-500" />
+              {tags.map(t => (
+                <button
+                  key={t}
+                  onClick={() => setTag(tag === t ? '' : t)}
+                  className={`text-xs px-2 py-0.5 rounded-full border transition-colors ${tag === t ? 'bg-purple-600 border-purple-500 text-white' : 'bg-slate-900/50 border-slate-700 text-slate-400 hover:text-white'}`}
+                >
+                  {t}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Bulk actions */}
+          {selecting && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <button
+                onClick={() => setSelectedIds(allVisibleSelected ? [] : visible.map(p => p.id))}
+                className="px-3 py-1.5 rounded-lg bg-slate-800/50 text-slate-400 hover:text-white transition-colors"
+              >
+                {allVisibleSelected ? 'Select none' : 'Select all'}
+              </button>
+              <button
+                onClick={() => deletePresets(selectedIds)}
+                disabled={selectedIds.length === 0}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-800/50 text-slate-400 hover:text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete {selectedIds.length || ''}
+              </button>
+            </div>
+          )}
+
+          {visible.length === 0 ? (
+            <p className="text-sm text-slate-500">No presets match these filters.</p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+              {visible.map((preset) => {
+                const isSelected = selectedIds.includes(preset.id);
+                if (editingId === preset.id) {
+                  return (
+                    <div key={preset.id} className="bg-slate-900/80 border border-purple-500/50 rounded-xl p-4">
+                      <PresetEditor
+                        preset={preset}
+                        folders={folders}
+                        onSave={(changes) => { updatePreset(preset.id, changes); setEditingId(null); }}
+                        onCancel={() => setEditingId(null)}
+                      />
+                    </div>
+                  );
+                }
+                return (
+                  <div
+                    key={preset.id}
+                    onClick={() => (selecting ? toggleSelected(preset.id) : onLoad(preset))}
+                    className={`group bg-slate-900/50 border rounded-xl p-4 cursor-pointer transition-all hover:bg-slate-800/50 relative ${isSelected ? 'border-purple-500' : 'border-slate-800 hover:border-purple-500/30'}`}
+                  >
+                    <div className="flex justify-between items-start mb-2">
+                      <h4 className="font-bold text-slate-200 group-hover:text-white truncate pr-20 flex items-center gap-2">
+                        {selecting && (
+                          isSelected
+                            ? <CheckSquare className="w-4 h-4 shrink-0 text-purple-400" />
+                            : <Square className="w-4 h-4 shrink-0 text-slate-600" />
+                        )}
+                        {preset.name}
+                      </h4>
+                      {!selecting && (
+                        <div className="flex items-center absolute top-3 right-3 opacity-0 group-hover:opacity-100 transition-opacity">
+                          {onCompare && (
+                            <button
+                              onClick={(e) => { e.stopPropagation(); onCompare(preset); }}
+                              className="text-slate-600 hover:text-purple-400 transition-colors p-1 rounded"
+                              title="Add to / remove from comparison"
+                            >
+                              <GitCompareArrows className="w-4 h-4" />
+                            </button>
+                          )}
+                          <button
+                            onClick={(e) => { e.stopPropagation(); setEditingId(preset.id); }}
+                            className="text-slate-600 hover:text-purple-400 transition-colors p-1 rounded"
+                            title="Edit Preset"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={(e) => { e.stopPropagation(); deletePresets([preset.id]); }}
+                            className="text-slate-600 hover:text-red-400 transition-colors p-1 rounded"
+                            title="Delete Preset"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                    {preset.folder && (
+                      <div className="flex items-center gap-1 text-xs text-slate-500 mb-2">
+                        <Folder className="w-3 h-3" />
+                        {preset.folder}
+                      </div>
+                    )}
+                    <div className="flex flex-wrap gap-1.5 mb-3">
+                      {preset.data.notes.slice(0, 5).map((note, i) => (
+                        <span key={i} className="text-xs bg-slate-800 text-slate-400 px-1.5 py-0.5 rounded border border-slate-700">
+                          {displayNote(note, naming, preset.data.root)}
+                        </span>
+                      ))}
+                      {preset.data.notes.length > 5 && (
+                        <span className="text-xs text-slate-600 px-1 py-0.5">+ {preset.data.notes.length - 5}</span>
+                      )}
+                    </div>
+                    {preset.notes && (
+                      <p className="text-xs text-slate-400 mb-3 line-clamp-2 whitespace-pre-line">{preset.notes}</p>
+                    )}
+                    {preset.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mb-3">
+                        {preset.tags.map(t => (
+                          <span key={t} className="text-[10px] px-1.5 py-0.5 rounded-full bg-purple-500/10 border border-purple-500/20 text-purple-300">
+                            {t}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    <div className="flex justify-between items-center text-xs text-slate-500">
+                      <span className="uppercase tracking-wider">{preset.data.category}</span>
+                      <div className="flex items-center gap-2">
+                        <span>{new Date(preset.timestamp).toLocaleDateString()}</span>
+                        <ExportMenu response={preset.data} compact naming={naming} />
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+
+      {(query || category || folder || tag) && visible.length < presets.length && (
+        <button
+          onClick={() => { setQuery(''); setCategory(''); setFolder(''); setTag(''); }}
+          className="flex items-center gap-1.5 text-xs text-slate-500 hover:text-white transition-colors"
+        >
+          <X className="w-3.5 h-3.5" />
+          Clear filters
+        </button>
+      )}
+    </section>
+  );
+};
+
+export default PresetLibrary;
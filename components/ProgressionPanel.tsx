@@ -0,0 +1,130 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Play, Square, Gauge } from 'lucide-react';
+import type { HarmonicFunction, ProgressionChord } from '../lib/types';
+import { chordAsResponse } from '../lib/harmony';
+import { buildVoicing } from '../lib/voicing';
+import { midiNumber, parseNote } from '../lib/theory';
+import { Playback, playSequence } from '../lib/playback';
+import { NoteNaming, displayChordSymbol } from '../lib/noteNames';
+
+interface ProgressionPanelProps {
+  progression: ProgressionChord[];
+  step: number;
+  onStepChange: (step: number) => void;
+  onSoundingChange?: (sounding: number[]) => void;
+  naming: NoteNaming;
+}
+
+export const FUNCTION_STYLES: Record<HarmonicFunction, string> = {
+  tonic: 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400',
+  subdominant: 'bg-amber-500/10 border-amber-500/30 text-amber-400',
+  dominant: 'bg-rose-500/10 border-rose-500/30 text-rose-400',
+};
+
+const BEATS_PER_CHORD = 4;
+
+const toMidi = (chord: ProgressionChord): number[] =>
+  buildVoicing(chordAsResponse(chord), 'close').flatMap(name => {
+    const note = parseNote(name);
+    return note ? [midiNumber(note)] : [];
+  });
+
+// Steps through a progression one chord at a time, or plays it through at a set tempo
+const ProgressionPanel: React.FC<ProgressionPanelProps> = ({ progression, step, onStepChange, onSoundingChange, naming }) => {
+  const [bpm, setBpm] = useState(90);
+  const [playing, setPlaying] = useState(false);
+  const playbackRef = useRef<Playback | null>(null);
+
+  const chords = useMemo(() => progression.map(toMidi), [progression]);
+
+  const stop = () => {
+    playbackRef.current?.stop();
+    playbackRef.current = null;
+    setPlaying(false);
+  };
+
+  // Stop when the progression changes or the panel goes away
+  useEffect(() => stop, [progression]);
+
+  const play = () => {
+    stop();
+    const playback = playSequence(chords, BEATS_PER_CHORD, { bpm, noteLength: 0.95, onSoundingChange, onStep: onStepChange });
+    playbackRef.current = playback;
+    setPlaying(true);
+    playback.done.then(() => {
+      if (playbackRef.current === playback) {
+        playbackRef.current = null;
+        setPlaying(false);
+      }
+    });
+  };
+
+  const go = (next: number) => {
+    stop();
+    onStepChange(Math.min(Math.max(next, 0), progression.length - 1));
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      <div className="flex flex-wrap justify-center gap-2">
+        {progression.map((chord, i) => (
+          <button
+            key={i}
+            onClick={() => go(i)}
+            className={`flex flex-col items-center gap-1 min-w-[4.5rem] px-3 py-2 rounded-xl border transition-all ${i === step ? 'bg-purple-600/20 border-purple-500 shadow-lg shadow-purple-900/30' : 'bg-slate-900/50 border-slate-800 hover:border-slate-600'}`}
+          >
+            <span className="text-xl font-serif font-bold text-white">{chord.numeral}</span>
+            <span className="text-sm font-medium text-purple-300">{displayChordSymbol(chord.symbol, naming)}</span>
+            <span className={`px-1.5 py-0.5 rounded border text-[9px] font-bold uppercase tracking-wider ${FUNCTION_STYLES[chord.function]}`}>
+              {chord.function}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-2 text-xs">
+        <div className="flex items-center bg-slate-900/80 rounded-lg border border-slate-800 p-1">
+          <button
+            onClick={() => go(step - 1)}
+            disabled={step <= 0}
+            className="p-1.5 rounded-md text-slate-400 hover:text-white disabled:opacity-40 transition-all"
+            title="Previous chord"
+          >
+            <ChevronLeft className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={playing ? stop : play}
+            className={`flex items-center gap-1.5 px-3 py-1 rounded-md font-medium transition-all ${playing ? 'bg-cyan-600 text-white' : 'text-slate-400 hover:text-white'}`}
+          >
+            {playing ? <Square className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+            {playing ? 'Stop' : 'Play'}
+          </button>
+          <button
+            onClick={() => go(step + 1)}
+            disabled={step >= progression.length - 1}
+            className="p-1.5 rounded-md text-slate-400 hover:text-white disabled:opacity-40 transition-all"
+            title="Next chord"
+          >
+            <ChevronRight className="w-3.5 h-3.5" />
+          </button>
+        </div>
+
+        <label className="flex items-center gap-2 bg-slate-900/80 rounded-lg border border-slate-800 px-3 py-1.5 text-slate-400" title="Tempo">
+          <Gauge className="w-3.5 h-3.5" />
+          <input
+            type="range"
+            min={40}
+            max={240}
+            step={5}
+            value={bpm}
+            onChange={(e) => setBpm(Number(e.target.value))}
+            className="w-20 accent-cyan-500"
+          />
+          <span className="font-mono w-14">{bpm} BPM</span>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default ProgressionPanel;
@@ -0,0 +1,352 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Check, ChevronDown, ChevronUp, GraduationCap, Play, RotateCcw, SkipForward, Volume2, X } from 'lucide-react';
+import type { Preset } from '../lib/presets';
+import { Playback, PlaybackPattern, playNotes } from '../lib/playback';
+import { formatSelection } from '../lib/reverseLookup';
+import {
+  QUIZ_CATEGORIES,
+  QUIZ_DIFFICULTIES,
+  QuizCategory,
+  QuizProgress,
+  QuizQuestion,
+  QuizSettings,
+  REVIEW_INTERVALS,
+  loadQuizProgress,
+  loadQuizSettings,
+  makeQuestion,
+  matchesNotes,
+  patternFor,
+  pickCard,
+  progressKey,
+  quizPool,
+  recordAnswer,
+  saveQuizProgress,
+  saveQuizSettings,
+} from '../lib/quiz';
+import { NoteNaming } from '../lib/noteNames';
+import Piano from './Piano';
+
+interface QuizPanelProps {
+  presets: Preset[];
+  heldKeys: number[]; // Keys held on a MIDI keyboard answer "play it" questions too
+  naming: NoteNaming;
+}
+
+interface QuizResult {
+  correct: boolean;
+  given: string;
+}
+
+const inputClass = 'bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1.5 text-sm text-slate-300 placeholder-slate-600 focus:outline-none focus:border-purple-500';
+
+const formatWait = (ms: number): string => {
+  if (ms <= 0) return 'due';
+  const minutes = Math.ceil(ms / 60000);
+  if (minutes < 60) return `in ${minutes}m`;
+  if (minutes < 24 * 60) return `in ${Math.ceil(minutes / 60)}h`;
+  return `in ${Math.ceil(minutes / (24 * 60))}d`;
+};
+
+// Ear training and keyboard drills, scheduled by spaced repetition
+const QuizPanel: React.FC<QuizPanelProps> = ({ presets, heldKeys, naming }) => {
+  const [open, setOpen] = useState(false);
+  const [settings, setSettings] = useState<QuizSettings>(loadQuizSettings);
+  const [progress, setProgress] = useState<QuizProgress>(loadQuizProgress);
+  const [question, setQuestion] = useState<QuizQuestion | null>(null);
+  const [result, setResult] = useState<QuizResult | null>(null);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [session, setSession] = useState({ asked: 0, correct: 0, streak: 0 });
+  const [sounding, setSounding] = useState<number[]>([]);
+  const [showProgress, setShowProgress] = useState(false);
+  const [confirmingReset, setConfirmingReset] = useState(false);
+  const playbackRef = useRef<Playback | null>(null);
+
+  const pool = useMemo(() => quizPool(settings, presets), [settings, presets]);
+  const now = Date.now();
+  const dueCount = pool.filter(card => (progress[progressKey(card, settings.direction)]?.due ?? 0) <= now).length;
+
+  const stop = () => {
+    playbackRef.current?.stop();
+    playbackRef.current = null;
+  };
+
+  useEffect(() => stop, []);
+
+  const play = (midi: number[], pattern: PlaybackPattern = question ? patternFor(question.response.category, settings.difficulty) : 'ascending') => {
+    stop();
+    playbackRef.current = playNotes(midi, pattern, { bpm: 100, noteLength: 0.9, onSoundingChange: setSounding });
+  };
+
+  const updateSettings = (patch: Partial<QuizSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveQuizSettings(next);
+    stop();
+    setQuestion(null);
+    setResult(null);
+  };
+
+  const toggleCategory = (category: QuizCategory) => {
+    const categories = settings.categories.includes(category)
+      ? settings.categories.filter(c => c !== category)
+      : [...settings.categories, category];
+    if (categories.length > 0) updateSettings({ categories });
+  };
+
+  const nextQuestion = () => {
+    const card = pickCard(pool, progress, settings.direction, question?.card.key);
+    const next = card && makeQuestion(card, pool, settings, presets);
+    setQuestion(next);
+    setResult(null);
+    setSelected([]);
+    stop();
+    if (next && settings.direction === 'identify' && settings.prompt === 'hear') {
+      play(next.midi, patternFor(next.response.category, settings.difficulty));
+    }
+  };
+
+  const answer = (correct: boolean, given: string) => {
+    if (!question || result) return;
+    const updated = recordAnswer(progress, progressKey(question.card, settings.direction), correct);
+    setProgress(updated);
+    saveQuizProgress(updated);
+    setResult({ correct, given });
+    setSession(s => ({ asked: s.asked + 1, correct: s.correct + (correct ? 1 : 0), streak: correct ? s.streak + 1 : 0 }));
+  };
+
+  const played = useMemo(() => [...new Set([...selected, ...heldKeys])].sort((a, b) => a - b), [selected, heldKeys]);
+
+  // Holding the right notes on a MIDI keyboard answers straight away
+  useEffect(() => {
+    if (settings.direction === 'play' && question && !result && heldKeys.length > 0 && matchesNotes(heldKeys, question.response)) {
+      answer(true, formatSelection({ pitches: heldKeys, spellings: new Map() }).join(' '));
+    }
+  }, [heldKeys]);
+
+  const toggleKey = (midi: number) => {
+    if (result) return;
+    setSelected(keys => (keys.includes(midi) ? keys.filter(k => k !== midi) : [...keys, midi]));
+    play([midi], 'ascending');
+  };
+
+  const checkPlayed = () => {
+    if (!question) return;
+    answer(matchesNotes(played, question.response), formatSelection({ pitches: played, spellings: new Map() }).join(' ') || 'nothing');
+  };
+
+  const resetProgress = () => {
+    setProgress({});
+    saveQuizProgress({});
+    setConfirmingReset(false);
+  };
+
+  const revealed = !!result || (settings.direction === 'identify' && settings.prompt === 'see');
+  const answerName = question ? `${question.response.root} ${question.response.type}` : '';
+
+  return (
+    <section className="border-t border-slate-800/50 pt-8 space-y-4">
+      <button onClick={() => setOpen(!open)} className="flex items-center gap-2 group">
+        <GraduationCap className="w-5 h-5 text-purple-400" />
+        <h3 className="text-xl font-bold text-white">Practice</h3>
+        <span className="text-sm text-slate-500">{dueCount} due</span>
+        {open ? <ChevronUp className="w-4 h-4 text-slate-500 group-hover:text-white" /> : <ChevronDown className="w-4 h-4 text-slate-500 group-hover:text-white" />}
+      </button>
+
+      {open && (
+        <div className="space-y-5">
+          {/* Settings */}
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <div className="flex items-center bg-slate-900/80 rounded-lg border border-slate-800 p-1">
+              {([['identify', 'Name it'], ['play', 'Play it']] as const).map(([direction, label]) => (
+                <button
+                  key={direction}
+                  onClick={() => updateSettings({ direction })}
+                  className={`px-3 py-1 rounded-md font-medium transition-all ${settings.direction === direction ? 'bg-purple-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {settings.direction === 'identify' && (
+              <div className="flex items-center bg-slate-900/80 rounded-lg border border-slate-800 p-1">
+                {([['hear', 'By ear'], ['see', 'On the keys']] as const).map(([prompt, label]) => (
+                  <button
+                    key={prompt}
+                    onClick={() => updateSettings({ prompt })}
+                    className={`px-3 py-1 rounded-md font-medium transition-all ${settings.prompt === prompt ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+            <select
+              value={settings.difficulty}
+              onChange={(e) => updateSettings({ difficulty: e.target.value as QuizSettings['difficulty'] })}
+              className={`${inputClass} capitalize`}
+              title="Difficulty"
+            >
+              {QUIZ_DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+            </select>
+            {QUIZ_CATEGORIES.map(({ id, label }) => (
+              <button
+                key={id}
+                onClick={() => toggleCategory(id)}
+                className={`px-2.5 py-1 rounded-full border transition-colors ${settings.categories.includes(id) ? 'bg-purple-500/20 border-purple-500/40 text-purple-200' : 'border-slate-800 text-slate-500 hover:text-slate-300'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {/* Question */}
+          <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-6 space-y-5">
+            <div className="flex items-center justify-between text-xs text-slate-500">
+              <span>
+                Score <span className="text-slate-300 font-semibold">{session.correct}/{session.asked}</span>
+                {session.streak > 1 && <span className="ml-3 text-emerald-400">{session.streak} in a row</span>}
+              </span>
+              <span>{pool.length} card{pool.length === 1 ? '' : 's'} in the pool</span>
+            </div>
+
+            {pool.length === 0 ? (
+              <p className="text-sm text-slate-500">Your library is empty. Save some results or pick another category.</p>
+            ) : !question ? (
+              <div className="flex justify-center">
+                <button onClick={nextQuestion} className="flex items-center gap-2 px-5 py-2.5 rounded-xl bg-purple-600 hover:bg-purple-500 text-white font-medium transition-colors">
+                  <Play className="w-4 h-4" />
+                  Start
+                </button>
+              </div>
+            ) : (
+              <>
+                <div className="text-center space-y-2">
+                  {settings.direction === 'play' ? (
+                    <p className="text-lg text-slate-200">Play <span className="font-bold text-white">{question.prompt}</span></p>
+                  ) : (
+                    <p className="text-lg text-slate-200">
+                      {settings.prompt === 'hear' ? 'What do you hear?' : 'What is shown on the keys?'}
+                    </p>
+                  )}
+                  {settings.direction === 'identify' && settings.prompt === 'hear' && (
+                    <button onClick={() => play(question.midi)} className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-800/50 text-sm text-slate-300 hover:text-white transition-colors">
+                      <Volume2 className="w-4 h-4" />
+                      Play again
+                    </button>
+                  )}
+                </div>
+
+                {(revealed || settings.direction === 'play') && (
+                  <div className="flex justify-center overflow-x-auto pb-2">
+                    {settings.direction === 'play' && !result ? (
+                      <Piano activeNotes={[]} voicing={formatSelection({ pitches: played, spellings: new Map() })} onKeyClick={toggleKey} naming={naming} />
+                    ) : (
+                      <Piano
+                        activeNotes={question.response.notes}
+                        rootNote={result || settings.difficulty === 'beginner' ? question.response.root : undefined}
+                        voicing={question.voicing}
+                        soundingKeys={sounding}
+                        naming={naming}
+                      />
+                    )}
+                  </div>
+                )}
+
+                {settings.direction === 'identify' ? (
+                  <div className="flex flex-wrap justify-center gap-2">
+                    {question.choices.map(choice => {
+                      const isAnswer = choice === question.card.name;
+                      const state = !result ? '' : isAnswer ? 'bg-emerald-500/20 border-emerald-500/50 text-emerald-200' : choice === result.given ? 'bg-red-500/20 border-red-500/50 text-red-200' : 'opacity-50';
+                      return (
+                        <button
+                          key={choice}
+                          onClick={() => answer(isAnswer, choice)}
+                          disabled={!!result}
+                          className={`px-4 py-2 rounded-lg border text-sm font-medium transition-colors ${state || 'bg-slate-900/80 border-slate-800 text-slate-300 hover:border-purple-500/50 hover:text-white'}`}
+                        >
+                          {choice}
+                        </button>
+                      );
+                    })}
+                  </div>
+                ) : !result && (
+                  <div className="flex justify-center gap-2">
+                    <button onClick={() => setSelected([])} disabled={selected.length === 0} className="px-3 py-2 rounded-lg bg-slate-800/50 text-sm text-slate-400 hover:text-white transition-colors disabled:opacity-40">
+                      Clear
+                    </button>
+                    <button onClick={checkPlayed} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-500 text-sm text-white font-medium transition-colors">
+                      <Check className="w-4 h-4" />
+                      Check
+                    </button>
+                  </div>
+                )}
+
+                {result && (
+                  <div className="flex flex-wrap items-center justify-center gap-3">
+                    <span className={`flex items-center gap-1.5 text-sm font-medium ${result.correct ? 'text-emerald-400' : 'text-red-400'}`}>
+                      {result.correct ? <Check className="w-4 h-4" /> : <X className="w-4 h-4" />}
+                      {result.correct ? 'Correct' : settings.direction === 'play' ? `You played ${result.given}` : 'Not quite'}
+                      <span className="text-slate-400 font-normal">— {answerName}: {question.response.notes.join(' ')}</span>
+                    </span>
+                    <button onClick={() => play(question.midi)} className="p-2 rounded-lg bg-slate-800/50 text-slate-400 hover:text-white transition-colors" title="Hear it">
+                      <Volume2 className="w-4 h-4" />
+                    </button>
+                    <button onClick={nextQuestion} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-500 text-sm text-white font-medium transition-colors">
+                      <SkipForward className="w-4 h-4" />
+                      Next
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          {/* Progress */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-3 text-xs">
+              <button onClick={() => setShowProgress(!showProgress)} className="flex items-center gap-1 text-slate-400 hover:text-white">
+                {showProgress ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+                Progress by card
+              </button>
+              {confirmingReset ? (
+                <span className="flex items-center gap-2 text-slate-400">
+                  Forget all progress?
+                  <button onClick={resetProgress} className="text-red-400 hover:text-red-300 font-medium">Reset</button>
+                  <button onClick={() => setConfirmingReset(false)} className="hover:text-white">Cancel</button>
+                </span>
+              ) : (
+                <button onClick={() => setConfirmingReset(true)} className="flex items-center gap-1 text-slate-500 hover:text-red-400">
+                  <RotateCcw className="w-3.5 h-3.5" />
+                  Reset
+                </button>
+              )}
+            </div>
+            {showProgress && (
+              <div className="grid sm:grid-cols-2 gap-x-6 gap-y-1">
+                {pool.map(card => {
+                  const record = progress[progressKey(card, settings.direction)];
+                  return (
+                    <div key={card.key} className="flex items-center justify-between gap-3 text-xs py-1 border-b border-slate-800/50">
+                      <span className="text-slate-300 truncate">{card.name}</span>
+                      {record ? (
+                        <span className="flex items-center gap-3 font-mono text-slate-500 shrink-0">
+                          <span title="Correct / attempts">{record.correct}/{record.attempts}</span>
+                          <span title="Review box">box {record.box + 1}/{REVIEW_INTERVALS.length}</span>
+                          <span className="w-12 text-right">{formatWait(record.due - now)}</span>
+                        </span>
+                      ) : (
+                        <span className="text-slate-600">new</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default QuizPanel;
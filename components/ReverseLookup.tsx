@@ -0,0 +1,160 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, Eraser, ScanSearch } from 'lucide-react';
+import type { MusicTheoryResponse } from '../lib/types';
+import { SpelledNote, mod12 } from '../lib/theory';
+import { identifyChords, identifyScales } from '../lib/recognition';
+import { NoteSelection, chordMatchResponse, formatSelection, parseNoteList, scaleMatchResponse } from '../lib/reverseLookup';
+import { NoteNaming, displayChordSymbol, formatNoteName } from '../lib/noteNames';
+import Piano from './Piano';
+
+interface ReverseLookupProps {
+  onSelect: (response: MusicTheoryResponse, name: string) => void;
+  naming: NoteNaming;
+}
+
+const SCALES_SHOWN = 12;
+const EMPTY_SELECTION: NoteSelection = { pitches: [], spellings: new Map() };
+
+// Notes -> names: click keys or type notes to see every chord and scale that fits
+const ReverseLookup: React.FC<ReverseLookupProps> = ({ onSelect, naming }) => {
+  const [open, setOpen] = useState(false);
+  const [selection, setSelection] = useState<NoteSelection>(EMPTY_SELECTION);
+  const [text, setText] = useState('');
+  const [textInvalid, setTextInvalid] = useState(false);
+  const [showAllScales, setShowAllScales] = useState(false);
+
+  const chords = useMemo(() => identifyChords(selection.pitches, undefined, selection.spellings), [selection]);
+  const scales = useMemo(() => identifyScales(selection.pitches, undefined, selection.spellings), [selection]);
+  const voiced = useMemo(() => formatSelection(selection), [selection]);
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    if (!value.trim()) {
+      setSelection(EMPTY_SELECTION);
+      setTextInvalid(false);
+      return;
+    }
+    const parsed = parseNoteList(value, naming);
+    setTextInvalid(!parsed);
+    if (parsed) setSelection(parsed);
+  };
+
+  const toggleKey = (midi: number) => {
+    const pitches = selection.pitches.includes(midi)
+      ? selection.pitches.filter(p => p !== midi)
+      : [...selection.pitches, midi].sort((a, b) => a - b);
+    // Keep the typed spelling of any pitch class that's still selected
+    const spellings = new Map<number, SpelledNote>();
+    selection.spellings.forEach((note, pc) => {
+      if (pitches.some(p => mod12(p) === pc)) spellings.set(pc, note);
+    });
+    const next: NoteSelection = { pitches, spellings };
+    setSelection(next);
+    setText(formatSelection(next).join(' '));
+    setTextInvalid(false);
+  };
+
+  const clear = () => {
+    setSelection(EMPTY_SELECTION);
+    setText('');
+    setTextInvalid(false);
+  };
+
+  return (
+    <section className="border-t border-slate-800/50 pt-8 space-y-4">
+      <button onClick={() => setOpen(!open)} className="flex items-center gap-2 group">
+        <ScanSearch className="w-5 h-5 text-purple-400" />
+        <h3 className="text-xl font-bold text-white">Find by Notes</h3>
+        {open ? <ChevronUp className="w-4 h-4 text-slate-500 group-hover:text-white" /> : <ChevronDown className="w-4 h-4 text-slate-500 group-hover:text-white" />}
+      </button>
+
+      {open && (
+        <div className="space-y-5">
+          <div className="flex items-center gap-2">
+            <input
+              value={text}
+              onChange={(e) => handleTextChange(e.target.value)}
+              placeholder='Type notes, e.g. "C E G Bb D", or click keys below'
+              className={`flex-1 bg-slate-900/80 border rounded-lg px-3 py-2 text-sm text-slate-200 placeholder-slate-600 focus:outline-none ${textInvalid ? 'border-red-500/50' : 'border-slate-800 focus:border-purple-500'}`}
+            />
+            <button
+              onClick={clear}
+              disabled={selection.pitches.length === 0 && !text}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-800/50 text-sm text-slate-400 hover:text-white transition-colors disabled:opacity-40 disabled:pointer-events-none"
+            >
+              <Eraser className="w-4 h-4" />
+              Clear
+            </button>
+          </div>
+
+          <div className="flex justify-center overflow-x-auto pb-2">
+            <Piano
+              activeNotes={[]}
+              rootNote={chords[0]?.root}
+              voicing={voiced}
+              onKeyClick={toggleKey}
+              naming={naming}
+            />
+          </div>
+
+          {selection.pitches.length > 0 && (
+            <div className="grid md:grid-cols-2 gap-6">
+              <div>
+                <h4 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">Chords</h4>
+                {chords.length === 0 ? (
+                  <p className="text-sm text-slate-500">{selection.pitches.length < 2 ? 'Pick at least two notes.' : 'No chord matches these notes.'}</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {chords.map(match => (
+                      <button
+                        key={match.name}
+                        onClick={() => onSelect(chordMatchResponse(match, selection.pitches), match.name)}
+                        className="px-3 py-1.5 rounded-lg border bg-slate-900/50 border-slate-800 hover:border-purple-500/50 text-left transition-colors"
+                        title={match.formula.name}
+                      >
+                        <div className="text-sm font-bold text-white">{displayChordSymbol(match.name, naming)}</div>
+                        <div className="text-[10px] text-slate-500">
+                          {[match.inversion > 0 ? `inversion ${match.inversion}` : 'root position', match.omitted.length > 0 ? 'no 5th' : '']
+                            .filter(Boolean).join(' · ')}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <h4 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">Scales & Modes</h4>
+                {scales.length === 0 ? (
+                  <p className="text-sm text-slate-500">No scale contains all of these notes.</p>
+                ) : (
+                  <div className="space-y-1">
+                    {(showAllScales ? scales : scales.slice(0, SCALES_SHOWN)).map(match => (
+                      <button
+                        key={match.name}
+                        onClick={() => onSelect(scaleMatchResponse(match), match.name)}
+                        className="w-full flex items-center justify-between gap-3 px-3 py-1.5 rounded-lg hover:bg-slate-900/80 text-left transition-colors"
+                      >
+                        <span className={`text-sm ${match.rootPlayed ? 'text-slate-200' : 'text-slate-400'}`}>{formatNoteName(match.root, naming)} {match.formula.name}</span>
+                        <span className="text-[10px] font-mono text-slate-500">
+                          {match.missing === 0 ? 'exact' : `+${match.missing} note${match.missing === 1 ? '' : 's'}`}
+                        </span>
+                      </button>
+                    ))}
+                    {scales.length > SCALES_SHOWN && (
+                      <button onClick={() => setShowAllScales(!showAllScales)} className="px-3 py-1 text-xs text-purple-400 hover:text-purple-300">
+                        {showAllScales ? 'Show fewer' : `Show all ${scales.length}`}
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ReverseLookup;
@@ -0,0 +1,132 @@
+import React, { useMemo } from 'react';
+import type { KeySignature } from '../lib/types';
+import { Clef, STAFF_LINES, layoutStaff } from '../lib/notation';
+import { parseNote, pitchClass } from '../lib/theory';
+
+interface StaffProps {
+  notes: string[];             // Octave-specific pitches ("C4"); bare names are stacked from middle C
+  keySignature?: KeySignature;
+  chord?: boolean;             // Stack the notes in one column instead of reading left to right
+  rootNote?: string;
+}
+
+const STEP = 5; // Half the gap between staff lines
+const TREBLE_TOP = 40;
+const BASS_TOP = TREBLE_TOP + 70;
+const HEIGHT = BASS_TOP + 8 * STEP + 40;
+
+const CLEF_X = 16;
+const SIGNATURE_X = 52;
+const SIGNATURE_SPACING = 9;
+const COLUMN_WIDTH = 34;
+const ACCIDENTAL_WIDTH = 10;
+
+const BACKGROUND = '#0f172a'; // slate-900, shows through the whole-note holes
+const LINE_COLOR = '#64748b'; // slate-500
+const NOTE_COLOR = '#e2e8f0'; // slate-200
+const ROOT_COLOR = '#a78bfa'; // violet-400
+
+const ACCIDENTAL_GLYPHS: Record<number, string> = { [-2]: '𝄫', [-1]: '♭', 0: '♮', 1: '♯', 2: '𝄪' };
+
+const stepY = (clef: Clef, step: number) =>
+  (clef === 'treble' ? TREBLE_TOP : BASS_TOP) + (STAFF_LINES[clef].top - step) * STEP;
+
+// Short lines through (or under/over) notes that sit off the staff
+const ledgerSteps = (clef: Clef, step: number): number[] => {
+  const { top, bottom } = STAFF_LINES[clef];
+  const steps: number[] = [];
+  for (let s = top + 2; s <= step; s += 2) steps.push(s);
+  for (let s = bottom - 2; s >= step; s -= 2) steps.push(s);
+  return steps;
+};
+
+const Accidental: React.FC<{ x: number; y: number; value: number; color: string }> = ({ x, y, value, color }) => (
+  <text
+    x={x}
+    y={value < 0 ? y - 3 : y}
+    fontSize="16"
+    textAnchor="middle"
+    dominantBaseline="central"
+    fill={color}
+    style={{ userSelect: 'none' }}
+  >
+    {ACCIDENTAL_GLYPHS[value]}
+  </text>
+);
+
+const WholeNote: React.FC<{ x: number; y: number; color: string }> = ({ x, y, color }) => (
+  <g>
+    <ellipse cx={x} cy={y} rx={6.5} ry={4.6} fill={color} />
+    <ellipse cx={x} cy={y} rx={3.4} ry={2.2} fill={BACKGROUND} transform={`rotate(-40 ${x} ${y})`} />
+  </g>
+);
+
+// Grand staff with the key signature in its conventional positions and the notes
+// as whole notes. Accidentals appear only where the signature (or an earlier note
+// in the bar) doesn't already give the right pitch.
+const Staff: React.FC<StaffProps> = ({ notes, keySignature, chord = false, rootNote }) => {
+  const layout = useMemo(() => layoutStaff(notes, keySignature, chord), [notes, keySignature, chord]);
+  const rootPitchClass = useMemo(() => {
+    const root = rootNote ? parseNote(rootNote) : null;
+    return root ? pitchClass(root) : null;
+  }, [rootNote]);
+
+  const signatureWidth = (layout.keySignature.length / 2) * SIGNATURE_SPACING;
+  const maxAccidentalColumns = Math.max(0, ...layout.notes.filter(n => n.accidental !== null).map(n => n.accidentalColumn + 1));
+  const notesX = SIGNATURE_X + signatureWidth + 14 + maxAccidentalColumns * ACCIDENTAL_WIDTH;
+  const width = Math.max(notesX + Math.max(layout.columns, 1) * COLUMN_WIDTH + 12, 160);
+
+  const lines = (['treble', 'bass'] as Clef[]).flatMap(clef =>
+    [0, 1, 2, 3, 4].map(i => {
+      const y = stepY(clef, STAFF_LINES[clef].bottom + i * 2);
+      return <line key={`${clef}-${i}`} x1={8} x2={width - 4} y1={y} y2={y} stroke={LINE_COLOR} strokeWidth={1} />;
+    })
+  );
+
+  return (
+    <div className="relative inline-block p-4 bg-slate-900 rounded-xl shadow-2xl border border-slate-800">
+      <svg width={width} height={HEIGHT} className="block overflow-visible" role="img" aria-label={`Staff: ${notes.join(' ')}`}>
+        {lines}
+
+        {/* System line and closing bar line */}
+        <line x1={8} x2={8} y1={stepY('treble', STAFF_LINES.treble.top)} y2={stepY('bass', STAFF_LINES.bass.bottom)} stroke={LINE_COLOR} strokeWidth={1.5} />
+        <line x1={width - 4} x2={width - 4} y1={stepY('treble', STAFF_LINES.treble.top)} y2={stepY('bass', STAFF_LINES.bass.bottom)} stroke={LINE_COLOR} strokeWidth={1} />
+
+        {/* Clefs: the treble curls round G4, the bass dots sit either side of F3 */}
+        <text x={CLEF_X} y={stepY('treble', 32) + 12} fontSize="46" fill={NOTE_COLOR} style={{ userSelect: 'none' }}>𝄞</text>
+        <text x={CLEF_X} y={stepY('bass', 24) + 14} fontSize="36" fill={NOTE_COLOR} style={{ userSelect: 'none' }}>𝄢</text>
+
+        {layout.keySignature.map((symbol, i) => (
+          <Accidental
+            key={`sig-${i}`}
+            x={SIGNATURE_X + (i % (layout.keySignature.length / 2)) * SIGNATURE_SPACING}
+            y={stepY(symbol.clef, symbol.step)}
+            value={symbol.accidental}
+            color={NOTE_COLOR}
+          />
+        ))}
+
+        {layout.notes.map((note, i) => {
+          const x = notesX + note.column * COLUMN_WIDTH + COLUMN_WIDTH / 2;
+          const noteX = note.shifted ? x + 13 : x;
+          const y = stepY(note.clef, note.step);
+          const parsed = parseNote(note.name);
+          const color = parsed && pitchClass(parsed) === rootPitchClass ? ROOT_COLOR : NOTE_COLOR;
+          return (
+            <g key={`note-${i}`}>
+              {ledgerSteps(note.clef, note.step).map(step => (
+                <line key={step} x1={noteX - 10} x2={noteX + 10} y1={stepY(note.clef, step)} y2={stepY(note.clef, step)} stroke={LINE_COLOR} strokeWidth={1} />
+              ))}
+              {note.accidental !== null && (
+                <Accidental x={x - 14 - note.accidentalColumn * ACCIDENTAL_WIDTH} y={y} value={note.accidental} color={color} />
+              )}
+              <WholeNote x={noteX} y={y} color={color} />
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
+
+export default Staff;
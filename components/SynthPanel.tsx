@@ -0,0 +1,274 @@
+import React, { useEffect, useState } from 'react';
+import { Activity, Piano as PianoIcon, SlidersHorizontal, Volume2, Save, Trash2, Loader2 } from 'lucide-react';
+import { audioEngine } from '../lib/audio';
+import {
+  FACTORY_PRESETS,
+  PIANO_SAMPLES,
+  SoundSource,
+  SynthPatch,
+  SynthPreset,
+  deleteUserPreset,
+  loadUserPresets,
+  pianoSamplesAvailable,
+  saveCurrentPatch,
+  saveUserPreset,
+} from '../lib/synthPresets';
+
+type SampleStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+interface ParamSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+const ParamSlider: React.FC<ParamSliderProps> = ({ label, value, min, max, step, format, onChange }) => (
+  <label className="flex flex-col gap-1 text-slate-400">
+    <span className="flex justify-between text-[10px] font-bold uppercase tracking-wider">
+      {label}
+      <span className="font-mono normal-case text-slate-300">{format(value)}</span>
+    </span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="accent-indigo-500"
+    />
+  </label>
+);
+
+const WAVEFORMS: { type: OscillatorType; symbol: string }[] = [
+  { type: 'triangle', symbol: '▲' },
+  { type: 'sine', symbol: '~' },
+  { type: 'square', symbol: '■' },
+  { type: 'sawtooth', symbol: 'vf' },
+];
+
+const SOURCES = [['synth', 'Synth', Activity], ['piano', 'Piano', PianoIcon]] as const;
+
+const seconds = (value: number) => (value < 1 ? `${Math.round(value * 1000)}ms` : `${value.toFixed(1)}s`);
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// The cutoff slider runs 0-1 on a log scale from 20Hz to 20kHz
+const cutoffFromSlider = (value: number) => Math.round(20 * Math.pow(1000, value));
+const sliderFromCutoff = (hz: number) => Math.log(hz / 20) / Math.log(1000);
+const hertz = (hz: number) => (hz >= 1000 ? `${(hz / 1000).toFixed(1)}k` : `${hz}`);
+
+// Sound settings for the shared synth: source, presets, envelope, filter, unison and volume
+const SynthPanel: React.FC = () => {
+  const [patch, setPatch] = useState<SynthPatch>(audioEngine.getPatch);
+  const [presetName, setPresetName] = useState('');
+  const [userPresets, setUserPresets] = useState<SynthPreset[]>(loadUserPresets);
+  const [expanded, setExpanded] = useState(false);
+  const [saveName, setSaveName] = useState('');
+  const [sampleStatus, setSampleStatus] = useState<SampleStatus>(audioEngine.hasSamples() ? 'ready' : 'idle');
+  const [pianoAvailable, setPianoAvailable] = useState(audioEngine.hasSamples());
+
+  // Until the samples are loaded a piano patch still plays on the oscillators
+  const playingSource: SoundSource = patch.source === 'piano' && sampleStatus === 'ready' ? 'piano' : 'synth';
+  const offered = (presets: SynthPreset[]) => (pianoAvailable ? presets : presets.filter(p => p.patch.source !== 'piano'));
+
+  const apply = (next: SynthPatch) => {
+    audioEngine.setPatch(next);
+    saveCurrentPatch(next);
+    setPatch(next);
+  };
+
+  const update = (changes: Partial<SynthPatch>) => {
+    apply({ ...patch, ...changes });
+    setPresetName('');
+  };
+
+  // Piano samples load when Piano is picked, so the AudioContext still waits for a click
+  const ensureSamples = async (): Promise<boolean> => {
+    if (audioEngine.hasSamples()) return true;
+    setSampleStatus('loading');
+    const loaded = await audioEngine.loadSamples(PIANO_SAMPLES);
+    setSampleStatus(loaded > 0 ? 'ready' : 'error');
+    return loaded > 0;
+  };
+
+  useEffect(() => {
+    if (audioEngine.hasSamples()) return;
+    let active = true;
+    pianoSamplesAvailable().then(available => {
+      if (active) setPianoAvailable(available);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const selectSource = async (source: SoundSource) => {
+    if (source === 'piano' && !(await ensureSamples())) return;
+    update({ source });
+  };
+
+  const selectPreset = async (name: string) => {
+    const preset = [...FACTORY_PRESETS, ...userPresets].find(p => p.name === name);
+    if (!preset) return;
+    if (preset.patch.source === 'piano' && !(await ensureSamples())) return;
+    apply(preset.patch);
+    setPresetName(name);
+  };
+
+  const handleSavePreset = () => {
+    const name = saveName.trim();
+    if (!name || FACTORY_PRESETS.some(p => p.name === name)) return;
+    setUserPresets(saveUserPreset(name, patch));
+    setPresetName(name);
+    setSaveName('');
+  };
+
+  const handleDeletePreset = () => {
+    setUserPresets(deleteUserPreset(presetName));
+    setPresetName('');
+  };
+
+  const isUserPreset = userPresets.some(p => p.name === presetName);
+
+  return (
+    <div className="flex flex-col gap-3 text-xs w-full">
+      <div className="flex flex-wrap items-center gap-2">
+        {/* Source */}
+        <div className="flex items-center bg-slate-950 rounded-lg border border-slate-800 p-1">
+          {SOURCES.filter(([source]) => source === 'synth' || pianoAvailable).map(([source, label, Icon]) => (
+            <button
+              key={source}
+              onClick={() => selectSource(source)}
+              disabled={sampleStatus === 'loading'}
+              className={`flex items-center gap-1.5 px-2.5 py-1 rounded-md font-medium transition-all ${playingSource === source ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+            >
+              {source === 'piano' && sampleStatus === 'loading' ? <Loader2 className="w-3 h-3 animate-spin" /> : <Icon className="w-3 h-3" />}
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {/* Presets */}
+        <select
+          value={presetName}
+          onChange={(e) => selectPreset(e.target.value)}
+          className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-slate-300 focus:outline-none focus:border-indigo-500"
+          title="Sound preset"
+        >
+          <option value="">Custom</option>
+          <optgroup label="Factory">
+            {offered(FACTORY_PRESETS).map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+          </optgroup>
+          {offered(userPresets).length > 0 && (
+            <optgroup label="Saved">
+              {offered(userPresets).map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+
+        {/* Master volume */}
+        <label className="flex items-center gap-2 bg-slate-950 rounded-lg border border-slate-800 px-2 py-1.5 text-slate-400" title="Master volume">
+          <Volume2 className="w-3.5 h-3.5" />
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={patch.volume}
+            onChange={(e) => update({ volume: Number(e.target.value) })}
+            className="w-16 accent-indigo-500"
+          />
+        </label>
+
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className={`p-1.5 rounded-lg border transition-all ${expanded ? 'bg-slate-800 border-slate-600 text-white' : 'bg-slate-950 border-slate-800 text-slate-400 hover:text-white'}`}
+          title="Sound settings"
+        >
+          <SlidersHorizontal className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {sampleStatus === 'error' && (
+        <p className="text-amber-400">No piano samples found in /samples/piano, staying on the synth.</p>
+      )}
+
+      {expanded && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-x-4 gap-y-3 p-3 bg-slate-950 rounded-lg border border-slate-800">
+          {playingSource === 'synth' && (
+            <div className="col-span-2 sm:col-span-4 flex items-center gap-1">
+              <span className="text-[10px] font-bold uppercase tracking-wider text-slate-500 mr-1">Wave</span>
+              {WAVEFORMS.map(({ type, symbol }) => (
+                <button
+                  key={type}
+                  onClick={() => update({ waveform: type })}
+                  className={`p-1.5 rounded-md transition-all ${patch.waveform === type ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+                  title={type}
+                >
+                  <span className="font-sans">{symbol}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          <ParamSlider label="Attack" value={patch.attack} min={0.002} max={2} step={0.001} format={seconds} onChange={attack => update({ attack })} />
+          <ParamSlider label="Decay" value={patch.decay} min={0} max={3} step={0.01} format={seconds} onChange={decay => update({ decay })} />
+          <ParamSlider label="Sustain" value={patch.sustain} min={0} max={1} step={0.01} format={percent} onChange={sustain => update({ sustain })} />
+          <ParamSlider label="Release" value={patch.release} min={0.01} max={4} step={0.01} format={seconds} onChange={release => update({ release })} />
+
+          <ParamSlider
+            label="Cutoff"
+            value={sliderFromCutoff(patch.filterCutoff)}
+            min={0}
+            max={1}
+            step={0.001}
+            format={v => `${hertz(cutoffFromSlider(v))}Hz`}
+            onChange={v => update({ filterCutoff: cutoffFromSlider(v) })}
+          />
+          <ParamSlider label="Resonance" value={patch.filterResonance} min={0.1} max={15} step={0.1} format={v => v.toFixed(1)} onChange={filterResonance => update({ filterResonance })} />
+          {playingSource === 'synth' && (
+            <>
+              <ParamSlider label="Unison" value={patch.unison} min={1} max={7} step={1} format={String} onChange={unison => update({ unison })} />
+              <ParamSlider label="Detune" value={patch.detune} min={0} max={50} step={1} format={v => `${v}¢`} onChange={detune => update({ detune })} />
+            </>
+          )}
+          <ParamSlider label="Polyphony" value={patch.polyphony} min={1} max={32} step={1} format={String} onChange={polyphony => update({ polyphony })} />
+
+          <div className="col-span-2 sm:col-span-4 flex items-center gap-2 pt-2 border-t border-slate-800">
+            <input
+              type="text"
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+              placeholder="Preset name"
+              className="flex-1 min-w-0 bg-slate-900 border border-slate-800 rounded-md px-2 py-1 text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-indigo-500"
+            />
+            <button
+              onClick={handleSavePreset}
+              disabled={!saveName.trim()}
+              className="flex items-center gap-1 px-2 py-1 rounded-md bg-indigo-600 hover:bg-indigo-500 text-white font-medium disabled:opacity-40"
+            >
+              <Save className="w-3 h-3" />
+              Save
+            </button>
+            {isUserPreset && (
+              <button
+                onClick={handleDeletePreset}
+                className="p-1.5 rounded-md text-slate-400 hover:text-red-400 hover:bg-red-500/10"
+                title={`Delete "${presetName}"`}
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SynthPanel;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Minus, Plus } from 'lucide-react';
+import type { MusicTheoryResponse } from '../lib/types';
+import { parseNote } from '../lib/theory';
+import { TRANSPOSE_KEYS, transposeBySemitones, transposeTo } from '../lib/transpose';
+import { NoteNaming, displayNote } from '../lib/noteNames';
+
+interface TransposeControlsProps {
+  response: MusicTheoryResponse;
+  onTranspose: (transposed: MusicTheoryResponse) => void;
+  naming: NoteNaming;
+}
+
+// Semitone steps plus a "to key" picker; everything is recomputed locally
+const TransposeControls: React.FC<TransposeControlsProps> = ({ response, onTranspose, naming }) => {
+  const canTranspose = parseNote(response.root) !== null;
+
+  const step = (semitones: number) => {
+    const result = transposeBySemitones(response, semitones);
+    if (result) onTranspose(result);
+  };
+
+  const toKey = (name: string) => {
+    const root = parseNote(name);
+    const result = root && transposeTo(response, root);
+    if (result) onTranspose(result);
+  };
+
+  if (!canTranspose) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <span className="font-semibold text-slate-500 uppercase tracking-wider">Transpose</span>
+      <div className="flex items-center bg-slate-900/80 rounded-lg border border-slate-800 p-1">
+        <button onClick={() => step(-1)} className="p-1.5 rounded-md text-slate-400 hover:text-white transition-all" title="Down a semitone">
+          <Minus className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={() => step(1)} className="p-1.5 rounded-md text-slate-400 hover:text-white transition-all" title="Up a semitone">
+          <Plus className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <select
+        value={TRANSPOSE_KEYS.includes(response.root) ? response.root : ''}
+        onChange={(e) => toKey(e.target.value)}
+        className="bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1.5 text-slate-300 focus:outline-none focus:border-purple-500"
+        title="Transpose to key"
+      >
+        {!TRANSPOSE_KEYS.includes(response.root) && <option value="">{displayNote(response.root, naming)}</option>}
+        {TRANSPOSE_KEYS.map(key => <option key={key} value={key}>{displayNote(key, naming)}</option>)}
+      </select>
+    </div>
+  );
+};
+
+export default TransposeControls;
@@ -0,0 +1,209 @@
+import { DEFAULT_PATCH, SampleSource, SynthPatch, loadCurrentPatch } from './synthPresets';
+
+// Polyphonic Web Audio synth shared by every keyboard in the app. Each note is a
+// voice (unison oscillators or a pitched piano sample) through a low-pass filter
+// and an ADSR envelope, into a master volume and limiter. The AudioContext is
+// created on the first note so none exists before a user gesture.
+
+export interface NoteOptions {
+  velocity?: number; // 0-1
+}
+
+export interface AudioEngine {
+  noteOn(midiNote: number, options?: NoteOptions): void;
+  noteOff(midiNote: number, releaseSeconds?: number): void;
+  allNotesOff(): void;
+  isPlaying(midiNote: number): boolean;
+}
+
+export interface SynthEngine extends AudioEngine {
+  getPatch(): SynthPatch;
+  setPatch(patch: SynthPatch): void;
+  // Resolves with how many samples loaded; piano notes fall back to the oscillators without them
+  loadSamples(samples: SampleSource[]): Promise<number>;
+  hasSamples(): boolean;
+}
+
+interface Voice {
+  midiNote: number;
+  sources: AudioScheduledSourceNode[];
+  envelope: GainNode;
+  released: boolean;
+}
+
+const PEAK_GAIN = 0.3;
+const STEAL_SECONDS = 0.01;
+const RETRIGGER_SECONDS = 0.02;
+const PANIC_SECONDS = 0.05;
+
+// f = 440 * 2^((d - 69)/12)
+export const midiToFrequency = (midiNote: number): number => 440 * Math.pow(2, (midiNote - 69) / 12);
+
+export const createAudioEngine = (initialPatch: SynthPatch = DEFAULT_PATCH): SynthEngine => {
+  let context: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let patch = initialPatch;
+  // Oldest first; includes voices that are still releasing
+  let voices: Voice[] = [];
+  const samples = new Map<number, AudioBuffer>();
+
+  const getContext = (): AudioContext | null => {
+    if (!context) {
+      const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+      if (AudioContext) {
+        context = new AudioContext();
+        master = context.createGain();
+        master.gain.value = patch.volume;
+
+        // Hard limiter so stacked voices can't clip
+        const limiter = context.createDynamicsCompressor();
+        limiter.threshold.value = -3;
+        limiter.knee.value = 0;
+        limiter.ratio.value = 20;
+        limiter.attack.value = 0.003;
+        limiter.release.value = 0.25;
+
+        master.connect(limiter);
+        limiter.connect(context.destination);
+      }
+    }
+    if (context?.state === 'suspended') {
+      context.resume();
+    }
+    return context;
+  };
+
+  const release = (voice: Voice, seconds: number) => {
+    if (!context) return;
+    voice.released = true;
+    const now = context.currentTime;
+    const gain = voice.envelope.gain;
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(Math.max(gain.value, 0.001), now);
+    gain.exponentialRampToValueAtTime(0.001, now + seconds);
+    voice.sources.forEach(source => source.stop(now + seconds + 0.01));
+  };
+
+  const heldVoice = (midiNote: number) => voices.find(v => v.midiNote === midiNote && !v.released);
+
+  const nearestSample = (midiNote: number): [number, AudioBuffer] | undefined => {
+    let best: [number, AudioBuffer] | undefined;
+    samples.forEach((buffer, sampleNote) => {
+      if (!best || Math.abs(sampleNote - midiNote) < Math.abs(best[0] - midiNote)) best = [sampleNote, buffer];
+    });
+    return best;
+  };
+
+  const createSources = (ctx: AudioContext, midiNote: number): AudioScheduledSourceNode[] => {
+    const sample = patch.source === 'piano' ? nearestSample(midiNote) : undefined;
+    if (sample) {
+      const source = ctx.createBufferSource();
+      source.buffer = sample[1];
+      source.playbackRate.value = Math.pow(2, (midiNote - sample[0]) / 12);
+      return [source];
+    }
+
+    const count = Math.max(1, Math.round(patch.unison));
+    return Array.from({ length: count }, (_, i) => {
+      const osc = ctx.createOscillator();
+      osc.type = patch.waveform;
+      osc.frequency.value = midiToFrequency(midiNote);
+      // Spread evenly from -detune/2 to +detune/2
+      osc.detune.value = count > 1 ? patch.detune * (i / (count - 1) - 0.5) : 0;
+      return osc;
+    });
+  };
+
+  const noteOff = (midiNote: number, releaseSeconds = patch.release) => {
+    const voice = heldVoice(midiNote);
+    if (voice) release(voice, Math.max(releaseSeconds, 0.005));
+  };
+
+  return {
+    noteOn: (midiNote, { velocity = 1 }: NoteOptions = {}) => {
+      const ctx = getContext();
+      if (!ctx || !master) return;
+
+      // Re-triggering a sounding note restarts it cleanly
+      const existing = heldVoice(midiNote);
+      if (existing) release(existing, RETRIGGER_SECONDS);
+
+      // Voice stealing: drop releasing tails first, then the oldest held note
+      while (voices.length >= Math.max(1, patch.polyphony)) {
+        const victim = voices.find(v => v.released) ?? voices[0];
+        release(victim, STEAL_SECONDS);
+        voices = voices.filter(v => v !== victim);
+      }
+
+      const filter = ctx.createBiquadFilter();
+      filter.type = 'lowpass';
+      filter.frequency.value = patch.filterCutoff;
+      filter.Q.value = patch.filterResonance;
+
+      const envelope = ctx.createGain();
+      const sources = createSources(ctx, midiNote);
+      sources.forEach(source => source.connect(filter));
+      filter.connect(envelope);
+      envelope.connect(master);
+
+      // Unison oscillators add up, so each one is quieter
+      const peak = (PEAK_GAIN * velocity) / Math.sqrt(sources.length);
+      const now = ctx.currentTime;
+      const attackEnd = now + Math.max(patch.attack, 0.002);
+      envelope.gain.setValueAtTime(0, now);
+      envelope.gain.linearRampToValueAtTime(peak, attackEnd); // Attack
+      envelope.gain.linearRampToValueAtTime(Math.max(peak * patch.sustain, 0.0001), attackEnd + Math.max(patch.decay, 0.001)); // Decay to sustain
+
+      const voice: Voice = { midiNote, sources, envelope, released: false };
+      sources.forEach(source => source.start(now));
+      // Samples can run out on their own; either way the voice is gone once it stops
+      sources[0].onended = () => {
+        voices = voices.filter(v => v !== voice);
+        envelope.disconnect();
+      };
+      voices.push(voice);
+    },
+
+    noteOff,
+
+    allNotesOff: () => {
+      voices.filter(v => !v.released).forEach(voice => release(voice, PANIC_SECONDS));
+    },
+
+    isPlaying: (midiNote) => !!heldVoice(midiNote),
+
+    getPatch: () => patch,
+
+    setPatch: (next) => {
+      patch = next;
+      if (context && master) {
+        master.gain.setTargetAtTime(next.volume, context.currentTime, 0.02);
+      }
+    },
+
+    loadSamples: async (sources) => {
+      const ctx = getContext();
+      if (!ctx) return 0;
+      const results = await Promise.allSettled(
+        sources.map(async ({ midi, url }) => {
+          const response = await fetch(url);
+          if (!response.ok) throw new Error(`${url}: ${response.status}`);
+          samples.set(midi, await ctx.decodeAudioData(await response.arrayBuffer()));
+        })
+      );
+      return results.filter(r => r.status === 'fulfilled').length;
+    },
+
+    hasSamples: () => samples.size > 0,
+  };
+};
+
+// Drives several engines as one, e.g. the built-in synth plus a MIDI output port
+export const combineEngines = (...engines: AudioEngine[]): AudioEngine => ({
+  noteOn: (midiNote, options) => engines.forEach(engine => engine.noteOn(midiNote, options)),
+  noteOff: (midiNote, releaseSeconds) => engines.forEach(engine => engine.noteOff(midiNote, releaseSeconds)),
+  allNotesOff: () => engines.forEach(engine => engine.allNotesOff()),
+  isPlaying: (midiNote) => engines.some(engine => engine.isPlaying(midiNote)),
+});
+
+export const audioEngine = createAudioEngine(loadCurrentPatch());
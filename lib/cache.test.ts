@@ -0,0 +1,156 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { MusicTheoryResponse } from './types';
+import { RequestCancelledError } from './errors';
+import { TheoryProvider, TheoryProviderRequest, registerProvider } from './provider';
+import { createTheoryCache, lookupMusicRequest, normalizeQuery } from './cache';
+
+// The shared cache reads storage as the module loads
+vi.hoisted(() => vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {} }));
+
+const response = (root: string): MusicTheoryResponse => ({
+  root,
+  type: 'Major',
+  category: 'scale',
+  notes: [root],
+  intervals: ['1'],
+  description: `${root} Major`,
+  keySignature: { type: 'none', count: 0, notes: [] },
+});
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  };
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('normalizeQuery', () => {
+  it('ignores case, spacing and accidental glyphs', () => {
+    expect(normalizeQuery('  C  Dorian♭ ')).toBe('c dorianb');
+    expect(normalizeQuery('F♯ minor')).toBe(normalizeQuery('f# MINOR'));
+  });
+});
+
+describe('createTheoryCache', () => {
+  it('drops the least recently used entry when full', () => {
+    const cache = createTheoryCache({ maxEntries: 2, storageKey: null });
+    cache.set('a', response('A'));
+    cache.set('b', response('B'));
+    cache.get('a');
+    cache.set('c', response('C'));
+
+    expect(cache.get('a')?.root).toBe('A');
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')?.root).toBe('C');
+  });
+
+  it('expires entries after the TTL', () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1000);
+    const cache = createTheoryCache({ ttlMs: 500, storageKey: null });
+    cache.set('a', response('A'));
+
+    now.mockReturnValue(1499);
+    expect(cache.get('a')?.root).toBe('A');
+    now.mockReturnValue(1500);
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  it('survives a reload through storage', () => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    createTheoryCache({ storageKey: 'test_cache' }).set('a', response('A'));
+
+    expect(createTheoryCache({ storageKey: 'test_cache' }).get('a')?.root).toBe('A');
+  });
+
+  it('clears storage too', () => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    const cache = createTheoryCache({ storageKey: 'test_cache' });
+    cache.set('a', response('A'));
+    cache.clear();
+
+    expect(createTheoryCache({ storageKey: 'test_cache' }).get('a')).toBeUndefined();
+  });
+
+  it('starts empty when storage is unreadable', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('localStorage', { ...memoryStorage(), getItem: () => '{not json' });
+
+    expect(createTheoryCache({ storageKey: 'test_cache' }).get('a')).toBeUndefined();
+  });
+});
+
+// A provider whose answers are released by hand, recording every call it gets
+const stubProvider = (id: string) => {
+  const calls: { request: TheoryProviderRequest; resolve: (text: string) => void }[] = [];
+  const provider: TheoryProvider = {
+    id,
+    label: id,
+    defaultModel: 'stub',
+    generate: (request) => new Promise(resolve => calls.push({ request, resolve })),
+  };
+  registerProvider(provider);
+  return { calls, config: { provider: id } };
+};
+
+const C_MAJOR: MusicTheoryResponse = {
+  ...response('C'),
+  notes: ['C', 'D', 'E', 'F', 'G', 'A', 'B'],
+  intervals: ['1', '2', '3', '4', '5', '6', '7'],
+};
+
+describe('lookupMusicRequest', () => {
+  it('shares one provider call between identical lookups and caches the answer', async () => {
+    const { calls, config } = stubProvider('stub-shared');
+    const cache = createTheoryCache({ storageKey: null });
+    const first = lookupMusicRequest('C Major', { config, cache });
+    const second = lookupMusicRequest('  c   major ', { config, cache });
+    await Promise.resolve();
+    expect(calls).toHaveLength(1);
+
+    calls[0].resolve(JSON.stringify(C_MAJOR));
+    expect(await first).toEqual({ response: C_MAJOR, source: 'model' });
+    expect(await second).toEqual({ response: C_MAJOR, source: 'model' });
+    expect(await lookupMusicRequest('C major', { config, cache })).toEqual({ response: C_MAJOR, source: 'cache' });
+    expect(calls).toHaveLength(1);
+  });
+
+  it('aborts the provider call when its only caller gives up', async () => {
+    const { calls, config } = stubProvider('stub-abort');
+    const cache = createTheoryCache({ storageKey: null });
+    const controller = new AbortController();
+    const lookup = lookupMusicRequest('C Major', { config, cache, signal: controller.signal });
+    await Promise.resolve();
+
+    controller.abort();
+    await expect(lookup).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(calls[0].request.signal?.aborted).toBe(true);
+
+    // The abandoned call isn't reused
+    lookupMusicRequest('C Major', { config, cache });
+    await Promise.resolve();
+    expect(calls).toHaveLength(2);
+  });
+
+  it('keeps a shared call going while another caller still waits on it', async () => {
+    const { calls, config } = stubProvider('stub-waiters');
+    const cache = createTheoryCache({ storageKey: null });
+    const superseded = new AbortController();
+    const abandoned = lookupMusicRequest('C Major', { config, cache, signal: superseded.signal });
+    const waiting = lookupMusicRequest('C Major', { config, cache, signal: new AbortController().signal });
+    await Promise.resolve();
+
+    superseded.abort();
+    await expect(abandoned).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(calls[0].request.signal?.aborted).toBe(false);
+
+    calls[0].resolve(JSON.stringify(C_MAJOR));
+    expect((await waiting).response).toEqual(C_MAJOR);
+  });
+});
@@ -0,0 +1,165 @@
+import type { MusicTheoryResponse } from "./types";
+import { getProviderConfig, getProvider, PartialTheoryResponse, ProviderConfig, streamMusicRequest } from "./provider";
+import { RequestCancelledError } from "./errors";
+import { readStoredJson, writeStoredJson } from "./storage";
+
+export interface TheoryCacheOptions {
+  ttlMs?: number;
+  maxEntries?: number;
+  storageKey?: string | null; // null keeps the cache in memory only
+}
+
+export interface TheoryCache {
+  get(key: string): MusicTheoryResponse | undefined;
+  set(key: string, response: MusicTheoryResponse): void;
+  clear(): void;
+}
+
+export interface LookupResult {
+  response: MusicTheoryResponse;
+  source: 'model' | 'cache';
+}
+
+interface CacheEntry {
+  response: MusicTheoryResponse;
+  storedAt: number;
+}
+
+export interface LookupOptions {
+  config?: ProviderConfig;
+  signal?: AbortSignal;
+  cache?: TheoryCache;
+  onPartial?: (partial: PartialTheoryResponse) => void;
+}
+
+interface InFlight {
+  promise: Promise<MusicTheoryResponse>;
+  controller: AbortController;
+  waiters: number;
+  listeners: Set<(partial: PartialTheoryResponse) => void>;
+}
+
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 100;
+
+// "  C  Dorian♭ " and "c dorianb" are the same question
+export const normalizeQuery = (query: string): string =>
+  query.trim().toLowerCase().replace(/♯/g, '#').replace(/♭/g, 'b').replace(/\s+/g, ' ');
+
+// In-memory LRU with TTL, mirrored to localStorage so answers survive reloads
+export const createTheoryCache = ({
+  ttlMs = DEFAULT_TTL_MS,
+  maxEntries = DEFAULT_MAX_ENTRIES,
+  storageKey = 'theorygen_cache',
+}: TheoryCacheOptions = {}): TheoryCache => {
+  const entries = new Map<string, CacheEntry>();
+
+  const saved = storageKey ? readStoredJson(storageKey) : undefined;
+  if (Array.isArray(saved)) {
+    for (const [key, entry] of saved as [string, CacheEntry][]) {
+      entries.set(key, entry);
+    }
+  }
+
+  const persist = () => {
+    if (storageKey) writeStoredJson(storageKey, [...entries.entries()]);
+  };
+
+  const isFresh = (entry: CacheEntry) => Date.now() - entry.storedAt < ttlMs;
+
+  return {
+    get: (key) => {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (!isFresh(entry)) {
+        entries.delete(key);
+        persist();
+        return undefined;
+      }
+      // Re-insert so Map order stays least-recently-used first
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.response;
+    },
+
+    set: (key, response) => {
+      entries.delete(key);
+      entries.set(key, { response, storedAt: Date.now() });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+      persist();
+    },
+
+    clear: () => {
+      entries.clear();
+      persist();
+    },
+  };
+};
+
+export const theoryCache = createTheoryCache();
+
+const inFlight = new Map<string, InFlight>();
+
+// Rejects as soon as `signal` aborts, without touching the shared request behind `promise`
+const withSignal = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new RequestCancelledError(signal.reason));
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new RequestCancelledError(signal.reason));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+// Cached front for the theory providers. Identical concurrent lookups share one
+// (streamed) provider call, which is only aborted once every caller waiting on it
+// has given up. Partial answers are broadcast to every waiter's `onPartial`.
+export const lookupMusicRequest = async (
+  prompt: string,
+  { config = getProviderConfig(), signal, cache = theoryCache, onPartial }: LookupOptions = {}
+): Promise<LookupResult> => {
+  const provider = getProvider(config);
+  const key = `${provider.id}:${config.model || provider.defaultModel}:${normalizeQuery(prompt)}`;
+
+  const cached = cache.get(key);
+  if (cached) return { response: cached, source: 'cache' };
+
+  let shared = inFlight.get(key);
+  if (!shared) {
+    const controller = new AbortController();
+    const listeners = new Set<(partial: PartialTheoryResponse) => void>();
+    const broadcast = (partial: PartialTheoryResponse) => listeners.forEach(listener => listener(partial));
+    const promise = streamMusicRequest(prompt, broadcast, config, controller.signal)
+      .then(response => {
+        cache.set(key, response);
+        return response;
+      })
+      .finally(() => {
+        if (inFlight.get(key) === request) inFlight.delete(key);
+      });
+    const request: InFlight = { promise, controller, waiters: 0, listeners };
+    inFlight.set(key, request);
+    shared = request;
+  }
+
+  const request = shared;
+  request.waiters++;
+  if (onPartial) request.listeners.add(onPartial);
+  const release = () => {
+    request.waiters--;
+    if (onPartial) request.listeners.delete(onPartial);
+    if (request.waiters === 0 && signal?.aborted) {
+      // Nobody wants this answer any more; let the next identical lookup start fresh
+      if (inFlight.get(key) === request) inFlight.delete(key);
+      request.controller.abort(signal.reason);
+    }
+  };
+
+  try {
+    return { response: await withSignal(request.promise, signal), source: 'model' };
+  } finally {
+    release();
+  }
+};
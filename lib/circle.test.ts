@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { describeModulation, modulation } from './circle';
+
+describe('modulation', () => {
+  it('takes the shorter way round the circle', () => {
+    expect(modulation(0, 1).steps).toBe(1);
+    expect(modulation(0, 11).steps).toBe(-1);
+    expect(modulation(-3, 2).steps).toBe(5);
+  });
+
+  it('counts the notes both major scales share', () => {
+    expect([0, 1, 2, 3, 4, 5, 6].map(to => modulation(0, to).commonNotes)).toEqual([7, 6, 5, 4, 3, 2, 2]);
+    expect(modulation(0, -6).commonNotes).toBe(2);
+    expect(modulation(2, -1).commonNotes).toBe(4);
+  });
+
+  it('finds triads diatonic to both keys', () => {
+    expect(modulation(0, 1).pivotChords).toEqual(['C', 'Em', 'G', 'Am']);
+    expect(modulation(0, 6).pivotChords).toEqual([]);
+  });
+});
+
+describe('describeModulation', () => {
+  it('rates the distance and suggests pivots', () => {
+    expect(describeModulation(modulation(0, -1))).toBe('Closely related: 1 step flatwards; pivot through C, Dm, F, Am.');
+    expect(describeModulation(modulation(0, 0))).toMatch(/^Same key signature/);
+  });
+});
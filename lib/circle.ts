@@ -0,0 +1,116 @@
+import type { MusicTheoryResponse } from './types';
+import {
+  SpelledNote,
+  findFormula,
+  fifthsPosition,
+  formatNote,
+  keySignatureFifths,
+  majorTonicAt,
+  mod12,
+  parseInterval,
+  parseNote,
+  pitchClass,
+  transposeNote,
+} from './theory';
+import { diatonicChords } from './harmony';
+import { parseMusicQuery } from './parser';
+import { NoteNaming, displayChordSymbol } from './noteNames';
+
+// The circle of fifths: where a result sits among the keys, and how far apart
+// two keys are. Keys are identified by the major key's position on the line of
+// fifths (C = 0, G = 1, F = -1 ...); a minor key uses its relative major.
+
+export interface CircleSegment {
+  index: number;       // 0 at the top (C), clockwise
+  position: number;    // The usual spelling
+  enharmonic?: number; // The other spelling at the bottom of the circle (B/Cb, F#/Gb, Db/C#)
+}
+
+export const CIRCLE_SEGMENTS: CircleSegment[] = Array.from({ length: 12 }, (_, index) => ({
+  index,
+  position: index <= 6 ? index : index - 12,
+  enharmonic: ({ 5: -7, 6: -6, 7: 7 } as Record<number, number>)[index],
+}));
+
+export const segmentIndex = (position: number): number => mod12(position);
+
+export const majorKeyName = (position: number): string => formatNote(majorTonicAt(position));
+
+// The relative minor sits three fifths clockwise of its major
+export const minorKeyName = (position: number): string => formatNote(majorTonicAt(position + 3));
+
+export interface KeyContext {
+  position: number;       // The parent major key
+  relation: 'major' | 'relative' | 'mode' | 'signature';
+  modeName?: string;      // e.g. "Dorian", for modes and minor scales
+}
+
+// Which major key a result belongs to: the parent key of a mode, the relative
+// major of a minor key, or whatever its key signature says. Null for structures
+// without a key (whole tone, diminished, ...).
+export const keyContext = (response: MusicTheoryResponse): KeyContext | null => {
+  const root = parseNote(response.root);
+  if (!root) return null;
+
+  const formula = findFormula(response.type, response.category);
+  if (formula) {
+    const interval = formula.tonality ? parseInterval(formula.tonality) : null;
+    if (!interval) return null;
+    const position = fifthsPosition(transposeNote({ ...root, octave: undefined }, interval));
+    if (formula.tonality === '1') return { position, relation: 'major' };
+    return {
+      position,
+      relation: formula.category === 'scale' && formula.tonality !== 'b3' ? 'mode' : 'relative',
+      modeName: formula.name,
+    };
+  }
+
+  return response.keySignature ? { position: keySignatureFifths(response.keySignature), relation: 'signature' } : null;
+};
+
+// "C Major", loaded through the parser so the query reproduces it
+export const keyScaleQuery = (position: number, minor = false): string =>
+  minor ? `${minorKeyName(position)} Natural Minor` : `${majorKeyName(position)} Major`;
+
+export interface Modulation {
+  steps: number;         // Signed, the shorter way round: positive = sharpwards
+  commonNotes: number;   // Notes the two major scales share
+  pivotChords: string[]; // Triads diatonic to both keys, spelled as in the first
+}
+
+const majorScale = (position: number): MusicTheoryResponse | null => parseMusicQuery(keyScaleQuery(position));
+
+const pitchClasses = (notes: string[]): number[] =>
+  notes.map(n => parseNote(n)).filter((n): n is SpelledNote => !!n).map(pitchClass);
+
+const chordPitches = (notes: string[]): string => pitchClasses(notes).sort((a, b) => a - b).join(',');
+
+export const modulation = (from: number, to: number): Modulation => {
+  let steps = mod12(to - from);
+  if (steps > 6) steps -= 12;
+
+  const fromScale = majorScale(from);
+  const toScale = majorScale(to);
+  const targetChords = new Set(toScale ? diatonicChords(toScale, 3).map(c => chordPitches(c.notes)) : []);
+  const pivotChords = fromScale
+    ? diatonicChords(fromScale, 3).filter(c => targetChords.has(chordPitches(c.notes))).map(c => c.symbol)
+    : [];
+
+  // Counted rather than derived from the distance: a tritone apart still shares two notes
+  const targetNotes = new Set(toScale ? pitchClasses(toScale.notes) : []);
+  const commonNotes = fromScale ? pitchClasses(fromScale.notes).filter(pc => targetNotes.has(pc)).length : 0;
+
+  return { steps, commonNotes, pivotChords };
+};
+
+// A one-line hint on how hard the move is
+export const describeModulation = ({ steps, pivotChords }: Modulation, naming: NoteNaming = 'english'): string => {
+  const distance = Math.abs(steps);
+  if (distance === 0) return 'Same key signature: no modulation needed, only a change of tonal centre.';
+  const direction = steps > 0 ? 'sharpwards' : 'flatwards';
+  const closeness = distance === 1 ? 'Closely related' : distance === 2 ? 'Near' : distance <= 4 ? 'Distant' : 'Remote';
+  const pivots = pivotChords.length > 0
+    ? `pivot through ${pivotChords.map(symbol => displayChordSymbol(symbol, naming)).join(', ')}`
+    : 'no shared triads, so use a direct or chromatic modulation';
+  return `${closeness}: ${distance} step${distance === 1 ? '' : 's'} ${direction}; ${pivots}.`;
+};
@@ -0,0 +1,149 @@
+import type { MusicTheoryResponse } from './types';
+import { mod12, parseInterval, parseNote, pitchClass } from './theory';
+
+// Side-by-side comparison of results: which notes they share, how their
+// intervals differ and how the voices move from one to the next.
+
+export interface CompareItem {
+  id: string;
+  label: string;
+  response: MusicTheoryResponse;
+}
+
+export const COMPARE_LIMIT = 4;
+
+// One colour per item for its unique notes; shared notes get their own
+export const COMPARE_COLORS = ['#60a5fa', '#f472b6', '#fbbf24', '#34d399']; // blue-400, pink-400, amber-400, emerald-400
+export const SHARED_COLOR = '#8b5cf6'; // violet-500, in every item
+export const PARTIAL_COLOR = '#94a3b8'; // slate-400, in some but not all
+
+export const compareLabel = (response: MusicTheoryResponse): string =>
+  response.category === 'progression' ? response.type : `${response.root} ${response.type}`;
+
+// Pitch class -> the note's name as the result spells it
+const spelledPitches = (response: MusicTheoryResponse): Map<number, string> => {
+  const pitches = new Map<number, string>();
+  response.notes.forEach(name => {
+    const note = parseNote(name);
+    if (note && !pitches.has(pitchClass(note))) pitches.set(pitchClass(note), name);
+  });
+  return pitches;
+};
+
+export interface NoteComparison {
+  pitchClass: number;
+  names: (string | null)[]; // Per item, null where the item doesn't have it
+  members: number[];        // Indices of the items that have it
+}
+
+// Every pitch class in any item, counted upwards from the first item's root
+export const compareNotes = (items: CompareItem[]): NoteComparison[] => {
+  const spelled = items.map(item => spelledPitches(item.response));
+  const first = parseNote(items[0]?.response.root ?? '');
+  const start = first ? pitchClass(first) : 0;
+
+  const all = new Set<number>();
+  spelled.forEach(pitches => pitches.forEach((_, pc) => all.add(pc)));
+  return [...all]
+    .sort((a, b) => mod12(a - start) - mod12(b - start))
+    .map(pc => {
+      const names = spelled.map(pitches => pitches.get(pc) ?? null);
+      const members = names.flatMap((name, i) => (name ? [i] : []));
+      return { pitchClass: pc, names, members };
+    });
+};
+
+export const noteColor = (comparison: NoteComparison, itemCount: number): string => {
+  if (comparison.members.length === itemCount) return SHARED_COLOR;
+  if (comparison.members.length === 1) return COMPARE_COLORS[comparison.members[0] % COMPARE_COLORS.length];
+  return PARTIAL_COLOR;
+};
+
+// Pitch class -> key colour, for Piano's keyColors
+export const compareKeyColors = (comparisons: NoteComparison[], itemCount: number): Record<number, string> =>
+  Object.fromEntries(comparisons.map(c => [c.pitchClass, noteColor(c, itemCount)]));
+
+export interface IntervalRow {
+  degree: number;     // 1, 2, 3 ... 9, 11, 13
+  cells: string[][];  // Per item, the interval labels on that degree
+  differs: boolean;
+}
+
+// Intervals lined up by degree, so "b3" sits next to "3" and "#5" next to "5"
+export const intervalDiff = (items: CompareItem[]): IntervalRow[] => {
+  const rows = new Map<number, string[][]>();
+  items.forEach((item, i) => {
+    item.response.intervals.forEach(label => {
+      const interval = parseInterval(label);
+      if (!interval) return;
+      if (!rows.has(interval.number)) rows.set(interval.number, items.map(() => []));
+      rows.get(interval.number)![i].push(label);
+    });
+  });
+
+  return [...rows.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([degree, cells]) => {
+      // Labels can differ in style ("b3" vs "m3") without differing in sound
+      const keys = cells.map(labels => labels.map(l => parseInterval(l)!.alteration).sort().join(','));
+      return { degree, cells, differs: keys.some(k => k !== keys[0]) };
+    });
+};
+
+export interface VoiceMove {
+  from: string;
+  to: string;
+  semitones: number; // Signed, the shorter way round
+}
+
+export interface VoiceLeading {
+  common: string[];   // Shared tones, named as in `from` (respellings show both names)
+  moves: VoiceMove[];
+  dropped: string[];  // Tones of `from` with nowhere to go
+  added: string[];    // Tones of `to` nobody moved to
+  distance: number;   // Total semitones moved
+}
+
+const shortestStep = (from: number, to: number): number => {
+  const up = mod12(to - from);
+  return up > 6 ? up - 12 : up;
+};
+
+// Keeps common tones and moves every other voice to the nearest free target
+export const voiceLeading = (from: MusicTheoryResponse, to: MusicTheoryResponse): VoiceLeading => {
+  const source = spelledPitches(from);
+  const target = spelledPitches(to);
+
+  const common: string[] = [];
+  source.forEach((name, pc) => {
+    const other = target.get(pc);
+    if (other !== undefined) common.push(other === name ? name : `${name}/${other}`);
+  });
+
+  const leaving = [...source.keys()].filter(pc => !target.has(pc));
+  const arriving = [...target.keys()].filter(pc => !source.has(pc));
+  const pairs = leaving
+    .flatMap(a => arriving.map(b => ({ a, b, step: shortestStep(a, b) })))
+    .sort((x, y) => Math.abs(x.step) - Math.abs(y.step));
+
+  // Pitch class leaving -> where it goes
+  const paired = new Map<number, { b: number; step: number }>();
+  const filled = new Set<number>();
+  for (const { a, b, step } of pairs) {
+    if (paired.has(a) || filled.has(b)) continue;
+    paired.set(a, { b, step });
+    filled.add(b);
+  }
+  const moves = leaving.flatMap(a => {
+    const pair = paired.get(a);
+    return pair ? [{ from: source.get(a)!, to: target.get(pair.b)!, semitones: pair.step }] : [];
+  });
+
+  return {
+    common,
+    moves,
+    dropped: leaving.filter(pc => !paired.has(pc)).map(pc => source.get(pc)!),
+    added: arriving.filter(pc => !filled.has(pc)).map(pc => target.get(pc)!),
+    distance: moves.reduce((sum, m) => sum + Math.abs(m.semitones), 0),
+  };
+};
@@ -0,0 +1,121 @@
+// Typed failures for theory lookups. Each one carries a user-facing message and
+// whether retrying the same request could help.
+
+export type TheoryErrorKind =
+  | 'missing-api-key'
+  | 'network'
+  | 'empty-response'
+  | 'malformed-json'
+  | 'schema-violation'
+  | 'unparseable-notes'
+  | 'cancelled';
+
+export class TheoryError extends Error {
+  readonly kind: TheoryErrorKind;
+  readonly userMessage: string;
+  readonly retryable: boolean;
+
+  constructor(kind: TheoryErrorKind, message: string, userMessage: string, retryable: boolean, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'TheoryError';
+    this.kind = kind;
+    this.userMessage = userMessage;
+    this.retryable = retryable;
+  }
+}
+
+export class MissingApiKeyError extends TheoryError {
+  constructor() {
+    super(
+      'missing-api-key',
+      'API_KEY is not configured',
+      'No Gemini API key is configured. Set GEMINI_API_KEY in .env.local, or try a plain scale or chord name like "Bb Dorian".',
+      false
+    );
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+export class NetworkError extends TheoryError {
+  readonly status?: number;
+
+  constructor(message: string, status?: number, cause?: unknown) {
+    const quota = status === 429;
+    super(
+      'network',
+      message,
+      quota
+        ? 'The model quota has been exceeded. Wait a moment and try again.'
+        : 'Could not reach the model. Check your connection and try again.',
+      true,
+      cause
+    );
+    this.name = 'NetworkError';
+    this.status = status;
+  }
+
+  get isQuota(): boolean {
+    return this.status === 429;
+  }
+}
+
+export class EmptyResponseError extends TheoryError {
+  constructor() {
+    super('empty-response', 'No response from model', 'The model returned an empty answer. Please try again.', true);
+    this.name = 'EmptyResponseError';
+  }
+}
+
+export class MalformedJsonError extends TheoryError {
+  constructor(cause?: unknown) {
+    super('malformed-json', 'Response is not valid JSON', 'The model sent back a garbled answer. Please try again.', true, cause);
+    this.name = 'MalformedJsonError';
+  }
+}
+
+export class SchemaViolationError extends TheoryError {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(
+      'schema-violation',
+      `Response does not match schema: ${issues.join('; ')}`,
+      'The model answered in an unexpected format. Try rephrasing the request.',
+      true
+    );
+    this.name = 'SchemaViolationError';
+    this.issues = issues;
+  }
+}
+
+export class UnparseableNotesError extends TheoryError {
+  readonly notes: string[];
+
+  constructor(notes: string[]) {
+    super(
+      'unparseable-notes',
+      `Unparseable note names: ${notes.join(', ')}`,
+      `The model returned notes that can't be shown on the piano (${notes.join(', ')}). Try rephrasing the request.`,
+      true
+    );
+    this.name = 'UnparseableNotesError';
+    this.notes = notes;
+  }
+}
+
+// Raised when a newer request supersedes this one; the UI should ignore it
+export class RequestCancelledError extends TheoryError {
+  constructor(cause?: unknown) {
+    super('cancelled', 'Request was cancelled', 'The request was cancelled.', false, cause);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+// Anything that isn't already a TheoryError (or an abort) is treated as a network failure
+export const toTheoryError = (err: unknown): TheoryError => {
+  if (err instanceof TheoryError) return err;
+  if ((err as { name?: unknown })?.name === 'AbortError') return new RequestCancelledError(err);
+  const message = err instanceof Error ? err.message : String(err);
+  const status = typeof (err as { status?: unknown })?.status === 'number' ? (err as { status: number }).status : undefined;
+  return new NetworkError(message, status, err);
+};
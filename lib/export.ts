@@ -0,0 +1,310 @@
+import type { MusicTheoryResponse } from './types';
+import { SpelledNote, midiNumber, parseNote, pitchClass } from './theory';
+import { buildVoicing } from './voicing';
+import { chordAsResponse } from './harmony';
+import { NoteNaming, displayNote, formatNoteName } from './noteNames';
+
+// File exports for a result: Standard MIDI File, MusicXML and a picture of the
+// keyboard (SVG, or PNG rendered from it). Builders are pure; only svgToPng and
+// downloadBlob touch the DOM.
+
+export interface ExportOptions {
+  voicing?: string[]; // Octave-specific pitches for a chord; defaults to a close voicing
+  bpm?: number;
+  naming?: NoteNaming; // Note names on the keyboard picture; MIDI and MusicXML always use letter names
+}
+
+// Something sounded at once: one note of a scale run, or a whole chord
+interface ExportEvent {
+  notes: SpelledNote[];
+  beats: number;
+  label?: string; // Chord symbol shown above the staff
+}
+
+const toPitches = (names: string[]): SpelledNote[] =>
+  names.map(name => parseNote(name)).filter((n): n is SpelledNote => !!n && n.octave !== undefined);
+
+// Scales run up to the octave in quarter notes; chords (and each chord of a progression) last a bar
+const toEvents = (response: MusicTheoryResponse, voicing?: string[]): ExportEvent[] => {
+  if (response.progression?.length) {
+    return response.progression.map(chord => ({
+      notes: toPitches(buildVoicing(chordAsResponse(chord), 'close')),
+      beats: 4,
+      label: `${chord.symbol} (${chord.numeral})`,
+    }));
+  }
+
+  if (response.category === 'scale') {
+    const run = toPitches(buildVoicing(response, 'close'));
+    if (run.length > 0) run.push({ ...run[0], octave: run[0].octave! + 1 });
+    return run.map(note => ({ notes: [note], beats: 1 }));
+  }
+
+  const notes = toPitches(voicing ?? response.voicing ?? buildVoicing(response, 'close'));
+  return notes.length > 0 ? [{ notes, beats: 4 }] : [];
+};
+
+export const exportTitle = (response: MusicTheoryResponse): string =>
+  response.category === 'progression' ? response.type : `${response.root} ${response.type}`;
+
+// "C# Harmonic Minor" -> "c-sharp-harmonic-minor"
+export const exportFileName = (response: MusicTheoryResponse, extension: string): string => {
+  const slug = exportTitle(response)
+    .replace(/#/g, '-sharp')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'theorygen'}.${extension}`;
+};
+
+const signatureFifths = (response: MusicTheoryResponse): number => {
+  const signature = response.keySignature;
+  if (!signature || signature.type === 'none') return 0;
+  return signature.type === 'sharp' ? signature.count : -signature.count;
+};
+
+// --- Standard MIDI File ---
+
+const TICKS_PER_BEAT = 480;
+const VELOCITY = 96;
+
+// Variable-length quantity: 7 bits per byte, high bit set on all but the last
+const variableLength = (value: number): number[] => {
+  const bytes = [value & 0x7f];
+  for (let v = value >> 7; v > 0; v >>= 7) bytes.unshift((v & 0x7f) | 0x80);
+  return bytes;
+};
+
+const uint32 = (n: number) => [(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+
+const metaEvent = (type: number, data: number[]) => [0xff, type, ...variableLength(data.length), ...data];
+
+// Single-track (format 0) file: the run or chord on channel 1 at the given tempo
+export const toMidiFile = (response: MusicTheoryResponse, options: ExportOptions = {}): Uint8Array => {
+  const microsPerBeat = Math.round(60_000_000 / (options.bpm ?? 120));
+  const fifths = Math.max(-7, Math.min(7, signatureFifths(response)));
+
+  // Absolute tick -> message; note-offs sort before note-ons at the same tick
+  const messages: { tick: number; data: number[] }[] = [];
+  let tick = 0;
+  for (const event of toEvents(response, options.voicing)) {
+    const end = tick + event.beats * TICKS_PER_BEAT;
+    for (const note of event.notes) {
+      const midi = midiNumber(note);
+      if (midi < 0 || midi > 127) continue;
+      messages.push({ tick, data: [0x90, midi, VELOCITY] });
+      messages.push({ tick: end, data: [0x80, midi, 0] });
+    }
+    tick = end;
+  }
+  messages.sort((a, b) => a.tick - b.tick || a.data[0] - b.data[0]);
+
+  const track: number[] = [
+    0, ...metaEvent(0x03, [...new TextEncoder().encode(exportTitle(response))]),
+    0, ...metaEvent(0x51, [(microsPerBeat >> 16) & 0xff, (microsPerBeat >> 8) & 0xff, microsPerBeat & 0xff]),
+    0, ...metaEvent(0x58, [4, 2, 24, 8]),
+    0, ...metaEvent(0x59, [fifths & 0xff, 0]),
+  ];
+  let previous = 0;
+  for (const { tick: at, data } of messages) {
+    track.push(...variableLength(at - previous), ...data);
+    previous = at;
+  }
+  track.push(0, ...metaEvent(0x2f, []));
+
+  return new Uint8Array([
+    ...[0x4d, 0x54, 0x68, 0x64], ...uint32(6), 0, 0, 0, 1, (TICKS_PER_BEAT >> 8) & 0xff, TICKS_PER_BEAT & 0xff,
+    ...[0x4d, 0x54, 0x72, 0x6b], ...uint32(track.length), ...track,
+  ]);
+};
+
+// --- MusicXML ---
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Beats (in 4/4) -> note type, with a dot for three beats
+const NOTE_TYPES: Record<number, string> = {
+  1: '<type>quarter</type>',
+  2: '<type>half</type>',
+  3: '<type>half</type><dot/>',
+  4: '<type>whole</type>',
+};
+
+const pitchXml = (note: SpelledNote) =>
+  `<pitch><step>${note.letter}</step>${note.accidental ? `<alter>${note.accidental}</alter>` : ''}<octave>${note.octave}</octave></pitch>`;
+
+// One-part score in 4/4 with the result's key signature; the clef follows the register
+export const toMusicXml = (response: MusicTheoryResponse, options: ExportOptions = {}): string => {
+  const events = toEvents(response, options.voicing);
+  const pitches = events.flatMap(e => e.notes.map(midiNumber));
+  const average = pitches.reduce((sum, p) => sum + p, 0) / Math.max(pitches.length, 1);
+  const clef = average >= 60 || pitches.length === 0
+    ? '<clef><sign>G</sign><line>2</line></clef>'
+    : '<clef><sign>F</sign><line>4</line></clef>';
+
+  // Fill bars of four beats, padding the last one with a rest
+  const measures: string[][] = [[]];
+  let beat = 0;
+  for (const event of events) {
+    if (beat + event.beats > 4) {
+      measures.push([]);
+      beat = 0;
+    }
+    const bar = measures[measures.length - 1];
+    if (event.label) {
+      bar.push(`<direction placement="above"><direction-type><words>${escapeXml(event.label)}</words></direction-type></direction>`);
+    }
+    event.notes.forEach((note, i) => {
+      bar.push(`<note>${i > 0 ? '<chord/>' : ''}${pitchXml(note)}<duration>${event.beats}</duration>${NOTE_TYPES[event.beats]}</note>`);
+    });
+    beat += event.beats;
+  }
+  const rest = events.length === 0 ? 4 : (4 - beat) % 4;
+  if (rest > 0) measures[measures.length - 1].push(`<note><rest/><duration>${rest}</duration>${NOTE_TYPES[rest]}</note>`);
+
+  const attributes =
+    `<attributes><divisions>1</divisions><key><fifths>${signatureFifths(response)}</fifths></key>` +
+    `<time><beats>4</beats><beat-type>4</beat-type></time>${clef}</attributes>`;
+
+  const body = measures
+    .map((content, i) => `    <measure number="${i + 1}">\n      ${[...(i === 0 ? [attributes] : []), ...content].join('\n      ')}\n    </measure>`)
+    .join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">',
+    '<score-partwise version="4.0">',
+    `  <work><work-title>${escapeXml(exportTitle(response))}</work-title></work>`,
+    '  <identification><encoding><software>TheoryGen</software></encoding></identification>',
+    '  <part-list><score-part id="P1"><part-name>Piano</part-name></score-part></part-list>',
+    '  <part id="P1">',
+    body,
+    '  </part>',
+    '</score-partwise>',
+    '',
+  ].join('\n');
+};
+
+// --- Keyboard picture ---
+
+// Same key sizes and colours as the on-screen Piano
+const WHITE_KEY = { width: 40, height: 160 };
+const BLACK_KEY = { width: 24, height: 100 };
+const WHITE_OFFSETS = [0, 2, 4, 5, 7, 9, 11];
+const BLACK_KEYS = [{ offset: 1, gap: 1 }, { offset: 3, gap: 2 }, { offset: 6, gap: 4 }, { offset: 8, gap: 5 }, { offset: 10, gap: 6 }];
+const PADDING = 24;
+const CHIP = { width: 44, gap: 8 };
+const FONT = 'ui-sans-serif, system-ui, sans-serif';
+
+// Standalone SVG of the keyboard with the title, the notes and their intervals underneath
+export const toPianoSvg = (response: MusicTheoryResponse, options: ExportOptions = {}): string => {
+  const voiced = options.voicing ? new Set(toPitches(options.voicing).map(midiNumber)) : null;
+  const naming = options.naming ?? 'english';
+  const active = new Set(response.notes.map(n => parseNote(n)).filter((n): n is SpelledNote => !!n).map(pitchClass));
+  const root = parseNote(response.root);
+  const rootClass = root ? pitchClass(root) : -1;
+
+  // Two octaves from C3, widened to fit the voicing
+  let startOctave = 3;
+  let endOctave = 4;
+  if (voiced && voiced.size > 0) {
+    startOctave = Math.min(startOctave, Math.floor(Math.min(...voiced) / 12) - 1);
+    endOctave = Math.max(endOctave, Math.floor(Math.max(...voiced) / 12) - 1);
+  }
+  const octaves = endOctave - startOctave + 1;
+
+  const keyboardWidth = octaves * 7 * WHITE_KEY.width;
+  const chipsWidth = response.notes.length * (CHIP.width + CHIP.gap) - CHIP.gap;
+  const width = Math.max(keyboardWidth, chipsWidth) + PADDING * 2;
+  const keyboardX = (width - keyboardWidth) / 2;
+  const keyboardY = 84;
+  const chipsY = keyboardY + WHITE_KEY.height + 28;
+  const height = chipsY + CHIP.width + 40;
+
+  const isActive = (midi: number) => (voiced ? voiced.has(midi) : active.has(midi % 12));
+  const fillFor = (midi: number, black: boolean) => {
+    if (!isActive(midi)) return black ? '#1e293b' : 'white';
+    if (midi % 12 === rootClass) return black ? '#7c3aed' : '#8b5cf6';
+    return black ? '#3b82f6' : '#60a5fa';
+  };
+
+  const whites: string[] = [];
+  const blacks: string[] = [];
+  for (let oct = 0; oct < octaves; oct++) {
+    const base = (startOctave + oct + 1) * 12;
+    const x0 = keyboardX + oct * 7 * WHITE_KEY.width;
+    WHITE_OFFSETS.forEach((offset, i) => {
+      const x = x0 + i * WHITE_KEY.width;
+      whites.push(`<rect x="${x}" y="${keyboardY}" width="${WHITE_KEY.width}" height="${WHITE_KEY.height}" rx="4" fill="${fillFor(base + offset, false)}" stroke="#cbd5e1"/>`);
+      if (offset === 0) {
+        whites.push(`<text x="${x + WHITE_KEY.width / 2}" y="${keyboardY + WHITE_KEY.height - 10}" font-size="10" text-anchor="middle" fill="#94a3b8">${escapeXml(formatNoteName({ letter: 'C', accidental: 0, octave: startOctave + oct }, naming, root ?? undefined))}</text>`);
+      }
+    });
+    BLACK_KEYS.forEach(({ offset, gap }) => {
+      const x = x0 + gap * WHITE_KEY.width - BLACK_KEY.width / 2;
+      blacks.push(`<rect x="${x}" y="${keyboardY}" width="${BLACK_KEY.width}" height="${BLACK_KEY.height}" rx="2" fill="${fillFor(base + offset, true)}" stroke="#0f172a"/>`);
+    });
+  }
+
+  const chipsX = (width - chipsWidth) / 2;
+  const chips = response.notes.map((note, i) => {
+    const x = chipsX + i * (CHIP.width + CHIP.gap);
+    const isRoot = i === 0;
+    const name = displayNote(note, naming, response.root);
+    return [
+      `<rect x="${x}" y="${chipsY}" width="${CHIP.width}" height="${CHIP.width}" rx="10" fill="${isRoot ? '#9333ea' : '#1e293b'}" stroke="${isRoot ? 'none' : '#334155'}"/>`,
+      `<text x="${x + CHIP.width / 2}" y="${chipsY + CHIP.width / 2}" font-size="${name.length > 3 ? 12 : 17}" font-weight="bold" text-anchor="middle" dominant-baseline="central" fill="${isRoot ? 'white' : '#e2e8f0'}">${escapeXml(name)}</text>`,
+      response.intervals[i]
+        ? `<text x="${x + CHIP.width / 2}" y="${chipsY + CHIP.width + 16}" font-size="11" font-family="ui-monospace, monospace" text-anchor="middle" fill="#64748b">${escapeXml(response.intervals[i])}</text>`
+        : '',
+    ].join('');
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT}">`,
+    `<rect width="${width}" height="${height}" rx="16" fill="#0f172a"/>`,
+    `<text x="${PADDING}" y="40" font-size="24" font-weight="bold" fill="white">${escapeXml(response.category === 'progression' ? response.type : `${displayNote(response.root, naming)} ${response.type}`)}</text>`,
+    `<text x="${PADDING}" y="62" font-size="12" font-weight="bold" letter-spacing="1.5" fill="#c084fc">${escapeXml(response.category.toUpperCase())}</text>`,
+    ...whites,
+    ...blacks,
+    ...chips,
+    '</svg>',
+    '',
+  ].join('\n');
+};
+
+// Rasterises an SVG string at `scale` times its size
+export const svgToPng = (svg: string, scale = 2): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth * scale;
+      canvas.height = image.naturalHeight * scale;
+      const context = canvas.getContext('2d');
+      if (!context) return reject(new Error('Canvas is not available'));
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode PNG'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render SVG'));
+    };
+    image.src = url;
+  });
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
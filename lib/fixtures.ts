@@ -0,0 +1,43 @@
+import type { MusicTheoryResponse } from "./types";
+
+// Hand-written responses in the shape the model returns, keyed by lower-cased prompt.
+// Used by the mock provider so the model path can be exercised without network access.
+// Some contain deliberate mistakes of the kind models make, to exercise correction.
+export const FIXTURE_RESPONSES: Record<string, MusicTheoryResponse> = {
+  'what is a tritone?': {
+    root: 'C',
+    type: 'Tritone',
+    category: 'interval',
+    notes: ['C', 'F#'],
+    intervals: ['1', '#4'],
+    description: 'A tritone spans three whole steps, splitting the octave exactly in half. Its unstable, tense sound drives the resolution of dominant seventh chords.',
+    keySignature: { type: 'none', count: 0, notes: [] },
+  },
+  'neapolitan chord in c minor': {
+    root: 'Db',
+    type: 'Major',
+    category: 'chord',
+    notes: ['Db', 'F', 'Ab'],
+    intervals: ['1', '3', '5'],
+    description: 'The Neapolitan is a major triad built on the lowered second degree, usually heard in first inversion as a dark, dramatic predominant chord.',
+    keySignature: { type: 'flat', count: 3, notes: ['Bb', 'Eb', 'Ab'] },
+  },
+  'the saddest scale': {
+    root: 'D',
+    type: 'Minor',
+    category: 'scale',
+    notes: ['D', 'E', 'F', 'G', 'A', 'A#', 'C'],
+    intervals: ['1', '2', 'b3', '4', '5', 'b6', '7'],
+    description: 'The natural minor scale is widely heard as melancholic; D minor in particular has a long reputation as the saddest of keys.',
+    keySignature: { type: 'flat', count: 2, notes: ['Bb', 'Eb'] },
+  },
+  'chord used in the hendrix song purple haze': {
+    root: 'E',
+    type: 'Dominant 7th Sharp 9',
+    category: 'chord',
+    notes: ['E', 'G#', 'B', 'D', 'F##'],
+    intervals: ['1', '3', '5', 'b7', '#9'],
+    description: 'The "Hendrix chord" stacks a sharp nine on a dominant seventh, clashing major and minor thirds for a gritty, bluesy bite.',
+    keySignature: { type: 'sharp', count: 4, notes: ['F#', 'C#', 'G#', 'D#'] },
+  },
+};
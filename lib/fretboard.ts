@@ -0,0 +1,46 @@
+import { midiNumber, mod12, parseNote, pitchClass } from './theory';
+
+export type TuningId = 'standard' | 'drop-d' | 'dadgad' | 'bass-4' | 'bass-5' | 'ukulele';
+
+export interface Tuning {
+  id: TuningId;
+  label: string;
+  strings: string[]; // Lowest string first
+}
+
+export const TUNINGS: Tuning[] = [
+  { id: 'standard', label: 'Guitar (Standard)', strings: ['E2', 'A2', 'D3', 'G3', 'B3', 'E4'] },
+  { id: 'drop-d', label: 'Guitar (Drop D)', strings: ['D2', 'A2', 'D3', 'G3', 'B3', 'E4'] },
+  { id: 'dadgad', label: 'Guitar (DADGAD)', strings: ['D2', 'A2', 'D3', 'G3', 'A3', 'D4'] },
+  { id: 'bass-4', label: 'Bass (4-string)', strings: ['E1', 'A1', 'D2', 'G2'] },
+  { id: 'bass-5', label: 'Bass (5-string)', strings: ['B0', 'E1', 'A1', 'D2', 'G2'] },
+  // Re-entrant: the G string is tuned above the C
+  { id: 'ukulele', label: 'Ukulele (GCEA)', strings: ['G4', 'C4', 'E4', 'A4'] },
+];
+
+export const getTuning = (id: TuningId): Tuning => TUNINGS.find(t => t.id === id) ?? TUNINGS[0];
+
+export interface FretPosition {
+  string: number; // Index into the tuning, lowest string first
+  fret: number;   // 0 = open
+  midi: number;
+  pitchClass: number;
+}
+
+// Every fret (0..frets) on every string whose pitch class is in `pitchClasses`
+export const findPositions = (tuning: Tuning, pitchClasses: Set<number>, frets: number): FretPosition[] =>
+  tuning.strings.flatMap((name, string) => {
+    const open = midiNumber(parseNote(name)!);
+    return Array.from({ length: frets + 1 }, (_, fret) => ({ string, fret, midi: open + fret, pitchClass: mod12(open + fret) }))
+      .filter(position => pitchClasses.has(position.pitchClass));
+  });
+
+// Pitch class -> label (interval when known, otherwise the note name)
+export const labelsByPitchClass = (notes: string[], intervals?: string[], formatName = (name: string) => name): Map<number, string> => {
+  const labels = new Map<number, string>();
+  notes.forEach((name, i) => {
+    const note = parseNote(name);
+    if (note && !labels.has(pitchClass(note))) labels.set(pitchClass(note), intervals?.[i] || formatName(name));
+  });
+  return labels;
+};
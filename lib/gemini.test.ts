@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GoogleGenAI } from '@google/genai';
+import { MissingApiKeyError } from './errors';
+import { createGeminiProvider } from './gemini';
+import { analyzeMusicRequest, streamMusicRequest, TheoryProviderRequest } from './provider';
+import { THEORY_SCHEMA } from './schema';
+
+// The browser build of the SDK refuses to construct a client without a key
+vi.mock('@google/genai', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@google/genai')>(),
+  GoogleGenAI: vi.fn(() => {
+    throw new Error('An API Key must be set when running in a browser');
+  }),
+}));
+
+const request: TheoryProviderRequest = {
+  prompt: 'C Dorian',
+  model: 'gemini-2.5-flash',
+  schema: THEORY_SCHEMA,
+  systemInstruction: '',
+};
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('gemini provider without an API key', () => {
+  it('fails with MissingApiKeyError before building a client', async () => {
+    vi.stubEnv('API_KEY', '');
+    const provider = createGeminiProvider();
+
+    await expect(provider.generate(request)).rejects.toBeInstanceOf(MissingApiKeyError);
+    await expect(provider.generateStream!(request)[Symbol.asyncIterator]().next()).rejects.toBeInstanceOf(MissingApiKeyError);
+    expect(GoogleGenAI).not.toHaveBeenCalled();
+  });
+
+  it('is not offered as retryable', async () => {
+    vi.stubEnv('API_KEY', '');
+    const config = { provider: 'gemini' };
+
+    await expect(analyzeMusicRequest('C Dorian', config)).rejects.toMatchObject({ kind: 'missing-api-key', retryable: false });
+    await expect(streamMusicRequest('C Dorian', () => {}, config)).rejects.toBeInstanceOf(MissingApiKeyError);
+  });
+});
@@ -0,0 +1,173 @@
+import type { HarmonicFunction, MusicTheoryResponse, ProgressionChord } from './types';
+import {
+  CHORD_FORMULAS,
+  SpelledNote,
+  StructureFormula,
+  buildStructure,
+  findFormula,
+  formatInterval,
+  formatNote,
+  intervalBetween,
+  parseInterval,
+  parseNote,
+  transposeNote,
+} from './theory';
+
+// Diatonic harmony: chords built in thirds on each scale degree, and Roman
+// numeral progressions ("ii-V-I in Bb") resolved to actual chords.
+
+const NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII'];
+
+// Degree (0-based) -> function in a major or minor key
+const DEGREE_FUNCTIONS: HarmonicFunction[] = ['tonic', 'subdominant', 'tonic', 'subdominant', 'dominant', 'tonic', 'dominant'];
+
+// Chromatic chords by their usual role: Neapolitan, borrowed bIII/bVI/bVII, tritone sub
+const ALTERED_FUNCTIONS: Record<string, HarmonicFunction> = {
+  b2: 'subdominant',
+  b3: 'tonic',
+  '#4': 'subdominant',
+  b5: 'dominant',
+  b6: 'subdominant',
+  b7: 'subdominant',
+};
+
+// Chord symbol suffix -> what follows the numeral (minor chords already show as lowercase)
+const NUMERAL_SUFFIXES: Record<string, string> = {
+  '': '', m: '', dim: '°', aug: '+',
+  '7': '7', maj7: 'maj7', m7: '7', 'm(maj7)': 'maj7', m7b5: 'ø7', dim7: '°7', '7#5': '+7', 'maj7#5': '+maj7',
+  '6': '6', m6: '6', '9': '9', m9: '9',
+};
+
+const chordBySymbol = (symbol: string): StructureFormula | undefined => CHORD_FORMULAS.find(f => f.symbol === symbol);
+
+const isMinorQuality = (formula: StructureFormula) => formula.intervals.includes('b3');
+
+const formatNumeral = (degree: number, accidental: string, formula: StructureFormula): string => {
+  const numeral = isMinorQuality(formula) ? NUMERALS[degree].toLowerCase() : NUMERALS[degree];
+  const suffix = NUMERAL_SUFFIXES[formula.symbol ?? ''] ?? formula.symbol ?? '';
+  return `${accidental}${numeral}${suffix}`;
+};
+
+const toChord = (
+  root: SpelledNote,
+  formula: StructureFormula,
+  numeral: string,
+  harmonicFunction: HarmonicFunction
+): ProgressionChord => {
+  const structure = buildStructure(root, formula);
+  return {
+    numeral,
+    function: harmonicFunction,
+    root: formatNote(root),
+    type: formula.name,
+    symbol: `${formatNote(root)}${formula.symbol ?? ` ${formula.name}`}`,
+    notes: structure.notes,
+    intervals: structure.intervals,
+  };
+};
+
+// Triads (size 3) or seventh chords (size 4) stacked in thirds on every degree of a
+// seven-note scale. Other scales don't stack in thirds and give an empty list.
+export const diatonicChords = (scale: MusicTheoryResponse, size: 3 | 4): ProgressionChord[] => {
+  const notes = scale.notes.map(name => parseNote(name));
+  if (scale.category !== 'scale' || notes.length !== 7 || notes.some(n => !n)) return [];
+  const degrees = notes as SpelledNote[];
+
+  return degrees.flatMap((root, degree) => {
+    const stack = Array.from({ length: size }, (_, i) => degrees[(degree + i * 2) % 7]);
+    const labels = stack.map(note => formatInterval(intervalBetween(root, note)));
+    const formula = CHORD_FORMULAS.find(f => f.intervals.length === size && f.intervals.every((l, i) => l === labels[i]));
+    if (!formula) return [];
+
+    // Degrees that differ from the major scale get an accidental, e.g. bIII in a minor key
+    const degreeLabel = scale.intervals[degree] ?? formatInterval(intervalBetween(degrees[0], root));
+    const accidental = degreeLabel.replace(/\d+$/, '');
+    const harmonicFunction = ALTERED_FUNCTIONS[degreeLabel] ?? DEGREE_FUNCTIONS[degree];
+    return [toChord(root, formula, formatNumeral(degree, accidental, formula), harmonicFunction)];
+  });
+};
+
+const NUMERAL_PATTERN = /^(b|#)?(VII|VI|V|IV|III|II|I|vii|vi|v|iv|iii|ii|i)(°|o|ø|\+)?(maj7|M7|7|6|9)?$/;
+
+// Quality from the numeral's case and marks, e.g. "V7" -> "7", "ii" -> "m", "viiø7" -> "m7b5"
+const symbolForNumeral = (upper: boolean, mark: string, extension: string): string | null => {
+  const ext = extension === 'M7' ? 'maj7' : extension;
+  if (mark === 'ø') return !upper && (ext === '' || ext === '7') ? 'm7b5' : null;
+  if (mark === '°' || mark === 'o') return upper ? null : ext === '7' ? 'dim7' : ext === '' ? 'dim' : null;
+  if (mark === '+') return upper ? ({ '': 'aug', '7': '7#5', maj7: 'maj7#5' } as Record<string, string>)[ext] ?? null : null;
+  if (upper) return ext;
+  return ext === 'maj7' ? 'm(maj7)' : `m${ext}`;
+};
+
+// Numerals without an accidental use the key's own scale (so VI in A minor is F);
+// with one they're measured from the major scale, as in "bVII".
+const resolveNumeral = (token: string, tonic: SpelledNote, keyScale: SpelledNote[], majorScale: SpelledNote[]): ProgressionChord | null => {
+  const match = token.match(NUMERAL_PATTERN);
+  if (!match) return null;
+  const [, accidental = '', numeral, mark = '', extension = ''] = match;
+  const degree = NUMERALS.indexOf(numeral.toUpperCase());
+  const upper = numeral === numeral.toUpperCase();
+
+  const formula = chordBySymbol(symbolForNumeral(upper, mark, extension) ?? '?');
+  if (!formula) return null;
+
+  let root = accidental ? majorScale[degree] : keyScale[degree];
+  if (accidental) root = { ...root, accidental: root.accidental + (accidental === '#' ? 1 : -1) };
+
+  const degreeLabel = formatInterval(intervalBetween(tonic, root));
+  const harmonicFunction = accidental ? ALTERED_FUNCTIONS[degreeLabel] ?? DEGREE_FUNCTIONS[degree] : DEGREE_FUNCTIONS[degree];
+  return toChord(root, formula, `${accidental}${numeral}${mark === 'o' ? '°' : mark}${extension}`, harmonicFunction);
+};
+
+const scaleNotes = (tonic: SpelledNote, formula: StructureFormula) =>
+  formula.intervals.map(label => transposeNote(tonic, parseInterval(label)!));
+
+const PROGRESSION_PATTERN = /^(.+?)\s+(?:in|of)\s+([A-Ga-g](?:##|bb|#|b)?)\s*(major|minor|maj|min|m)?$/i;
+
+// "ii-V-I in Bb", "I vi IV V in E", "i bVI bVII in A minor"; null if any part isn't a numeral
+export const parseProgression = (query: string): MusicTheoryResponse | null => {
+  const match = query.trim().replace(/♯/g, '#').replace(/♭/g, 'b').match(PROGRESSION_PATTERN);
+  if (!match) return null;
+  const [, numerals, keyName, quality = ''] = match;
+
+  const tokens = numerals.split(/[\s,|–—-]+/).filter(Boolean);
+  const tonic = parseNote(keyName);
+  if (tokens.length === 0 || !tonic) return null;
+  const root = { ...tonic, octave: undefined };
+
+  const minor = /^(minor|min|m)$/i.test(quality);
+  const keyFormula = findFormula(minor ? 'Natural Minor' : 'Major', 'scale')!;
+  const majorScale = scaleNotes(root, findFormula('Major', 'scale')!);
+  const keyScale = scaleNotes(root, keyFormula);
+
+  const chords: ProgressionChord[] = [];
+  for (const token of tokens) {
+    const chord = resolveNumeral(token, root, keyScale, majorScale);
+    if (!chord) return null;
+    chords.push(chord);
+  }
+
+  const keyLabel = `${formatNote(root)} ${minor ? 'minor' : 'major'}`;
+  const structure = buildStructure(root, keyFormula);
+  return {
+    root: formatNote(root),
+    type: `Progression in ${keyLabel}`,
+    category: 'progression',
+    notes: structure.notes,
+    intervals: structure.intervals,
+    keySignature: structure.keySignature,
+    description: `${chords.map(c => c.numeral).join(' – ')} in ${keyLabel}: ${chords.map(c => c.symbol).join(', ')}. Moves ${chords.map(c => c.function).join(' → ')}.`,
+    progression: chords,
+  };
+};
+
+// A single progression chord shaped like a normal chord result, for the keyboard and staff
+export const chordAsResponse = (chord: ProgressionChord, keySignature?: MusicTheoryResponse['keySignature']): MusicTheoryResponse => ({
+  root: chord.root,
+  type: chord.type,
+  category: 'chord',
+  notes: chord.notes,
+  intervals: chord.intervals,
+  description: '',
+  keySignature,
+});
@@ -0,0 +1,85 @@
+import type { MusicTheoryResponse } from './types';
+import type { LookupResult } from './cache';
+import { THEORY_SCHEMA, validateAgainstSchema } from './schema';
+import { readStorage, readStoredJson, writeStorage, writeStoredJson } from './storage';
+
+// Everything the user looked up, newest first, kept in localStorage up to a
+// user-chosen number of entries.
+
+// 'local' results were resolved by the parser without any lookup
+export type HistorySource = LookupResult['source'] | 'local';
+
+export interface HistoryEntry {
+  id: string;
+  query: string;
+  response: MusicTheoryResponse;
+  timestamp: number;
+  source: HistorySource;
+}
+
+export const HISTORY_STORAGE_KEY = 'theorygen_history';
+const LIMIT_STORAGE_KEY = 'theorygen_history_limit';
+
+export const HISTORY_LIMITS = [10, 25, 50, 100, 250];
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+const SOURCES: HistorySource[] = ['model', 'cache', 'local'];
+
+const isHistoryEntry = (entry: unknown): entry is HistoryEntry => {
+  if (!entry || typeof entry !== 'object') return false;
+  const record = entry as Record<string, unknown>;
+  return (
+    typeof record.id === 'string' &&
+    typeof record.query === 'string' &&
+    typeof record.timestamp === 'number' &&
+    SOURCES.includes(record.source as HistorySource) &&
+    validateAgainstSchema(record.response, THEORY_SCHEMA).length === 0
+  );
+};
+
+// Unreadable entries are dropped; history is a convenience, not something to recover
+export const loadHistory = (): HistoryEntry[] => {
+  const entries = readStoredJson(HISTORY_STORAGE_KEY);
+  return Array.isArray(entries) ? entries.filter(isHistoryEntry) : [];
+};
+
+export const saveHistory = (entries: HistoryEntry[]) => {
+  writeStoredJson(HISTORY_STORAGE_KEY, entries);
+};
+
+export const loadHistoryLimit = (): number => {
+  const saved = Number(readStorage(LIMIT_STORAGE_KEY));
+  return HISTORY_LIMITS.includes(saved) ? saved : DEFAULT_HISTORY_LIMIT;
+};
+
+export const saveHistoryLimit = (limit: number) => {
+  writeStorage(LIMIT_STORAGE_KEY, String(limit));
+};
+
+// Newest first, trimmed to `limit`
+export const addHistoryEntry = (
+  entries: HistoryEntry[],
+  entry: Omit<HistoryEntry, 'id' | 'timestamp'>,
+  limit: number
+): HistoryEntry[] => {
+  const timestamp = Date.now();
+  const id = `${timestamp}-${Math.random().toString(36).slice(2, 8)}`;
+  return [{ ...entry, id, timestamp }, ...entries].slice(0, limit);
+};
+
+export const searchHistory = (entries: HistoryEntry[], query: string): HistoryEntry[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return entries;
+  return entries.filter(entry => {
+    const text = `${entry.query} ${entry.response.root} ${entry.response.type}`.toLowerCase();
+    return words.every(word => text.includes(word));
+  });
+};
+
+// "Today", "Yesterday", or the date, for grouping the timeline
+export const historyDayLabel = (timestamp: number, now = Date.now()): string => {
+  const day = new Date(timestamp).toDateString();
+  if (day === new Date(now).toDateString()) return 'Today';
+  if (day === new Date(now - 24 * 60 * 60 * 1000).toDateString()) return 'Yesterday';
+  return new Date(timestamp).toLocaleDateString();
+};
@@ -0,0 +1,5 @@
+import { audioEngine, combineEngines } from './audio';
+import { midiOutput } from './midi';
+
+// Everything the app plays goes through here: the built-in synth plus the chosen MIDI output port
+export const instrument = combineEngines(audioEngine, midiOutput);
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MidiNoteHandlers, createMidiOutput, handleMidiMessage, subscribeToMidiInputs } from './midi';
+
+// The shared output reads its saved settings as the module loads
+vi.hoisted(() => vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {} }));
+
+// Just enough of MIDIAccess and MIDIInput to drive the input code without hardware
+
+const fakeInput = (id: string) =>
+  Object.assign(new EventTarget(), { id, name: id, state: 'connected' }) as unknown as MIDIInput;
+
+const fakeAccess = (inputs: MIDIInput[]) => {
+  const map = new Map(inputs.map(input => [input.id, input]));
+  const access = Object.assign(new EventTarget(), { inputs: map, outputs: new Map() }) as unknown as MIDIAccess;
+  const plugIn = (input: MIDIInput) => {
+    map.set(input.id, input);
+    access.dispatchEvent(new Event('statechange'));
+  };
+  return { access, plugIn };
+};
+
+const send = (input: MIDIInput, bytes: number[]) =>
+  input.dispatchEvent(Object.assign(new Event('midimessage'), { data: new Uint8Array(bytes) }));
+
+const recorder = () => ({ onNoteOn: vi.fn(), onNoteOff: vi.fn() }) satisfies MidiNoteHandlers;
+
+const fakeOutput = () => {
+  const sent: number[][] = [];
+  const port = { id: 'synth', name: 'synth', state: 'connected', send: (data: number[]) => sent.push(data) } as unknown as MIDIOutput;
+  return { port, sent };
+};
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  };
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('handleMidiMessage', () => {
+  it('reads note-on on any channel with a 0-1 velocity', () => {
+    const handlers = recorder();
+    handleMidiMessage(new Uint8Array([0x90, 60, 127]), handlers);
+    handleMidiMessage(new Uint8Array([0x9f, 64, 0x40]), handlers);
+    expect(handlers.onNoteOn).toHaveBeenNthCalledWith(1, 60, 1);
+    expect(handlers.onNoteOn).toHaveBeenNthCalledWith(2, 64, 64 / 127);
+    expect(handlers.onNoteOff).not.toHaveBeenCalled();
+  });
+
+  it('treats note-on with velocity 0 as note-off', () => {
+    const handlers = recorder();
+    handleMidiMessage(new Uint8Array([0x90, 60, 0]), handlers);
+    handleMidiMessage(new Uint8Array([0x83, 62, 40]), handlers);
+    expect(handlers.onNoteOff.mock.calls).toEqual([[60], [62]]);
+    expect(handlers.onNoteOn).not.toHaveBeenCalled();
+  });
+
+  it('ignores other messages', () => {
+    const handlers = recorder();
+    handleMidiMessage(new Uint8Array([0xb0, 64, 127]), handlers);
+    handleMidiMessage(new Uint8Array([0xf8]), handlers);
+    expect(handlers.onNoteOn).not.toHaveBeenCalled();
+    expect(handlers.onNoteOff).not.toHaveBeenCalled();
+  });
+});
+
+describe('subscribeToMidiInputs', () => {
+  it('listens to inputs plugged in after subscribing', () => {
+    const first = fakeInput('first');
+    const { access, plugIn } = fakeAccess([first]);
+    const handlers = recorder();
+    const onDevicesChange = vi.fn();
+    subscribeToMidiInputs(access, handlers, onDevicesChange);
+    expect(onDevicesChange).toHaveBeenLastCalledWith([first]);
+
+    const second = fakeInput('second');
+    plugIn(second);
+    expect(onDevicesChange).toHaveBeenLastCalledWith([first, second]);
+
+    send(first, [0x90, 60, 100]);
+    send(second, [0x90, 67, 100]);
+    send(second, [0x90, 67, 0]);
+    expect(handlers.onNoteOn.mock.calls.map(([note]) => note)).toEqual([60, 67]);
+    expect(handlers.onNoteOff.mock.calls).toEqual([[67]]);
+  });
+
+  it('attaches each input once across state changes', () => {
+    const input = fakeInput('keys');
+    const { access } = fakeAccess([input]);
+    const handlers = recorder();
+    subscribeToMidiInputs(access, handlers);
+    access.dispatchEvent(new Event('statechange'));
+    send(input, [0x90, 60, 100]);
+    expect(handlers.onNoteOn).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops listening after unsubscribing', () => {
+    const input = fakeInput('keys');
+    const { access, plugIn } = fakeAccess([input]);
+    const handlers = recorder();
+    const unsubscribe = subscribeToMidiInputs(access, handlers);
+    unsubscribe();
+    send(input, [0x90, 60, 100]);
+    const late = fakeInput('late');
+    plugIn(late);
+    send(late, [0x90, 62, 100]);
+    expect(handlers.onNoteOn).not.toHaveBeenCalled();
+  });
+});
+
+describe('createMidiOutput', () => {
+  // Output settings are saved as they change
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+  });
+
+  it('sends nothing until a port is chosen', () => {
+    const output = createMidiOutput();
+    output.noteOn(60);
+    expect(output.isPlaying(60)).toBe(false);
+  });
+
+  it('releases notes on the channel they started on', () => {
+    const { port, sent } = fakeOutput();
+    const output = createMidiOutput();
+    output.setPort(port);
+    output.setSettings({ channel: 1, velocity: 100 });
+    output.noteOn(60, { velocity: 0.5 });
+    output.setSettings({ channel: 3 });
+    output.noteOn(64);
+    output.noteOff(64);
+    expect(sent).toEqual([
+      [0x90, 60, 50],
+      [0x80, 60, 0],    // Changing channel releases what was sounding
+      [0xb0, 123, 0],
+      [0x92, 64, 100],
+      [0x82, 64, 0],
+    ]);
+  });
+});
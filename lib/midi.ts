@@ -0,0 +1,172 @@
+import type { AudioEngine, NoteOptions } from './audio';
+import { readStoredJson, writeStoredJson } from './storage';
+
+// Web MIDI input and output. Access is passed in rather than requested here so
+// a fake MIDIAccess can stand in for real hardware.
+
+export interface MidiNoteHandlers {
+  onNoteOn(midiNote: number, velocity: number): void; // velocity 0-1
+  onNoteOff(midiNote: number): void;
+}
+
+export const isMidiSupported = (): boolean =>
+  typeof navigator !== 'undefined' && typeof navigator.requestMIDIAccess === 'function';
+
+let accessRequest: Promise<MIDIAccess> | null = null;
+
+// One permission prompt is enough for both input and output
+export const requestMidiAccess = async (): Promise<MIDIAccess> => {
+  if (!isMidiSupported()) {
+    throw new Error('Web MIDI is not supported in this browser');
+  }
+  accessRequest ??= navigator.requestMIDIAccess().catch((e) => {
+    accessRequest = null;
+    throw e;
+  });
+  return accessRequest;
+};
+
+// Note on/off from any channel; everything else is ignored. A note-on with
+// velocity 0 is a note-off, as many keyboards send it that way.
+export const handleMidiMessage = (data: Uint8Array, handlers: MidiNoteHandlers) => {
+  const [status, note, velocity = 0] = data;
+  const command = status & 0xf0;
+  if (command === 0x90 && velocity > 0) {
+    handlers.onNoteOn(note, velocity / 127);
+  } else if (command === 0x80 || command === 0x90) {
+    handlers.onNoteOff(note);
+  }
+};
+
+export const listMidiInputs = (access: MIDIAccess): MIDIInput[] =>
+  [...access.inputs.values()].filter(input => input.state === 'connected');
+
+// Listens to every input, including ones plugged in later. Returns an unsubscribe function.
+export const subscribeToMidiInputs = (
+  access: MIDIAccess,
+  handlers: MidiNoteHandlers,
+  onDevicesChange?: (inputs: MIDIInput[]) => void
+): (() => void) => {
+  const attached = new Set<MIDIInput>();
+  const onMessage = (event: Event) => {
+    const { data } = event as MIDIMessageEvent;
+    if (data) handleMidiMessage(data, handlers);
+  };
+
+  const attachAll = () => {
+    access.inputs.forEach(input => {
+      if (attached.has(input)) return;
+      input.addEventListener('midimessage', onMessage);
+      attached.add(input);
+    });
+    onDevicesChange?.(listMidiInputs(access));
+  };
+
+  attachAll();
+  access.addEventListener('statechange', attachAll);
+
+  return () => {
+    access.removeEventListener('statechange', attachAll);
+    attached.forEach(input => input.removeEventListener('midimessage', onMessage));
+    attached.clear();
+  };
+};
+
+export const listMidiOutputs = (access: MIDIAccess): MIDIOutput[] =>
+  [...access.outputs.values()].filter(output => output.state === 'connected');
+
+export interface MidiOutputSettings {
+  portId: string | null;
+  channel: number;  // 1-16
+  velocity: number; // 1-127, scaled by each note's own velocity
+}
+
+export interface MidiOutput extends AudioEngine {
+  setPort(port: MIDIOutput | null): void;
+  getSettings(): MidiOutputSettings;
+  setSettings(settings: Partial<Omit<MidiOutputSettings, 'portId'>>): void;
+}
+
+const SETTINGS_KEY = 'theorygen_midi_output';
+const DEFAULT_SETTINGS: MidiOutputSettings = { portId: null, channel: 1, velocity: 100 };
+
+const NOTE_ON = 0x90;
+const NOTE_OFF = 0x80;
+const CONTROL_CHANGE = 0xb0;
+const ALL_NOTES_OFF = 123;
+
+const loadSettings = (): MidiOutputSettings => {
+  const saved = readStoredJson(SETTINGS_KEY);
+  return { ...DEFAULT_SETTINGS, ...(saved && typeof saved === 'object' ? saved : {}) };
+};
+
+// Sends notes to an external synth or DAW. Behaves like the built-in synth so
+// playback and keyboards can drive both; notes go nowhere until a port is set.
+export const createMidiOutput = (): MidiOutput => {
+  let port: MIDIOutput | null = null;
+  let settings = loadSettings();
+  // Channel each note was started on, so note-offs land there even after a channel change
+  const sounding = new Map<number, number>();
+
+  const persist = () => {
+    writeStoredJson(SETTINGS_KEY, settings);
+  };
+
+  const send = (data: number[]) => {
+    try {
+      port?.send(data);
+    } catch (e) {
+      console.error("MIDI send failed", e);
+    }
+  };
+
+  const noteOff = (midiNote: number) => {
+    const channel = sounding.get(midiNote);
+    if (channel === undefined) return;
+    sounding.delete(midiNote);
+    send([NOTE_OFF | channel, midiNote, 0]);
+  };
+
+  // Releases everything we started, then tells the receiver to silence the channel too
+  const allNotesOff = () => {
+    const channels = new Set([...sounding.values(), settings.channel - 1]);
+    [...sounding.keys()].forEach(noteOff);
+    channels.forEach(channel => send([CONTROL_CHANGE | channel, ALL_NOTES_OFF, 0]));
+  };
+
+  return {
+    noteOn: (midiNote, { velocity = 1 }: NoteOptions = {}) => {
+      if (!port) return;
+      if (sounding.has(midiNote)) noteOff(midiNote);
+      const channel = settings.channel - 1;
+      const value = Math.min(127, Math.max(1, Math.round(settings.velocity * velocity)));
+      send([NOTE_ON | channel, midiNote, value]);
+      sounding.set(midiNote, channel);
+    },
+
+    noteOff: (midiNote) => noteOff(midiNote),
+
+    allNotesOff,
+
+    isPlaying: (midiNote) => sounding.has(midiNote),
+
+    setPort: (next) => {
+      if (next !== port) {
+        allNotesOff();
+        port = next;
+      }
+      settings = { ...settings, portId: next?.id ?? null };
+      persist();
+    },
+
+    getSettings: () => settings,
+
+    setSettings: (changes) => {
+      if (changes.channel !== undefined && changes.channel !== settings.channel) allNotesOff();
+      settings = { ...settings, ...changes };
+      persist();
+    },
+  };
+};
+
+export const midiOutput = createMidiOutput();
@@ -0,0 +1,63 @@
+import type { TheoryProvider } from "./provider";
+import { FIXTURE_RESPONSES } from "./fixtures";
+
+export interface MockProviderOptions {
+  responses?: Record<string, unknown>;
+  latencyMs?: number;
+  chunkSize?: number; // Characters per streamed chunk
+}
+
+const normalizePrompt = (prompt: string) => prompt.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Request aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Request aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+// Replays fixture responses instead of calling a model. Unknown prompts get an
+// empty answer, which surfaces as an EmptyResponseError like a real blank reply.
+export const createMockProvider = ({
+  responses = FIXTURE_RESPONSES,
+  latencyMs = 300,
+  chunkSize = 24,
+}: MockProviderOptions = {}): TheoryProvider => {
+  const fixtures = new Map(Object.entries(responses).map(([prompt, response]) => [normalizePrompt(prompt), response]));
+
+  const lookup = (prompt: string): string | undefined => {
+    const response = fixtures.get(normalizePrompt(prompt));
+    if (response === undefined) {
+      console.warn(`Mock provider has no fixture for "${prompt}"`);
+      return undefined;
+    }
+    return typeof response === 'string' ? response : JSON.stringify(response);
+  };
+
+  return {
+    id: 'mock',
+    label: 'Mock (fixtures)',
+    defaultModel: 'fixtures',
+
+    generate: async ({ prompt, signal }) => {
+      if (latencyMs > 0) await delay(latencyMs, signal);
+      return lookup(prompt);
+    },
+
+    // Spreads the same latency across the chunks so streaming is visible in the UI
+    async *generateStream({ prompt, signal }) {
+      const text = lookup(prompt) ?? '';
+      const chunks = Math.max(1, Math.ceil(text.length / chunkSize));
+      for (let i = 0; i < text.length; i += chunkSize) {
+        if (latencyMs > 0) await delay(latencyMs / chunks, signal);
+        yield text.slice(i, i + chunkSize);
+      }
+    },
+  };
+};
@@ -0,0 +1,133 @@
+import type { KeySignature } from './types';
+import { LETTERS, Letter, SpelledNote, midiNumber, parseNote } from './theory';
+
+// Layout for a grand staff: where every key-signature accidental, notehead and
+// written accidental goes. Vertical positions are diatonic steps (C0 = 0, one
+// per letter), so a line and the space above it are one step apart.
+
+export type Clef = 'treble' | 'bass';
+
+export interface StaffSymbol {
+  clef: Clef;
+  step: number;
+  accidental: number; // -2 ... +2, 0 = natural sign
+}
+
+export interface StaffNote {
+  name: string;
+  clef: Clef;
+  step: number;
+  column: number;              // Horizontal slot; chords share one
+  accidental: number | null;   // Written accidental, null when the signature/bar already covers it
+  accidentalColumn: number;    // 0 = next to the notehead, 1+ further left when stacked
+  shifted: boolean;            // Notehead moved right so a second doesn't collide
+}
+
+export interface StaffLayout {
+  keySignature: StaffSymbol[];
+  notes: StaffNote[];
+  columns: number;
+}
+
+// Outer lines of each staff
+export const STAFF_LINES: Record<Clef, { top: number; bottom: number }> = {
+  treble: { top: 38, bottom: 30 }, // F5 ... E4
+  bass: { top: 26, bottom: 18 },   // A3 ... G2
+};
+
+// Conventional places for signature accidentals on the treble staff; bass sits two octaves lower
+const SHARP_STEPS = [38, 35, 39, 36, 33, 37, 34]; // F5 C5 G5 D5 A4 E5 B4
+const FLAT_STEPS = [34, 37, 33, 36, 32, 35, 31];  // B4 E5 A4 D5 G4 C5 F4
+
+export const staffStep = (note: SpelledNote): number => (note.octave ?? 4) * 7 + LETTERS.indexOf(note.letter);
+
+// Middle C and up go on the treble staff
+export const clefFor = (note: SpelledNote): Clef => (midiNumber(note) >= 60 ? 'treble' : 'bass');
+
+export const signatureAlterations = (signature: KeySignature | undefined): Map<Letter, number> => {
+  const alterations = new Map<Letter, number>();
+  signature?.notes.forEach(name => {
+    const note = parseNote(name);
+    if (note) alterations.set(note.letter, note.accidental);
+  });
+  return alterations;
+};
+
+export const layoutKeySignature = (signature: KeySignature | undefined): StaffSymbol[] => {
+  if (!signature || signature.type === 'none') return [];
+  const sharps = signature.type === 'sharp';
+  const steps = sharps ? SHARP_STEPS : FLAT_STEPS;
+  const order: Letter[] = sharps ? ['F', 'C', 'G', 'D', 'A', 'E', 'B'] : ['B', 'E', 'A', 'D', 'G', 'C', 'F'];
+  // Theoretical keys past seven accidentals turn the first ones into doubles in place
+  const alterations = signatureAlterations(signature);
+  return (['treble', 'bass'] as Clef[]).flatMap(clef =>
+    order.slice(0, Math.min(signature.count, 7)).map((letter, i) => ({
+      clef,
+      step: clef === 'treble' ? steps[i] : steps[i] - 14,
+      accidental: alterations.get(letter) ?? (sharps ? 1 : -1),
+    }))
+  );
+};
+
+// Notes without an octave are stacked upwards from middle C
+const withOctaves = (notes: SpelledNote[]): SpelledNote[] => {
+  const placed: SpelledNote[] = [];
+  for (const note of notes) {
+    if (note.octave !== undefined) {
+      placed.push(note);
+      continue;
+    }
+    let octave = placed.length ? placed[placed.length - 1].octave! : 4;
+    while (placed.length && midiNumber({ ...note, octave }) <= midiNumber(placed[placed.length - 1])) octave++;
+    placed.push({ ...note, octave });
+  }
+  return placed;
+};
+
+// `chord` stacks every note in one column; otherwise they read left to right in one bar
+export const layoutStaff = (names: string[], signature?: KeySignature, chord = false): StaffLayout => {
+  const keyAlterations = signatureAlterations(signature);
+  // Accidentals hold for the rest of the bar at the same staff position
+  const barAlterations = new Map<number, number>();
+
+  const valid = names.filter(name => parseNote(name) !== null);
+  const parsed = withOctaves(valid.map(name => parseNote(name)!));
+  const notes: StaffNote[] = parsed.map((note, i) => {
+    const step = staffStep(note);
+    const current = barAlterations.get(step) ?? keyAlterations.get(note.letter) ?? 0;
+    const accidental = current === note.accidental ? null : note.accidental;
+    barAlterations.set(step, note.accidental);
+    return {
+      name: valid[i],
+      clef: clefFor(note),
+      step,
+      column: chord ? 0 : i,
+      accidental,
+      accidentalColumn: 0,
+      shifted: false,
+    };
+  });
+
+  if (chord) {
+    const stacked = [...notes].sort((a, b) => a.step - b.step);
+    // Seconds: every other notehead of a cluster moves to the right of the stem line
+    stacked.forEach((note, i) => {
+      const below = stacked[i - 1];
+      note.shifted = !!below && below.clef === note.clef && note.step - below.step === 1 && !below.shifted;
+    });
+    // Accidentals closer than a sixth apart step left, top down
+    const withAccidentals = stacked.filter(n => n.accidental !== null).reverse();
+    withAccidentals.forEach((note, i) => {
+      const clashes = withAccidentals
+        .slice(0, i)
+        .filter(other => other.clef === note.clef && Math.abs(other.step - note.step) < 6);
+      while (clashes.some(other => other.accidentalColumn === note.accidentalColumn)) note.accidentalColumn++;
+    });
+  }
+
+  return {
+    keySignature: layoutKeySignature(signature),
+    notes,
+    columns: chord ? (notes.length ? 1 : 0) : notes.length,
+  };
+};
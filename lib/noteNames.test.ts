@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { displayChordSymbol, displayNote, notePitchClass, parseNoteName, toEnglishNoteNames } from './noteNames';
+import { parseNote } from './theory';
+
+describe('parseNoteName', () => {
+  it('reads every naming system', () => {
+    expect(parseNoteName('F♯')).toEqual({ letter: 'F', accidental: 1 });
+    expect(parseNoteName('Bbb')).toEqual({ letter: 'B', accidental: -2 });
+    expect(parseNoteName('Fisis')).toEqual({ letter: 'F', accidental: 2 });
+    expect(parseNoteName('H')).toEqual({ letter: 'B', accidental: 0 });
+    expect(parseNoteName('As')).toEqual({ letter: 'A', accidental: -1 });
+    expect(parseNoteName('Sol♭')).toEqual({ letter: 'G', accidental: -1 });
+    expect(parseNoteName('Do#4')).toEqual({ letter: 'C', accidental: 1, octave: 4 });
+  });
+
+  it('reads a bare B as B flat only in German', () => {
+    expect(parseNoteName('B')).toEqual({ letter: 'B', accidental: 0 });
+    expect(parseNoteName('B', { naming: 'german' })).toEqual({ letter: 'B', accidental: -1 });
+  });
+
+  it('reads movable do from the tonic', () => {
+    expect(parseNoteName('Ti', { naming: 'movable-do', tonic: parseNote('D')! })).toEqual({ letter: 'C', accidental: 1 });
+  });
+
+  it('gives -1 for anything that is not a note', () => {
+    expect(notePitchClass('Db')).toBe(1);
+    expect(notePitchClass('x')).toBe(-1);
+  });
+});
+
+describe('displayNote', () => {
+  it('writes stored names in each system', () => {
+    expect(['Bb', 'B', 'Eb', 'F##'].map(n => displayNote(n, 'german'))).toEqual(['B', 'H', 'Es', 'Fisis']);
+    expect(displayNote('F#', 'unicode')).toBe('F♯');
+    expect(displayNote('Ab4', 'fixed-do')).toBe('La♭4');
+    expect(['D', 'F#', 'C'].map(n => displayNote(n, 'movable-do', 'D'))).toEqual(['Do', 'Mi', 'Te']);
+  });
+});
+
+describe('displayChordSymbol', () => {
+  it('renames the root and bass only', () => {
+    expect(displayChordSymbol('Bbm7b5', 'german')).toBe('Bm7b5');
+    expect(displayChordSymbol('Ebdim7/C', 'fixed-do')).toBe('Mi♭dim7/Do');
+    expect(displayChordSymbol('F#maj7', 'english')).toBe('F#maj7');
+  });
+});
+
+describe('toEnglishNoteNames', () => {
+  it('rewrites German and solfège note names', () => {
+    expect(toEnglishNoteNames('Fis Dur und B Moll, H7', 'german')).toBe('F# Dur und Bb Moll, B7');
+    expect(toEnglishNoteNames('Sol♭ major', 'fixed-do')).toBe('Gb major');
+    expect(toEnglishNoteNames('C♯ minor', 'unicode')).toBe('C# minor');
+  });
+
+  it('leaves ordinary words alone', () => {
+    expect(toEnglishNoteNames('As a jazz player, what is As Dur?', 'german')).toBe('As a jazz player, what is Ab Dur?');
+    expect(toEnglishNoteNames('Do you know La minor?', 'fixed-do')).toBe('Do you know A minor?');
+  });
+
+  it('only reads the chosen system', () => {
+    expect(toEnglishNoteNames('B Major', 'english')).toBe('B Major');
+    expect(toEnglishNoteNames('La minor', 'german')).toBe('La minor');
+  });
+});
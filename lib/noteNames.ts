@@ -0,0 +1,236 @@
+import {
+  Letter,
+  SpelledNote,
+  formatInterval,
+  formatNote,
+  intervalBetween,
+  parseInterval,
+  parseNote,
+  pitchClass,
+  transposeNote,
+} from './theory';
+import { readStorage, writeStorage } from './storage';
+
+// Note names in other systems. Results are always stored with English names
+// ("F#", "Bb"); these helpers read what people type in any system and show
+// stored names in the one they prefer.
+
+export type NoteNaming = 'english' | 'unicode' | 'german' | 'fixed-do' | 'movable-do';
+
+export const NOTE_NAMINGS: { id: NoteNaming; label: string; example: string }[] = [
+  { id: 'english', label: 'English', example: 'C# Bb' },
+  { id: 'unicode', label: 'English ♯/♭', example: 'C♯ B♭' },
+  { id: 'german', label: 'German', example: 'Cis B H' },
+  { id: 'fixed-do', label: 'Fixed do', example: 'Do♯ Si♭' },
+  { id: 'movable-do', label: 'Movable do', example: 'Do Re Mi (from the root)' },
+];
+
+export interface NoteNameOptions {
+  naming?: NoteNaming;  // Decides the ambiguous names: German "B" and movable-do syllables
+  tonic?: SpelledNote;  // "Do" for movable do; without one it reads as fixed do
+}
+
+const UNICODE_ACCIDENTALS: Record<number, string> = { [-2]: '𝄫', [-1]: '♭', 1: '♯', 2: '𝄪' };
+
+const accidentalValue = (text: string): number | null => {
+  const normalized = text.replace(/♯/g, '#').replace(/♭/g, 'b').replace(/𝄪/g, '##').replace(/𝄫/g, 'bb').replace(/^x$/, '##');
+  return ({ '': 0, '#': 1, '##': 2, 'b': -1, 'bb': -2 } as Record<string, number>)[normalized] ?? null;
+};
+
+const ACCIDENTAL = '(##|#|x|bb|b|♯♯|♯|♭♭|♭|𝄪|𝄫)?';
+const OCTAVE = '(-?\\d+)?';
+
+const withOctave = (note: SpelledNote, octave?: string): SpelledNote =>
+  octave !== undefined ? { ...note, octave: parseInt(octave, 10) } : note;
+
+// --- English (with Unicode accidentals) ---
+
+const ENGLISH_PATTERN = new RegExp(`^([A-Ga-g])${ACCIDENTAL}${OCTAVE}$`, 'u');
+
+const parseEnglish = (text: string): SpelledNote | null => {
+  const match = text.match(ENGLISH_PATTERN);
+  if (!match) return null;
+  const accidental = accidentalValue(match[2] ?? '');
+  if (accidental === null) return null;
+  return withOctave({ letter: match[1].toUpperCase() as Letter, accidental }, match[3]);
+};
+
+// --- German: H is B natural, B is B flat, "is"/"es" suffixes ---
+
+const GERMAN_PATTERN = /^([A-Ha-h])((?:is|es|s|as)*)(-?\d+)?$/;
+
+const parseGerman = (text: string, naming?: NoteNaming): SpelledNote | null => {
+  const match = text.match(GERMAN_PATTERN);
+  if (!match) return null;
+  const [, rawLetter, suffix, octave] = match;
+  const upper = rawLetter.toUpperCase();
+
+  let accidental: number;
+  if (/^(is)*$/.test(suffix)) accidental = suffix.length / 2;
+  else if (/^(es)+$/.test(suffix) && upper !== 'E' && upper !== 'A') accidental = -suffix.length / 2;
+  else if (/^s(es|as)?$/.test(suffix) && (upper === 'E' || upper === 'A')) accidental = suffix === 's' ? -1 : -2;
+  else return null;
+
+  if (upper === 'H') return withOctave({ letter: 'B', accidental }, octave);
+  // A bare "B" only means B flat to someone reading German names
+  if (upper === 'B' && suffix === '') return withOctave({ letter: 'B', accidental: naming === 'german' ? -1 : 0 }, octave);
+  if (upper === 'B') return null;
+  return withOctave({ letter: upper as Letter, accidental }, octave);
+};
+
+// --- Solfège ---
+
+const FIXED_DO: Record<string, Letter> = { do: 'C', re: 'D', mi: 'E', fa: 'F', sol: 'G', so: 'G', la: 'A', si: 'B', ti: 'B' };
+const FIXED_DO_NAMES: Record<Letter, string> = { C: 'Do', D: 'Re', E: 'Mi', F: 'Fa', G: 'Sol', A: 'La', B: 'Si' };
+
+// Chromatic movable-do syllables and the interval above "do" each one stands for
+const MOVABLE_DO: Record<string, string> = {
+  do: '1', di: '#1', ra: 'b2', re: '2', ri: '#2', me: 'b3', mi: '3', fa: '4', fi: '#4', se: 'b5',
+  sol: '5', so: '5', si: '#5', le: 'b6', la: '6', li: '#6', te: 'b7', ti: '7',
+};
+const MOVABLE_DO_NAMES: Record<string, string> = Object.fromEntries(
+  Object.entries(MOVABLE_DO).filter(([syllable]) => syllable !== 'so').map(([syllable, label]) => [label, syllable[0].toUpperCase() + syllable.slice(1)])
+);
+
+const SOLFEGE_PATTERN = new RegExp(`^(sol|so|do|di|ra|re|ri|me|mi|fa|fi|se|si|le|la|li|te|ti)${ACCIDENTAL}${OCTAVE}$`, 'iu');
+
+const parseSolfege = (text: string, { naming, tonic }: NoteNameOptions): SpelledNote | null => {
+  const match = text.match(SOLFEGE_PATTERN);
+  if (!match) return null;
+  const syllable = match[1].toLowerCase();
+  const accidental = accidentalValue(match[2] ?? '');
+  if (accidental === null) return null;
+
+  if (naming === 'movable-do' && tonic && MOVABLE_DO[syllable] && accidental === 0) {
+    const note = transposeNote({ ...tonic, octave: undefined }, parseInterval(MOVABLE_DO[syllable])!);
+    return withOctave(note, match[3]);
+  }
+  const letter = FIXED_DO[syllable];
+  return letter ? withOctave({ letter, accidental }, match[3]) : null;
+};
+
+// Reads a note in any of the systems: "F#", "F♯", "Fisis", "H", "Sol♭", "Ti" ...
+export const parseNoteName = (text: string, options: NoteNameOptions = {}): SpelledNote | null => {
+  const name = text.trim();
+  if (!name) return null;
+  if (options.naming === 'german' && /^b-?\d*$/i.test(name)) return parseGerman(name, options.naming);
+  return parseEnglish(name) ?? parseGerman(name, options.naming) ?? parseSolfege(name, options);
+};
+
+// Pitch class (0-11) of a note name in any system, or -1 if it isn't one
+export const notePitchClass = (text: string): number => {
+  const note = parseNoteName(text);
+  return note ? pitchClass(note) : -1;
+};
+
+// --- Formatting ---
+
+const unicodeAccidental = (accidental: number): string => UNICODE_ACCIDENTALS[accidental] ?? '';
+
+const germanName = ({ letter, accidental }: SpelledNote): string => {
+  if (letter === 'B') {
+    if (accidental === 0) return 'H';
+    if (accidental === -1) return 'B';
+    if (accidental < 0) return 'Heses';
+    return 'H' + 'is'.repeat(accidental);
+  }
+  if (accidental >= 0) return letter + 'is'.repeat(accidental);
+  // Es and As, not Ees and Aes
+  if (letter === 'E' || letter === 'A') return letter + 's' + 'es'.repeat(-accidental - 1);
+  return letter + 'es'.repeat(-accidental);
+};
+
+export const formatNoteName = (note: SpelledNote, naming: NoteNaming, tonic?: SpelledNote): string => {
+  const octave = note.octave ?? '';
+  switch (naming) {
+    case 'english':
+      return formatNote(note);
+    case 'unicode':
+      return `${note.letter}${unicodeAccidental(note.accidental)}${octave}`;
+    case 'german':
+      return `${germanName(note)}${octave}`;
+    case 'fixed-do':
+      return `${FIXED_DO_NAMES[note.letter]}${unicodeAccidental(note.accidental)}${octave}`;
+    case 'movable-do': {
+      if (!tonic) return formatNoteName(note, 'fixed-do');
+      const syllable = MOVABLE_DO_NAMES[formatInterval(intervalBetween(tonic, note))];
+      // Doubly altered degrees have no syllable
+      return syllable ? `${syllable}${octave}` : formatNoteName(note, 'unicode');
+    }
+  }
+};
+
+// A stored (English) name shown in `naming`; anything unreadable is shown as is
+export const displayNote = (name: string, naming: NoteNaming, tonic?: string): string => {
+  if (naming === 'english') return name;
+  const note = parseNote(name);
+  if (!note) return name;
+  return formatNoteName(note, naming, tonic ? parseNote(tonic) ?? undefined : undefined);
+};
+
+// A chord symbol ("F#m7", "Ebdim7/C") with its root and bass written in `naming`
+export const displayChordSymbol = (symbol: string, naming: NoteNaming): string => {
+  if (naming === 'english') return symbol;
+  const match = symbol.match(/^([A-G](?:##|bb|#|b)?)(.*?)(?:\/([A-G](?:##|bb|#|b)?))?$/);
+  if (!match) return symbol;
+  const [, root, quality, bass] = match;
+  return `${displayNote(root, naming)}${quality}${bass ? `/${displayNote(bass, naming)}` : ''}`;
+};
+
+// --- Prompts ---
+
+// Capitalised words only (a chord number may follow), so "what do I play" stays English while "Do minor" is read as a note
+const NOTE_WORD = /(?<![\p{L}\d])\p{Lu}\p{Ll}*(?:##|#|♯♯|♯|♭♭|♭|𝄪|𝄫)?(?![\p{L}#♯♭])/gu;
+
+// Words that can follow a note name in a query
+const MUSIC_WORDS = new Set([
+  'major', 'minor', 'dur', 'moll', 'maj', 'min', 'm', 'dim', 'aug', 'sus', 'add', 'scale', 'chord', 'mode', 'key',
+  'ionian', 'dorian', 'phrygian', 'lydian', 'mixolydian', 'aeolian', 'locrian', 'natural', 'harmonic', 'melodic',
+  'pentatonic', 'blues', 'bebop', 'diminished', 'augmented', 'dominant', 'half', 'altered', 'whole',
+]);
+
+const plainAccidentals = (text: string): string =>
+  text.replace(/𝄪/g, '##').replace(/𝄫/g, 'bb').replace(/♯/g, '#').replace(/♭/g, 'b');
+
+// Rewrites note names in a typed query into English so the parser and the model read them.
+// Only the chosen system is read, so German users' "As" and solfège users' "La" don't clash.
+// Names that are also English words ("As", "Do", "La") only count next to something
+// musical, so "As a jazz player" and "Do you know" are left alone.
+export const toEnglishNoteNames = (text: string, naming: NoteNaming): string => {
+  if (naming === 'english' || naming === 'unicode') return plainAccidentals(text);
+  const read = naming === 'german'
+    ? (word: string) => (word === 'B' ? null : parseEnglish(word)) ?? parseGerman(word, naming)
+    // A typed query has no key yet, so movable-do syllables are read from C
+    : (word: string) => parseSolfege(word, {}) ?? parseEnglish(word);
+  const inMusicalContext = (after: string) => {
+    const next = after.match(/^\s*([^\s,;.:!?()]*)/u)![1];
+    return next === '' || /^[\d/]/.test(after) || MUSIC_WORDS.has(next.toLowerCase()) || (/^\p{Lu}/u.test(next) && !!read(next));
+  };
+  return plainAccidentals(text.replace(NOTE_WORD, (word: string, offset: number) => {
+    const note = read(word);
+    if (!note) return word;
+    if (word.length > 1 && !/[#♯♭𝄪𝄫]/u.test(word) && !inMusicalContext(text.slice(offset + word.length))) return word;
+    return formatNote(note);
+  }));
+};
+
+// Asks the model to write its prose in the chosen names; the structured fields stay English
+export const namingInstruction = (naming: NoteNaming): string => {
+  if (naming === 'english') return '';
+  const { label, example } = NOTE_NAMINGS.find(n => n.id === naming)!;
+  return `\n\nIn the description, write note names in ${label} notation (e.g. ${example}). ` +
+    'Keep the root, notes, voicing and progression fields in English letter names with # and b.';
+};
+
+// --- Setting ---
+
+const NAMING_STORAGE_KEY = 'theorygen_note_naming';
+
+export const loadNoteNaming = (): NoteNaming => {
+  const saved = readStorage(NAMING_STORAGE_KEY);
+  return NOTE_NAMINGS.some(n => n.id === saved) ? (saved as NoteNaming) : 'english';
+};
+
+export const saveNoteNaming = (naming: NoteNaming) => {
+  writeStorage(NAMING_STORAGE_KEY, naming);
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { parseChordSymbol, parseMusicQuery } from './parser';
+
+const named = (query: string) => {
+  const result = parseMusicQuery(query);
+  return result && `${result.root} ${result.type}`;
+};
+
+describe('parseMusicQuery', () => {
+  it('resolves scale names with the root first or last', () => {
+    expect(named('Bb dorian')).toBe('Bb Dorian');
+    expect(named('C Major Scale')).toBe('C Major');
+    expect(named('Blues Scale in A')).toBe('A Blues');
+    expect(named('F♯ Lydian')).toBe('F# Lydian');
+  });
+
+  it('resolves chord symbols', () => {
+    expect(parseMusicQuery('Cmaj7#11')?.notes).toEqual(['C', 'E', 'G', 'B', 'F#']);
+    expect(parseMusicQuery('F#m7b5')?.notes).toEqual(['F#', 'A', 'C', 'E']);
+    expect(parseMusicQuery('Co7')?.notes).toEqual(['C', 'Eb', 'Gb', 'Bbb']);
+  });
+
+  it('defaults root-less scales to C', () => {
+    expect(named('Whole Tone Scale')).toBe('C Whole Tone');
+  });
+
+  it('reads Roman numeral progressions', () => {
+    const result = parseMusicQuery('ii-V-I in Bb');
+    expect(result?.category).toBe('progression');
+    expect(result?.progression?.map(c => c.symbol)).toEqual(['Cm', 'F', 'Bb']);
+  });
+
+  it('leaves free-form questions to the model', () => {
+    for (const query of ['Go', 'Do', 'go', 'What is a tritone?', 'A jazz voicing for Cmaj7']) {
+      expect(parseMusicQuery(query)).toBeNull();
+    }
+  });
+
+  it('gives the same structure when a result is asked for by its own name', () => {
+    for (const query of ['Eb Minor 9', 'G Mixolydian', 'C# Diminished 7', 'Db Major 7', 'A Harmonic Minor']) {
+      const result = parseMusicQuery(query)!;
+      expect(parseMusicQuery(`${result.root} ${result.type}`)?.notes).toEqual(result.notes);
+    }
+  });
+});
+
+describe('parseChordSymbol', () => {
+  it('names altered chords after their base', () => {
+    expect(parseChordSymbol('7alt')?.intervals).toEqual(['1', '3', '#5', 'b7', 'b9', '#9']);
+    expect(parseChordSymbol('maj7#11')?.name).toMatch(/Major 7th/);
+  });
+
+  it('leaves qualities without a formula to the model', () => {
+    expect(parseChordSymbol('dim9')).toBeNull();
+    expect(parseChordSymbol('aug9')).toBeNull();
+    expect(parseMusicQuery('Cdim9')).toBeNull();
+  });
+
+  it('gives altered chords the key signature of their base', () => {
+    expect(parseMusicQuery('Ebmaj7#11')?.keySignature).toEqual({ type: 'flat', count: 3, notes: ['Bb', 'Eb', 'Ab'] });
+    expect(parseMusicQuery('Cdim7b9')?.keySignature).toEqual({ type: 'none', count: 0, notes: [] });
+    expect(parseMusicQuery('Cm11b5')?.keySignature).toEqual({ type: 'none', count: 0, notes: [] });
+  });
+
+  it('rejects suffixes it cannot read', () => {
+    expect(parseChordSymbol('o')).toBeNull();
+    expect(parseChordSymbol('xyz')).toBeNull();
+  });
+});
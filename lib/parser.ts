@@ -0,0 +1,242 @@
+import type { MusicTheoryResponse } from './types';
+import {
+  CHORD_FORMULAS,
+  SCALE_FORMULAS,
+  SpelledNote,
+  StructureFormula,
+  buildStructure,
+  findFormula,
+  formatNote,
+  intervalSemitones,
+  normalizeStructureName,
+  parseInterval,
+  parseNote,
+  transposeNote,
+} from './theory';
+import { parseProgression } from './harmony';
+
+// Offline resolver for plain scale names, chord symbols and Roman numeral
+// progressions ("Bb dorian", "Cmaj7#11", "Blues Scale in A", "ii-V-I in Bb"). Anything it can't read returns null so the
+// caller can fall back to the model.
+
+const ROOT_PATTERN = '([A-Ga-g](?:##|bb|#|b)?)';
+// Chord symbols are only read with a capital root so words like "go" stay free-form; the
+// bare "o" for diminished is only taken in "Co7", so "Go" and "Do" aren't read as chords either
+const SYMBOL_ROOT_PATTERN = '([A-G](?:##|bb|#|b)?)';
+
+const COUNT_WORDS = ['', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve'];
+
+const sortIntervals = (labels: string[]): string[] =>
+  [...new Set(labels)].sort((a, b) => intervalSemitones(parseInterval(a)!) - intervalSemitones(parseInterval(b)!));
+
+const sameIntervals = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((label, i) => intervalSemitones(parseInterval(label)!) === intervalSemitones(parseInterval(b[i])!));
+
+const formulaForIntervals = (intervals: string[]): StructureFormula | undefined =>
+  CHORD_FORMULAS.find(f => sameIntervals(sortIntervals(f.intervals), intervals));
+
+// Builds a chord formula from a compact symbol suffix such as "maj7#11", "m7b5", "7sus4", "dim7" or "" (major triad)
+export const parseChordSymbol = (symbol: string): StructureFormula | null => {
+  const cleaned = symbol.replace(/[()\s,]/g, '');
+  let rest = cleaned;
+
+  let third: string | null = '3';
+  let fifth: string | null = '5';
+  let seventh: string | null = null;
+  let majorSeventh = false;
+  let diminished = false;
+  const extensions: string[] = [];
+  const alterations: string[] = [];
+
+  const take = (pattern: RegExp): RegExpMatchArray | null => {
+    const match = rest.match(pattern);
+    if (match) rest = rest.slice(match[0].length);
+    return match;
+  };
+
+  if (take(/^(maj|ma|M|Δ)/)) {
+    majorSeventh = true;
+  } else if (take(/^(min|mi|m|-)/)) {
+    third = 'b3';
+    if (take(/^(maj|ma|M|Δ)/)) majorSeventh = true;
+  } else if (take(/^(dim|°|o(?=7$))/)) {
+    third = 'b3';
+    fifth = 'b5';
+    diminished = true;
+  } else if (take(/^ø/)) {
+    third = 'b3';
+    fifth = 'b5';
+    seventh = 'b7';
+  } else if (take(/^(aug|\+)/)) {
+    fifth = '#5';
+  }
+
+  const extension = take(/^(6\/9|69|13|11|9|7|6|5)/)?.[0];
+  const seventhLabel = majorSeventh ? '7' : diminished ? 'bb7' : 'b7';
+
+  switch (extension) {
+    case '5':
+      if (majorSeventh || third !== '3' || fifth !== '5') return null;
+      third = null;
+      break;
+    case '6':
+      extensions.push('6');
+      break;
+    case '6/9':
+    case '69':
+      extensions.push('6', '9');
+      break;
+    case '7':
+      seventh = seventhLabel;
+      break;
+    case '9':
+      seventh = seventhLabel;
+      extensions.push('9');
+      break;
+    case '11':
+      seventh = seventhLabel;
+      extensions.push('9', '11');
+      break;
+    case '13':
+      seventh = seventhLabel;
+      extensions.push('9', '13');
+      if (third === 'b3') extensions.push('11');
+      break;
+    default:
+      // "Cmaj" on its own is just a major triad
+      majorSeventh = false;
+  }
+
+  const baseSymbol = cleaned.slice(0, cleaned.length - rest.length);
+
+  while (rest.length > 0) {
+    let match: RegExpMatchArray | null;
+    if ((match = take(/^sus(2|4)?/))) {
+      third = match[1] === '2' ? '2' : '4';
+      alterations.push(match[0]);
+    } else if ((match = take(/^add(2|4|6|9|11|13)/))) {
+      extensions.push(match[1]);
+      alterations.push(match[0]);
+    } else if ((match = take(/^(b|#)(5|9|11|13)/))) {
+      const [label, , degree] = match;
+      if (degree === '5') fifth = label;
+      else {
+        const index = extensions.indexOf(degree);
+        if (index !== -1) extensions.splice(index, 1);
+        extensions.push(label);
+        if (!seventh && extension !== '6') seventh = 'b7';
+      }
+      alterations.push(label);
+    } else if ((match = take(/^alt/))) {
+      seventh = seventh ?? 'b7';
+      fifth = '#5';
+      extensions.push('b9', '#9');
+      alterations.push('alt');
+    } else if ((match = take(/^no(3|5)/))) {
+      if (match[1] === '3') third = null;
+      else fifth = null;
+      alterations.push(match[0]);
+    } else {
+      return null;
+    }
+  }
+
+  const intervals = sortIntervals(['1', third, fifth, seventh, ...extensions].filter((l): l is string => !!l));
+  const known = formulaForIntervals(intervals);
+  if (known) return known;
+
+  // Name altered chords after their unaltered base, e.g. "Major 7th #11", and take its key
+  // signature unless the alterations leave a diminished triad, which has none. A quality the
+  // formula table doesn't know, like "dim9", is left to the model.
+  const base = baseSymbol !== cleaned ? parseChordSymbol(baseSymbol) : null;
+  if (!base) return null;
+  return {
+    name: `${base.name} ${alterations.join(' ')}`,
+    category: 'chord',
+    intervals,
+    aliases: [],
+    tonality: third === 'b3' && fifth === 'b5' ? undefined : base.tonality,
+  };
+};
+
+const describe = (root: SpelledNote, formula: StructureFormula, notes: string[]): string => {
+  const rootName = formatNote(root);
+  const size = COUNT_WORDS[notes.length] ?? String(notes.length);
+
+  if (formula.category === 'chord') {
+    return `${rootName} ${formula.name} is a ${size}-note chord built from the intervals ${formula.intervals.join(' ')}.`;
+  }
+
+  const parent = formula.tonality && formula.tonality !== '1'
+    ? ` It shares its key signature with ${formatNote(transposeNote(root, parseInterval(formula.tonality)!))} Major.`
+    : '';
+  return `${rootName} ${formula.name} is a ${size}-note scale built on the intervals ${formula.intervals.join(' ')}.${parent}`;
+};
+
+// A full result for a structure on a root, as if it had been typed in
+export const structureResponse = (root: SpelledNote, formula: StructureFormula): MusicTheoryResponse => {
+  const structure = buildStructure(root, formula);
+  return {
+    root: formatNote(root),
+    type: formula.name,
+    category: formula.category,
+    notes: structure.notes,
+    intervals: structure.intervals,
+    description: describe(root, formula, structure.notes),
+    keySignature: structure.keySignature,
+  };
+};
+
+const lookupName = (name: string, preferChord: boolean): StructureFormula | undefined => {
+  const order: Array<'scale' | 'chord'> = preferChord ? ['chord', 'scale'] : ['scale', 'chord'];
+  for (const category of order) {
+    const formula = findFormula(name, category);
+    if (formula) return formula;
+  }
+  return undefined;
+};
+
+// Resolves a query locally, or returns null when it needs the model
+export const parseMusicQuery = (query: string): MusicTheoryResponse | null => {
+  const text = query.trim().replace(/♯/g, '#').replace(/♭/g, 'b').replace(/\s+/g, ' ');
+  if (!text) return null;
+
+  // "ii-V-I in Bb"
+  const progression = parseProgression(text);
+  if (progression) return progression;
+
+  const mentionsChord = /\bchord\b/i.test(text);
+  const mentionsScale = /\b(scale|mode)\b/i.test(text);
+  const resolve = (rootName: string, name: string): MusicTheoryResponse | null => {
+    const root = parseNote(rootName);
+    if (!root) return null;
+    const formula = lookupName(name, mentionsChord && !mentionsScale);
+    return formula ? structureResponse(root, formula) : null;
+  };
+
+  // "Blues Scale in A", "Dorian mode of D"
+  const suffixRoot = text.match(new RegExp(`^(.+?) (?:in|of|on) ${ROOT_PATTERN}$`, 'i'));
+  if (suffixRoot) return resolve(suffixRoot[2], suffixRoot[1]);
+
+  // "Bb dorian", "Eb Minor 9", "C Major Scale"
+  const prefixRoot = text.match(new RegExp(`^${ROOT_PATTERN} (.+)$`));
+  if (prefixRoot) {
+    const resolved = resolve(prefixRoot[1], prefixRoot[2]);
+    if (resolved) return resolved;
+  }
+
+  // "Cmaj7#11", "F#m7b5", "C"
+  const symbol = text.replace(/ chord$/i, '').match(new RegExp(`^${SYMBOL_ROOT_PATTERN}(\\S*)$`));
+  if (symbol && !mentionsScale) {
+    const root = parseNote(symbol[1]);
+    const formula = parseChordSymbol(symbol[2]);
+    if (root && formula) return structureResponse(root, formula);
+  }
+
+  // Root-less scale names ("Whole Tone Scale") default to C
+  const bare = normalizeStructureName(text);
+  const rootless = SCALE_FORMULAS.find(f => f.aliases.includes(bare) || normalizeStructureName(f.name) === bare);
+  if (rootless && !mentionsChord) return structureResponse(parseNote('C')!, rootless);
+
+  return null;
+};
@@ -0,0 +1,99 @@
+// Best-effort reader for JSON that is still streaming in. It closes whatever is
+// open so the fields received so far can be used, and never throws.
+
+interface Frame {
+  type: 'object' | 'array';
+  expectKey: boolean;
+  key?: string;
+}
+
+export interface PartialJson {
+  value: unknown;
+  // Top-level key whose string value was cut off and closed early, if any
+  openKey?: string;
+}
+
+const complete = (text: string): PartialJson | null => {
+  const stack: Frame[] = [];
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let stringIsKey = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    const top = stack[stack.length - 1];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (ch === '\\') {
+        escaped = true;
+      } else if (ch === '"') {
+        inString = false;
+        if (stringIsKey && top) {
+          top.key = JSON.parse(text.slice(stringStart, i + 1));
+          top.expectKey = false;
+        }
+      }
+      continue;
+    }
+
+    switch (ch) {
+      case '"':
+        inString = true;
+        stringStart = i;
+        stringIsKey = top?.type === 'object' && top.expectKey;
+        break;
+      case '{':
+        stack.push({ type: 'object', expectKey: true });
+        break;
+      case '[':
+        stack.push({ type: 'array', expectKey: false });
+        break;
+      case '}':
+      case ']':
+        stack.pop();
+        break;
+      case ',':
+        if (top?.type === 'object') top.expectKey = true;
+        break;
+    }
+  }
+
+  const top = stack[stack.length - 1];
+  let body = text;
+  let openKey: string | undefined;
+
+  if (inString) {
+    if (top?.type === 'object' && !stringIsKey) {
+      // A value string still streaming in: keep what we have
+      body = (escaped ? body.slice(0, -1) : body).replace(/\\u[0-9a-fA-F]{0,3}$/, '') + '"';
+      if (stack.length === 1) openKey = top.key;
+    } else {
+      // Half a key or half an array item is useless ("F" might become "F#")
+      body = body.slice(0, stringStart);
+    }
+  } else {
+    // A trailing number may still be growing
+    body = body.replace(/([:[,]\s*)-?\d[\d.eE+-]*$/, '$1');
+  }
+
+  body = body.replace(/[\s,]+$/, '');
+  const closers = stack.map(frame => (frame.type === 'object' ? '}' : ']')).reverse().join('');
+
+  try {
+    return { value: JSON.parse(body + closers), openKey };
+  } catch {
+    return null;
+  }
+};
+
+export const parsePartialJson = (text: string): PartialJson | null => {
+  // Dangling keys, colons and half-written literals can't be closed; back off until it parses
+  for (let end = text.length; end > 0; end--) {
+    const result = complete(text.slice(0, end));
+    if (result) return result;
+  }
+  return null;
+};
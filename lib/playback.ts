@@ -0,0 +1,99 @@
+import type { AudioEngine } from './audio';
+import { instrument } from './instrument';
+
+export type PlaybackPattern = 'ascending' | 'descending' | 'chord' | 'arpeggio';
+
+export interface PlaybackOptions {
+  bpm: number;
+  noteLength: number; // Fraction of each step the note is held, 0-1
+  engine?: AudioEngine;
+  onSoundingChange?: (sounding: number[]) => void;
+}
+
+export interface Playback {
+  stop(): void;
+  done: Promise<void>;
+}
+
+interface Step {
+  notes: number[];
+  beats: number;
+}
+
+// Splits the notes into timed steps. Arpeggios run up and back down in eighth notes.
+export const patternSteps = (notes: number[], pattern: PlaybackPattern): Step[] => {
+  switch (pattern) {
+    case 'ascending':
+      return notes.map(n => ({ notes: [n], beats: 1 }));
+    case 'descending':
+      return [...notes].reverse().map(n => ({ notes: [n], beats: 1 }));
+    case 'chord':
+      return notes.length ? [{ notes, beats: 4 }] : [];
+    case 'arpeggio':
+      return [...notes, ...notes.slice(1, -1).reverse()].map(n => ({ notes: [n], beats: 0.5 }));
+  }
+};
+
+export interface StepOptions extends PlaybackOptions {
+  onStep?: (index: number) => void;
+}
+
+// Runs timed steps through the engine and reports which notes are sounding so the
+// keyboard can light them up. Timing uses plain timers, which is plenty for a demo.
+const playSteps = (
+  steps: Step[],
+  { bpm, noteLength, engine = instrument, onSoundingChange, onStep }: StepOptions
+): Playback => {
+  const beatMs = 60000 / bpm;
+  const sounding = new Set<number>();
+  const timers: ReturnType<typeof setTimeout>[] = [];
+  let finish: () => void = () => {};
+  const done = new Promise<void>(resolve => { finish = resolve; });
+
+  const report = () => onSoundingChange?.([...sounding]);
+
+  let at = 0;
+  steps.forEach((step, index) => {
+    const start = at;
+    const length = Math.max(step.beats * beatMs * noteLength, 30);
+    timers.push(setTimeout(() => {
+      onStep?.(index);
+      step.notes.forEach(n => {
+        engine.noteOn(n);
+        sounding.add(n);
+      });
+      report();
+    }, start));
+    timers.push(setTimeout(() => {
+      step.notes.forEach(n => {
+        engine.noteOff(n);
+        sounding.delete(n);
+      });
+      report();
+    }, start + length));
+    at += step.beats * beatMs;
+  });
+  timers.push(setTimeout(() => finish(), at));
+
+  return {
+    stop: () => {
+      timers.forEach(clearTimeout);
+      sounding.forEach(n => engine.noteOff(n, 0.05));
+      sounding.clear();
+      report();
+      finish();
+    },
+    done,
+  };
+};
+
+// Plays one set of MIDI notes (a scale or chord) in the given pattern
+export const playNotes = (notes: number[], pattern: PlaybackPattern, options: PlaybackOptions): Playback =>
+  playSteps(patternSteps(notes, pattern), options);
+
+// Plays chords one after another, `beatsPerChord` each; `onStep` fires as each one starts
+export const playSequence = (
+  chords: number[][],
+  beatsPerChord: number,
+  options: StepOptions
+): Playback => playSteps(chords.map(notes => ({ notes, beats: beatsPerChord })), options);
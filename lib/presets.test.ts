@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { MusicTheoryResponse } from './types';
+import {
+  PRESET_FORMAT_VERSION,
+  PresetFormatError,
+  loadPresets,
+  parsePresetLibrary,
+  readPresetDocument,
+  savePresets,
+  serializePresetLibrary,
+} from './presets';
+
+const C_MAJOR: MusicTheoryResponse = {
+  root: 'C',
+  type: 'Major',
+  category: 'scale',
+  notes: ['C', 'D', 'E', 'F', 'G', 'A', 'B'],
+  intervals: ['1', '2', '3', '4', '5', '6', '7'],
+  description: 'C Major',
+  keySignature: { type: 'none', count: 0, notes: [] },
+};
+
+const v1Entry = { id: '1', name: 'C Major', data: C_MAJOR, timestamp: 1 };
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  };
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('readPresetDocument', () => {
+  it('migrates the original bare array', () => {
+    const { presets, skipped } = readPresetDocument([v1Entry]);
+    expect(skipped).toEqual([]);
+    expect(presets).toEqual([{ ...v1Entry, notes: '', tags: [] }]);
+  });
+
+  it('migrates version 1 documents and keeps existing fields', () => {
+    const { presets } = readPresetDocument({ version: 1, presets: [{ ...v1Entry, tags: ['jazz'] }] });
+    expect(presets[0]).toMatchObject({ notes: '', tags: ['jazz'] });
+  });
+
+  it('rejects a version 1 document without a preset list', () => {
+    expect(() => readPresetDocument({ version: 1 })).toThrow(PresetFormatError);
+    expect(() => readPresetDocument({ version: 1, presets: 'none' })).toThrow('Library has no preset list');
+  });
+
+  it('rejects newer and unversioned documents', () => {
+    expect(() => readPresetDocument({ version: PRESET_FORMAT_VERSION + 1, presets: [] })).toThrow(PresetFormatError);
+    expect(() => readPresetDocument({ presets: [] })).toThrow('Not a preset library');
+  });
+
+  it('skips invalid entries and reports why', () => {
+    const { presets, skipped } = readPresetDocument({ version: 2, presets: [{ ...v1Entry, notes: '', tags: [] }, { id: '', name: 'Broken' }] });
+    expect(presets).toHaveLength(1);
+    expect(skipped).toEqual([{ index: 1, name: 'Broken', reason: 'presets[1].id should be a non-empty string' }]);
+  });
+});
+
+describe('library files', () => {
+  it('round-trips through export and import', () => {
+    const presets = readPresetDocument([v1Entry]).presets;
+    expect(parsePresetLibrary(serializePresetLibrary(presets)).presets).toEqual(presets);
+  });
+
+  it('rejects other JSON files', () => {
+    expect(() => parsePresetLibrary('{"format":"something-else","version":2,"presets":[]}')).toThrow('Not a preset library');
+    expect(() => parsePresetLibrary('not json')).toThrow('The file is not valid JSON');
+  });
+});
+
+describe('loadPresets', () => {
+  it('reads what savePresets wrote', () => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    const presets = readPresetDocument([v1Entry]).presets;
+    savePresets(presets);
+    expect(loadPresets()).toEqual({ presets, skipped: [] });
+  });
+
+  it('backs up a broken library and explains the problem', () => {
+    const storage = memoryStorage();
+    vi.stubGlobal('localStorage', storage);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    storage.setItem('theorygen_presets', '{"version":1}');
+    expect(loadPresets().skipped).toEqual([{ index: -1, reason: 'Library has no preset list' }]);
+    expect(storage.getItem('theorygen_presets_backup')).toBe('{"version":1}');
+  });
+});
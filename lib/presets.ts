@@ -0,0 +1,262 @@
+import type { MusicTheoryResponse } from './types';
+import { THEORY_SCHEMA, validateAgainstSchema } from './schema';
+import { parseNote, pitchClass } from './theory';
+import { readStorage, writeStorage, writeStoredJson } from './storage';
+
+// Saved results ("Your Library"). Stored and exported as a versioned document so
+// older saves and files from other browsers can be migrated forward on load.
+
+export interface Preset {
+  id: string;
+  name: string;
+  data: MusicTheoryResponse;
+  timestamp: number;
+  notes: string;
+  tags: string[];
+  folder?: string; // Unfiled when missing
+}
+
+export interface SkippedPreset {
+  index: number;  // Position in the stored or imported list
+  name?: string;  // When the entry had a readable name
+  reason: string;
+}
+
+export interface PresetLoadResult {
+  presets: Preset[];
+  skipped: SkippedPreset[];
+}
+
+export type DuplicateStrategy = 'skip' | 'replace' | 'keep-both';
+
+export interface PresetMergeResult {
+  presets: Preset[];
+  added: number;
+  replaced: number;
+  skipped: number;
+}
+
+export const PRESETS_STORAGE_KEY = 'theorygen_presets';
+export const PRESET_FORMAT_VERSION = 2;
+
+// Marks library files so an unrelated JSON file isn't mistaken for one
+const FILE_FORMAT = 'theorygen-library';
+
+export class PresetFormatError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'PresetFormatError';
+  }
+}
+
+interface PresetDocument {
+  version: number;
+  presets: unknown[];
+}
+
+const presetList = (document: unknown): unknown[] => {
+  const presets = document && typeof document === 'object' ? (document as Partial<PresetDocument>).presets : undefined;
+  if (!Array.isArray(presets)) throw new PresetFormatError('Library has no preset list');
+  return presets;
+};
+
+// MIGRATIONS[n] upgrades a version-n document to version n + 1
+const MIGRATIONS: ((document: unknown) => PresetDocument)[] = [
+  // 0 -> 1: the original format was the bare array
+  (presets) => ({ version: 1, presets: presets as unknown[] }),
+  // 1 -> 2: notes, tags and folders
+  (document) => ({
+    version: 2,
+    presets: presetList(document).map(entry =>
+      entry && typeof entry === 'object' ? { notes: '', tags: [], ...entry } : entry
+    ),
+  }),
+];
+
+const documentVersion = (raw: unknown): number => {
+  if (Array.isArray(raw)) return 0;
+  if (raw && typeof raw === 'object' && Number.isInteger((raw as PresetDocument).version)) {
+    return (raw as PresetDocument).version;
+  }
+  throw new PresetFormatError('Not a preset library');
+};
+
+const migrate = (raw: unknown): PresetDocument => {
+  let version = documentVersion(raw);
+  if (version > PRESET_FORMAT_VERSION) {
+    throw new PresetFormatError(`Library version ${version} is newer than this app supports (${PRESET_FORMAT_VERSION})`);
+  }
+  let document = raw;
+  while (version < PRESET_FORMAT_VERSION) {
+    document = MIGRATIONS[version](document);
+    version++;
+  }
+  return { version, presets: presetList(document) };
+};
+
+// Returns every problem with one entry; empty when it's a usable preset
+const validatePreset = (entry: unknown, path: string): string[] => {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return [`${path} should be an object`];
+  const record = entry as Record<string, unknown>;
+  const issues: string[] = [];
+  if (typeof record.id !== 'string' || !record.id) issues.push(`${path}.id should be a non-empty string`);
+  if (typeof record.name !== 'string') issues.push(`${path}.name should be a string`);
+  if (typeof record.timestamp !== 'number' || !Number.isFinite(record.timestamp)) issues.push(`${path}.timestamp should be a number`);
+  if (typeof record.notes !== 'string') issues.push(`${path}.notes should be a string`);
+  if (!Array.isArray(record.tags) || record.tags.some(t => typeof t !== 'string')) issues.push(`${path}.tags should be a list of strings`);
+  if (record.folder !== undefined && typeof record.folder !== 'string') issues.push(`${path}.folder should be a string`);
+  issues.push(...validateAgainstSchema(record.data, THEORY_SCHEMA, `${path}.data`));
+  return issues;
+};
+
+// Keeps the valid entries of a (possibly old) library document and reports the rest
+export const readPresetDocument = (raw: unknown): PresetLoadResult => {
+  const { presets: entries } = migrate(raw);
+  const presets: Preset[] = [];
+  const skipped: SkippedPreset[] = [];
+  entries.forEach((entry, index) => {
+    const issues = validatePreset(entry, `presets[${index}]`);
+    if (issues.length === 0) {
+      presets.push(entry as Preset);
+      return;
+    }
+    const name = (entry as Partial<Preset> | null)?.name;
+    skipped.push({ index, name: typeof name === 'string' ? name : undefined, reason: issues[0] });
+  });
+  return { presets, skipped };
+};
+
+export const parsePresetLibrary = (json: string): PresetLoadResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (e) {
+    throw new PresetFormatError('The file is not valid JSON', e);
+  }
+  if (raw && typeof raw === 'object' && 'format' in raw && (raw as { format: unknown }).format !== FILE_FORMAT) {
+    throw new PresetFormatError('Not a preset library');
+  }
+  return readPresetDocument(raw);
+};
+
+export const serializePresetLibrary = (presets: Preset[]): string =>
+  JSON.stringify({ format: FILE_FORMAT, version: PRESET_FORMAT_VERSION, exportedAt: new Date().toISOString(), presets }, null, 2);
+
+// Unreadable storage is copied aside so the next save can't destroy it
+export const loadPresets = (storageKey = PRESETS_STORAGE_KEY): PresetLoadResult => {
+  const saved = readStorage(storageKey);
+  if (!saved) return { presets: [], skipped: [] };
+  try {
+    const result = readPresetDocument(JSON.parse(saved));
+    if (result.skipped.length > 0) writeStorage(`${storageKey}_backup`, saved);
+    return result;
+  } catch (e) {
+    console.error("Failed to parse presets", e);
+    writeStorage(`${storageKey}_backup`, saved);
+    const reason = e instanceof PresetFormatError ? e.message : 'Saved library is not valid JSON';
+    return { presets: [], skipped: [{ index: -1, reason }] };
+  }
+};
+
+export const savePresets = (presets: Preset[], storageKey = PRESETS_STORAGE_KEY) => {
+  const document: PresetDocument = { version: PRESET_FORMAT_VERSION, presets };
+  writeStoredJson(storageKey, document);
+};
+
+// Same id, or the same name with the same result
+export const isDuplicatePreset = (a: Preset, b: Preset): boolean =>
+  a.id === b.id || (a.name === b.name && JSON.stringify(a.data) === JSON.stringify(b.data));
+
+export const countDuplicates = (existing: Preset[], incoming: Preset[]): number =>
+  incoming.filter(preset => existing.some(e => isDuplicatePreset(e, preset))).length;
+
+const uniqueId = (taken: Set<string>): string => {
+  let id = Date.now().toString();
+  for (let n = 1; taken.has(id); n++) id = `${Date.now()}-${n}`;
+  return id;
+};
+
+// Adds imported presets in front of the library. Duplicates are skipped, replace
+// the existing entry in place, or are kept alongside it under a fresh id.
+export const mergePresets = (existing: Preset[], incoming: Preset[], strategy: DuplicateStrategy): PresetMergeResult => {
+  const presets = [...existing];
+  const added: Preset[] = [];
+  let replaced = 0;
+  let skipped = 0;
+  const ids = new Set(existing.map(p => p.id));
+
+  for (const preset of incoming) {
+    const index = presets.findIndex(p => isDuplicatePreset(p, preset));
+    if (index !== -1 && strategy === 'skip') {
+      skipped++;
+    } else if (index !== -1 && strategy === 'replace') {
+      presets[index] = { ...preset, id: presets[index].id };
+      replaced++;
+    } else {
+      const id = ids.has(preset.id) ? uniqueId(ids) : preset.id;
+      ids.add(id);
+      added.push({ ...preset, id });
+    }
+  }
+
+  return { presets: [...added, ...presets], added: added.length, replaced, skipped };
+};
+
+// --- Organizing ---
+
+export type PresetSort = 'newest' | 'oldest' | 'name' | 'root';
+
+export const PRESET_SORTS: { id: PresetSort; label: string }[] = [
+  { id: 'newest', label: 'Newest first' },
+  { id: 'oldest', label: 'Oldest first' },
+  { id: 'name', label: 'Name' },
+  { id: 'root', label: 'Root' },
+];
+
+export interface PresetFilter {
+  query?: string;
+  category?: MusicTheoryResponse['category'];
+  folder?: string | null; // null = unfiled only, undefined = any folder
+  tag?: string;
+}
+
+// Comma-separated input -> trimmed, de-duplicated tags
+export const parseTags = (input: string): string[] =>
+  [...new Set(input.split(',').map(t => t.trim()).filter(Boolean))];
+
+export const presetFolders = (presets: Preset[]): string[] =>
+  [...new Set(presets.map(p => p.folder).filter((f): f is string => !!f))].sort((a, b) => a.localeCompare(b));
+
+export const presetTags = (presets: Preset[]): string[] =>
+  [...new Set(presets.flatMap(p => p.tags))].sort((a, b) => a.localeCompare(b));
+
+const searchText = (preset: Preset) =>
+  [preset.name, preset.notes, preset.folder ?? '', ...preset.tags, preset.data.root, preset.data.type].join(' ').toLowerCase();
+
+// Every word of the query has to appear somewhere in the name, notes, tags or folder
+export const filterPresets = (presets: Preset[], { query = '', category, folder, tag }: PresetFilter): Preset[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return presets.filter(preset =>
+    (!category || preset.data.category === category) &&
+    (folder === undefined || (preset.folder ?? null) === folder) &&
+    (!tag || preset.tags.includes(tag)) &&
+    words.every(word => searchText(preset).includes(word))
+  );
+};
+
+// Roots sort from C up by pitch, so Db and C# sit together
+const rootOrder = (preset: Preset): number => {
+  const root = parseNote(preset.data.root);
+  return root ? pitchClass(root) : 12;
+};
+
+export const sortPresets = (presets: Preset[], sort: PresetSort): Preset[] => {
+  const byName = (a: Preset, b: Preset) => a.name.localeCompare(b.name, undefined, { numeric: true });
+  const sorted = [...presets];
+  switch (sort) {
+    case 'newest': return sorted.sort((a, b) => b.timestamp - a.timestamp);
+    case 'oldest': return sorted.sort((a, b) => a.timestamp - b.timestamp);
+    case 'name': return sorted.sort(byName);
+    case 'root': return sorted.sort((a, b) => rootOrder(a) - rootOrder(b) || byName(a, b));
+  }
+};
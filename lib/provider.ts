@@ -0,0 +1,214 @@
+import type { Schema } from "@google/genai";
+import type { MusicTheoryResponse } from "./types";
+import { correctTheoryResponse, parseNote } from "./theory";
+import { THEORY_SCHEMA, validateAgainstSchema } from "./schema";
+import { parsePartialJson } from "./partialJson";
+import { readStoredJson, writeStoredJson } from "./storage";
+import {
+  EmptyResponseError,
+  MalformedJsonError,
+  RequestCancelledError,
+  SchemaViolationError,
+  UnparseableNotesError,
+  toTheoryError,
+} from "./errors";
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mockProvider";
+
+export interface TheoryProviderRequest {
+  prompt: string;
+  model: string;
+  schema: Schema;
+  systemInstruction: string;
+  signal?: AbortSignal;
+}
+
+// A backend that turns a prompt into raw JSON text matching THEORY_SCHEMA.
+// Validation and correction happen here, so adapters only deal with transport.
+export interface TheoryProvider {
+  readonly id: string;
+  readonly label: string;
+  readonly defaultModel: string;
+  generate(request: TheoryProviderRequest): Promise<string | undefined>;
+  // Optional: yields the same JSON text in chunks as it is produced
+  generateStream?(request: TheoryProviderRequest): AsyncIterable<string>;
+}
+
+// Fields that can be shown before the full answer has arrived
+export type PartialTheoryResponse = Partial<
+  Pick<MusicTheoryResponse, 'root' | 'type' | 'category' | 'notes' | 'intervals' | 'description'>
+>;
+
+export interface ProviderConfig {
+  provider: string;
+  model?: string; // Falls back to the provider's default model
+}
+
+const CONFIG_STORAGE_KEY = 'theorygen_provider';
+
+export const SYSTEM_INSTRUCTION = `You are a music theory expert. Your job is to interpret user requests about scales, chords, and modes, and return structured data for visualization. 
+      Always resolve the notes to specific pitches (e.g., C, D, E). 
+      If the user asks for a chord like "Cmaj7", provide the notes C, E, G, B. 
+      If the user asks for "Eb Minor Scale", provide Eb, F, Gb, Ab, Bb, Cb, Db.
+      If the user asks for a chord progression like "ii-V-I in Bb", use category "progression", describe the key in root/notes/intervals, and list each chord in "progression".
+      Ensure note spellings are theoretically correct for the key (use double sharps/flats only if strictly necessary, otherwise enharmonic equivalents are fine for visualization).`;
+
+// --- Registry ---
+
+const providers = new Map<string, TheoryProvider>();
+
+export const registerProvider = (provider: TheoryProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const listProviders = (): TheoryProvider[] => [...providers.values()];
+
+registerProvider(createGeminiProvider());
+registerProvider(createMockProvider());
+
+// --- Config ---
+
+// Build-time defaults (THEORY_PROVIDER / THEORY_MODEL in .env.local), overridable at runtime
+const defaultConfig = (): ProviderConfig => ({
+  provider: process.env.THEORY_PROVIDER || 'gemini',
+  model: process.env.THEORY_MODEL || undefined,
+});
+
+export const getProviderConfig = (): ProviderConfig => {
+  const saved = readStoredJson(CONFIG_STORAGE_KEY);
+  return { ...defaultConfig(), ...(saved && typeof saved === 'object' ? saved : {}) };
+};
+
+export const setProviderConfig = (config: ProviderConfig) => {
+  writeStoredJson(CONFIG_STORAGE_KEY, config);
+};
+
+export const getProvider = (config: ProviderConfig = getProviderConfig()): TheoryProvider => {
+  const provider = providers.get(config.provider);
+  if (!provider) {
+    console.warn(`Unknown theory provider "${config.provider}", using gemini`);
+    return providers.get('gemini')!;
+  }
+  return provider;
+};
+
+// --- Requests ---
+
+// Parses and checks the raw model text, throwing a typed error for each way it can be wrong
+export const parseTheoryResponse = (text: string | undefined): MusicTheoryResponse => {
+  if (!text || !text.trim()) {
+    throw new EmptyResponseError();
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    throw new MalformedJsonError(err);
+  }
+
+  const issues = validateAgainstSchema(parsed, THEORY_SCHEMA);
+  if (issues.length > 0) {
+    throw new SchemaViolationError(issues);
+  }
+
+  const result = parsed as MusicTheoryResponse;
+  // Free-form answers ('other') don't always have a meaningful root, but any notes must be playable
+  const checked = [
+    ...(result.category === 'scale' || result.category === 'chord' ? [result.root] : []),
+    ...result.notes,
+    ...(result.progression ?? []).flatMap(chord => [chord.root, ...chord.notes]),
+  ];
+  const badNotes = checked.filter(n => !parseNote(n));
+  if (badNotes.length > 0) {
+    throw new UnparseableNotesError(badNotes);
+  }
+
+  return correctTheoryResponse(result);
+};
+
+// Picks out the fields of a half-streamed answer that are already complete.
+// Only the description is shown while still being written.
+export const readPartialResponse = (text: string): PartialTheoryResponse => {
+  const parsed = parsePartialJson(text);
+  if (!parsed || typeof parsed.value !== 'object' || parsed.value === null || Array.isArray(parsed.value)) return {};
+
+  const value = parsed.value as Record<string, unknown>;
+  const done = (key: string) => value[key] !== undefined && parsed.openKey !== key;
+  const partial: PartialTheoryResponse = {};
+
+  if (done('root') && typeof value.root === 'string' && parseNote(value.root)) partial.root = value.root;
+  if (done('type') && typeof value.type === 'string') partial.type = value.type;
+  if (done('category') && ['scale', 'chord', 'interval', 'progression', 'other'].includes(value.category as string)) {
+    partial.category = value.category as MusicTheoryResponse['category'];
+  }
+  if (Array.isArray(value.notes)) {
+    partial.notes = value.notes.filter((n): n is string => typeof n === 'string' && !!parseNote(n));
+  }
+  if (Array.isArray(value.intervals)) {
+    partial.intervals = value.intervals.filter((i): i is string => typeof i === 'string');
+  }
+  if (typeof value.description === 'string') partial.description = value.description;
+
+  return partial;
+};
+
+const buildRequest = (prompt: string, config: ProviderConfig, provider: TheoryProvider, signal?: AbortSignal): TheoryProviderRequest => ({
+  prompt,
+  model: config.model || provider.defaultModel,
+  schema: THEORY_SCHEMA,
+  systemInstruction: SYSTEM_INSTRUCTION,
+  signal,
+});
+
+export const analyzeMusicRequest = async (
+  prompt: string,
+  config: ProviderConfig = getProviderConfig(),
+  signal?: AbortSignal
+): Promise<MusicTheoryResponse> => {
+  const provider = getProvider(config);
+
+  let text: string | undefined;
+  try {
+    text = await provider.generate(buildRequest(prompt, config, provider, signal));
+  } catch (err) {
+    throw toTheoryError(err);
+  }
+
+  if (signal?.aborted) {
+    throw new RequestCancelledError(signal.reason);
+  }
+
+  return parseTheoryResponse(text);
+};
+
+// Like analyzeMusicRequest, but reports usable fields through `onPartial` while
+// the answer streams in. Providers without streaming just answer in one go.
+export const streamMusicRequest = async (
+  prompt: string,
+  onPartial: (partial: PartialTheoryResponse) => void,
+  config: ProviderConfig = getProviderConfig(),
+  signal?: AbortSignal
+): Promise<MusicTheoryResponse> => {
+  const provider = getProvider(config);
+  if (!provider.generateStream) {
+    return analyzeMusicRequest(prompt, config, signal);
+  }
+
+  let text = '';
+  try {
+    for await (const chunk of provider.generateStream(buildRequest(prompt, config, provider, signal))) {
+      text += chunk;
+      onPartial(readPartialResponse(text));
+    }
+  } catch (err) {
+    throw toTheoryError(err);
+  }
+
+  if (signal?.aborted) {
+    throw new RequestCancelledError(signal.reason);
+  }
+
+  // A stream that broke off mid-object fails here as malformed JSON
+  return parseTheoryResponse(text);
+};
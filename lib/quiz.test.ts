@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import type { MusicTheoryResponse } from './types';
+import {
+  DEFAULT_QUIZ_SETTINGS,
+  QuizCard,
+  QuizProgress,
+  QuizSettings,
+  REVIEW_INTERVALS,
+  makeQuestion,
+  matchesNotes,
+  pickCard,
+  progressKey,
+  quizPool,
+  recordAnswer,
+} from './quiz';
+
+const card = (key: string): QuizCard => ({ key, category: 'interval', name: key });
+
+const M3 = card('interval:M3');
+const P5 = card('interval:P5');
+const OCT = card('interval:P8');
+
+const NOW = 1_000_000;
+const INTERMEDIATE: QuizSettings = { ...DEFAULT_QUIZ_SETTINGS, difficulty: 'intermediate' };
+const LAST_BOX = REVIEW_INTERVALS.length - 1;
+
+describe('recordAnswer', () => {
+  it('moves a card up a box on each right answer', () => {
+    let progress: QuizProgress = {};
+    progress = recordAnswer(progress, 'k', true, NOW);
+    expect(progress.k).toEqual({ box: 1, due: NOW + REVIEW_INTERVALS[1], attempts: 1, correct: 1, lastSeen: NOW });
+    progress = recordAnswer(progress, 'k', true, NOW + 1);
+    expect(progress.k).toMatchObject({ box: 2, due: NOW + 1 + REVIEW_INTERVALS[2], attempts: 2, correct: 2 });
+  });
+
+  it('sends a card back to the first box on a wrong answer', () => {
+    const progress = recordAnswer({ k: { box: 4, due: 0, attempts: 6, correct: 5, lastSeen: 0 } }, 'k', false, NOW);
+    expect(progress.k).toEqual({ box: 0, due: NOW, attempts: 7, correct: 5, lastSeen: NOW });
+  });
+
+  it('stops at the last box', () => {
+    const progress = recordAnswer({ k: { box: LAST_BOX, due: 0, attempts: 9, correct: 9, lastSeen: 0 } }, 'k', true, NOW);
+    expect(progress.k.box).toBe(LAST_BOX);
+    expect(progress.k.due).toBe(NOW + REVIEW_INTERVALS[LAST_BOX]);
+  });
+
+  it('leaves the previous progress untouched', () => {
+    const before: QuizProgress = { other: { box: 2, due: 5, attempts: 2, correct: 2, lastSeen: 1 } };
+    const after = recordAnswer(before, 'k', true, NOW);
+    expect(before).not.toHaveProperty('k');
+    expect(after.other).toBe(before.other);
+  });
+});
+
+describe('pickCard', () => {
+  const learned = (box: number, due: number) => ({ box, due, attempts: 1, correct: 1, lastSeen: 0 });
+
+  it('has nothing to ask from an empty pool', () => {
+    expect(pickCard([], {}, 'identify', undefined, NOW)).toBeNull();
+  });
+
+  it("doesn't repeat the last card unless it's the only one", () => {
+    expect(pickCard([M3, P5], {}, 'identify', M3.key, NOW, () => 0)).toBe(P5);
+    expect(pickCard([M3], {}, 'identify', M3.key, NOW, () => 0)).toBe(M3);
+  });
+
+  it('only draws from due cards', () => {
+    const progress: QuizProgress = {
+      [progressKey(M3, 'identify')]: learned(3, NOW + 1),
+      [progressKey(OCT, 'identify')]: learned(3, NOW - 1),
+    };
+    for (const r of [0, 0.5, 0.999]) {
+      expect(pickCard([M3, P5, OCT], progress, 'identify', undefined, NOW, () => r)).not.toBe(M3);
+    }
+  });
+
+  it('favours cards in lower boxes', () => {
+    // Weights are 1 for box 0 and 1/4 for box 3, so the first 80% of draws land on P5
+    const progress: QuizProgress = { [progressKey(OCT, 'identify')]: learned(3, NOW) };
+    expect(pickCard([P5, OCT], progress, 'identify', undefined, NOW, () => 0.79)).toBe(P5);
+    expect(pickCard([P5, OCT], progress, 'identify', undefined, NOW, () => 0.81)).toBe(OCT);
+  });
+
+  it('falls back to whichever card is due soonest', () => {
+    const progress: QuizProgress = {
+      [progressKey(M3, 'identify')]: learned(4, NOW + 3000),
+      [progressKey(P5, 'identify')]: learned(4, NOW + 1000),
+      [progressKey(OCT, 'identify')]: learned(4, NOW + 2000),
+    };
+    expect(pickCard([M3, P5, OCT], progress, 'identify', undefined, NOW)).toBe(P5);
+  });
+
+  it('tracks each direction separately', () => {
+    const progress: QuizProgress = { [progressKey(M3, 'identify')]: learned(4, NOW + 1000) };
+    expect(pickCard([M3, P5], progress, 'identify', undefined, NOW, () => 0)).toBe(P5);
+    expect(pickCard([M3, P5], progress, 'play', undefined, NOW, () => 0)).toBe(M3);
+  });
+});
+
+describe('makeQuestion', () => {
+  const pool = quizPool(DEFAULT_QUIZ_SETTINGS, []);
+  const first = () => 0;
+
+  it('builds an interval on the chosen root', () => {
+    const question = makeQuestion({ key: 'interval:Major 3rd', category: 'interval', name: 'Major 3rd' }, pool, DEFAULT_QUIZ_SETTINGS, [], first)!;
+    expect(question.response.notes).toEqual(['C', 'E']);
+    expect(question.voicing).toEqual(['C3', 'E3']);
+    expect(question.midi).toEqual([48, 52]);
+    expect(question.prompt).toBe('a Major 3rd up from C');
+  });
+
+  it('offers the answer among names from the same category', () => {
+    const target = { key: 'chord:Minor', category: 'chord', name: 'Minor' } satisfies QuizCard;
+    const question = makeQuestion(target, pool, DEFAULT_QUIZ_SETTINGS, [], first)!;
+    const chordNames = pool.filter(c => c.category === 'chord').map(c => c.name);
+    expect(question.choices).toHaveLength(3);
+    expect(question.choices).toContain('Minor');
+    expect(new Set(question.choices).size).toBe(3);
+    expect(question.choices.every(name => chordNames.includes(name))).toBe(true);
+  });
+
+  it('asks for chords by symbol', () => {
+    const target = { key: 'chord:Dominant 7th', category: 'chord', name: 'Dominant 7th' } satisfies QuizCard;
+    const question = makeQuestion(target, quizPool(INTERMEDIATE, []), INTERMEDIATE, [], first)!;
+    expect(question.response.notes).toEqual(['C', 'E', 'G', 'Bb']);
+    expect(question.prompt).toBe('C7 (C Dominant 7th)');
+  });
+
+  it('gives up on cards it has nothing for', () => {
+    expect(makeQuestion({ key: 'preset:gone', category: 'preset', name: 'Gone' }, pool, DEFAULT_QUIZ_SETTINGS, [], first)).toBeNull();
+    expect(makeQuestion(card('interval:Unison'), pool, DEFAULT_QUIZ_SETTINGS, [], first)).toBeNull();
+  });
+});
+
+describe('matchesNotes', () => {
+  const chord: MusicTheoryResponse = {
+    root: 'C',
+    type: 'Major',
+    category: 'chord',
+    notes: ['C', 'E', 'G'],
+    intervals: ['1', '3', '5'],
+    description: '',
+  };
+  const interval: MusicTheoryResponse = { ...chord, type: 'Major 3rd', category: 'interval', notes: ['C', 'E'], intervals: ['1', '3'], voicing: ['C3', 'E3'] };
+
+  it('accepts chord tones in any octave or order', () => {
+    expect(matchesNotes([60, 64, 67], chord)).toBe(true);
+    expect(matchesNotes([67, 48, 64, 72], chord)).toBe(true);
+  });
+
+  it('rejects missing or extra pitch classes', () => {
+    expect(matchesNotes([60, 64], chord)).toBe(false);
+    expect(matchesNotes([60, 63, 67], chord)).toBe(false);
+    expect(matchesNotes([60, 64, 67, 70], chord)).toBe(false);
+  });
+
+  it('needs intervals at their exact size from the root', () => {
+    expect(matchesNotes([60, 64], interval)).toBe(true);
+    expect(matchesNotes([76, 72], interval)).toBe(true);
+    expect(matchesNotes([60, 76], interval)).toBe(false);
+    expect(matchesNotes([64, 68], interval)).toBe(false);
+    expect(matchesNotes([60, 64, 67], interval)).toBe(false);
+  });
+});
@@ -0,0 +1,348 @@
+import type { MusicTheoryResponse } from './types';
+import type { Preset } from './presets';
+import type { PlaybackPattern } from './playback';
+import {
+  CHORD_FORMULAS,
+  SCALE_FORMULAS,
+  SpelledNote,
+  formatNote,
+  midiNumber,
+  mod12,
+  parseInterval,
+  parseNote,
+  pitchClass,
+  transposeNote,
+} from './theory';
+import { structureResponse } from './parser';
+import { TRANSPOSE_KEYS } from './transpose';
+import { buildVoicing } from './voicing';
+import { readStoredJson, writeStoredJson } from './storage';
+
+// Practice mode: name what you hear or see, or play what you're asked for.
+// Cards come back on a Leitner schedule: every right answer moves a card to a
+// box with a longer wait, a wrong one sends it back to the first box.
+
+export type QuizCategory = 'interval' | 'chord' | 'scale' | 'preset';
+export type QuizDirection = 'identify' | 'play';
+export type QuizPrompt = 'hear' | 'see';
+export type QuizDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
+export interface QuizSettings {
+  direction: QuizDirection;
+  prompt: QuizPrompt; // How identify questions are posed
+  difficulty: QuizDifficulty;
+  categories: QuizCategory[];
+}
+
+export const QUIZ_CATEGORIES: { id: QuizCategory; label: string }[] = [
+  { id: 'interval', label: 'Intervals' },
+  { id: 'chord', label: 'Chords' },
+  { id: 'scale', label: 'Scales' },
+  { id: 'preset', label: 'Library' },
+];
+
+export const QUIZ_DIFFICULTIES: QuizDifficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+export const DEFAULT_QUIZ_SETTINGS: QuizSettings = {
+  direction: 'identify',
+  prompt: 'hear',
+  difficulty: 'beginner',
+  categories: ['interval', 'chord'],
+};
+
+// Something to learn, e.g. "Minor 3rd" or "Dominant 7th", on whatever root comes up
+export interface QuizCard {
+  key: string;
+  category: QuizCategory;
+  name: string;
+}
+
+export interface QuizQuestion {
+  card: QuizCard;
+  response: MusicTheoryResponse;
+  voicing: string[]; // What gets played or shown
+  midi: number[];
+  choices: string[]; // Names to pick from when identifying
+  prompt: string;    // What to play, when playing
+}
+
+// --- Pools ---
+
+interface QuizInterval {
+  label: string;
+  name: string;
+  level: number; // 0 = beginner, 1 = intermediate, 2 = advanced
+}
+
+const INTERVALS: QuizInterval[] = [
+  { label: 'b2', name: 'Minor 2nd', level: 1 },
+  { label: '2', name: 'Major 2nd', level: 1 },
+  { label: 'b3', name: 'Minor 3rd', level: 0 },
+  { label: '3', name: 'Major 3rd', level: 0 },
+  { label: '4', name: 'Perfect 4th', level: 0 },
+  { label: '#4', name: 'Tritone', level: 1 },
+  { label: '5', name: 'Perfect 5th', level: 0 },
+  { label: 'b6', name: 'Minor 6th', level: 1 },
+  { label: '6', name: 'Major 6th', level: 1 },
+  { label: 'b7', name: 'Minor 7th', level: 1 },
+  { label: '7', name: 'Major 7th', level: 1 },
+  { label: '8', name: 'Octave', level: 0 },
+  { label: 'b9', name: 'Minor 9th', level: 2 },
+  { label: '9', name: 'Major 9th', level: 2 },
+];
+
+// Anything not listed is advanced
+const CHORD_LEVELS: Record<string, number> = {
+  'Major': 0, 'Minor': 0, 'Diminished': 0, 'Augmented': 0,
+  'Suspended 2nd': 1, 'Suspended 4th': 1, 'Dominant 7th': 1, 'Major 7th': 1, 'Minor 7th': 1,
+  'Half-Diminished 7th': 1, 'Diminished 7th': 1,
+};
+
+const SCALE_LEVELS: Record<string, number> = {
+  'Major': 0, 'Natural Minor': 0, 'Major Pentatonic': 0, 'Minor Pentatonic': 0,
+  'Harmonic Minor': 1, 'Melodic Minor': 1, 'Dorian': 1, 'Phrygian': 1, 'Lydian': 1, 'Mixolydian': 1,
+  'Locrian': 1, 'Blues': 1,
+};
+
+const ROOTS: string[][] = [
+  ['C', 'D', 'E', 'F', 'G', 'A', 'B'],
+  ['C', 'D', 'E', 'F', 'G', 'A', 'B', 'Bb', 'Eb', 'Ab', 'F#'],
+  TRANSPOSE_KEYS,
+];
+
+const CHOICE_COUNTS = [3, 4, 6];
+
+const levelOf = (difficulty: QuizDifficulty) => QUIZ_DIFFICULTIES.indexOf(difficulty);
+
+// Every card the settings allow; library presets count at any difficulty
+export const quizPool = (settings: QuizSettings, presets: Preset[]): QuizCard[] => {
+  const level = levelOf(settings.difficulty);
+  const pool: QuizCard[] = [];
+  if (settings.categories.includes('interval')) {
+    INTERVALS.filter(i => i.level <= level).forEach(i => pool.push({ key: `interval:${i.name}`, category: 'interval', name: i.name }));
+  }
+  if (settings.categories.includes('chord')) {
+    CHORD_FORMULAS.filter(f => (CHORD_LEVELS[f.name] ?? 2) <= level)
+      .forEach(f => pool.push({ key: `chord:${f.name}`, category: 'chord', name: f.name }));
+  }
+  if (settings.categories.includes('scale')) {
+    SCALE_FORMULAS.filter(f => (SCALE_LEVELS[f.name] ?? 2) <= level)
+      .forEach(f => pool.push({ key: `scale:${f.name}`, category: 'scale', name: f.name }));
+  }
+  if (settings.categories.includes('preset')) {
+    presets.forEach(p => pool.push({ key: `preset:${p.id}`, category: 'preset', name: p.name }));
+  }
+  return pool;
+};
+
+// --- Questions ---
+
+const intervalResponse = (root: SpelledNote, interval: QuizInterval): MusicTheoryResponse => {
+  const low = { ...root, octave: 3 };
+  const high = transposeNote(low, parseInterval(interval.label)!);
+  const top = formatNote({ ...high, octave: undefined });
+  return {
+    root: formatNote(root),
+    type: interval.name,
+    category: 'interval',
+    notes: [formatNote(root), top],
+    intervals: ['1', interval.label],
+    description: `A ${interval.name} from ${formatNote(root)} up to ${top}.`,
+    voicing: [formatNote(low), formatNote(high)],
+  };
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+const buildResponse = (card: QuizCard, root: SpelledNote, presets: Preset[]): MusicTheoryResponse | null => {
+  switch (card.category) {
+    case 'interval': {
+      const interval = INTERVALS.find(i => i.name === card.name);
+      return interval ? intervalResponse(root, interval) : null;
+    }
+    case 'chord': {
+      const formula = CHORD_FORMULAS.find(f => f.name === card.name);
+      return formula ? structureResponse(root, formula) : null;
+    }
+    case 'scale': {
+      const formula = SCALE_FORMULAS.find(f => f.name === card.name);
+      return formula ? structureResponse(root, formula) : null;
+    }
+    case 'preset':
+      return presets.find(p => `preset:${p.id}` === card.key)?.data ?? null;
+  }
+};
+
+const promptFor = (card: QuizCard, response: MusicTheoryResponse): string => {
+  switch (card.category) {
+    case 'interval':
+      return `${/^[AEIOU]/.test(card.name) ? 'an' : 'a'} ${card.name} up from ${response.root}`;
+    case 'chord': {
+      const symbol = CHORD_FORMULAS.find(f => f.name === card.name)?.symbol;
+      return symbol !== undefined ? `${response.root}${symbol} (${response.root} ${card.name})` : `${response.root} ${card.name}`;
+    }
+    case 'scale':
+      return `the ${response.root} ${card.name} scale`;
+    case 'preset':
+      return card.name;
+  }
+};
+
+export const patternFor = (category: MusicTheoryResponse['category'], difficulty: QuizDifficulty): PlaybackPattern => {
+  if (category === 'interval') return difficulty === 'advanced' ? 'chord' : 'ascending';
+  return category === 'chord' ? 'chord' : 'ascending';
+};
+
+// A question for `card` on a random root, with wrong answers drawn from the same category
+export const makeQuestion = (
+  card: QuizCard,
+  pool: QuizCard[],
+  settings: QuizSettings,
+  presets: Preset[],
+  random: () => number = Math.random
+): QuizQuestion | null => {
+  const roots = ROOTS[levelOf(settings.difficulty)];
+  const root = parseNote(roots[Math.floor(random() * roots.length)])!;
+  const response = buildResponse(card, root, presets);
+  if (!response) return null;
+
+  const voicing = response.voicing ?? buildVoicing(response);
+  const midi = voicing.map(n => parseNote(n)).filter((n): n is SpelledNote => !!n).map(midiNumber);
+
+  const others = [...new Set(pool.filter(c => c.category === card.category && c.name !== card.name).map(c => c.name))];
+  const wrong = shuffle(others, random).slice(0, CHOICE_COUNTS[levelOf(settings.difficulty)] - 1);
+  return {
+    card,
+    response,
+    voicing,
+    midi,
+    choices: shuffle([card.name, ...wrong], random),
+    prompt: promptFor(card, response),
+  };
+};
+
+// Played keys answer a question when they sound the same pitch classes, in any octave.
+// Intervals have to be the exact size, starting on the root.
+export const matchesNotes = (played: number[], response: MusicTheoryResponse): boolean => {
+  if (response.category === 'interval' && response.voicing?.length === 2) {
+    const [low, high] = response.voicing.map(n => midiNumber(parseNote(n)!));
+    const keys = [...played].sort((a, b) => a - b);
+    return keys.length === 2 && mod12(keys[0]) === mod12(low) && keys[1] - keys[0] === high - low;
+  }
+  const target = new Set(response.notes.map(n => parseNote(n)).filter((n): n is SpelledNote => !!n).map(pitchClass));
+  const heard = new Set(played.map(mod12));
+  return heard.size === target.size && [...heard].every(pc => target.has(pc));
+};
+
+// --- Spaced repetition ---
+
+export interface CardProgress {
+  box: number;      // Index into REVIEW_INTERVALS
+  due: number;      // When the card should come back
+  attempts: number;
+  correct: number;
+  lastSeen: number;
+}
+
+export type QuizProgress = Record<string, CardProgress>;
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// How long each box waits before a card is due again
+export const REVIEW_INTERVALS = [0, 10 * MINUTE, 60 * MINUTE, DAY, 3 * DAY, 7 * DAY, 21 * DAY];
+
+// Identifying by ear and playing from a name are separate skills, so they're tracked apart
+export const progressKey = (card: QuizCard, direction: QuizDirection) => `${direction}:${card.key}`;
+
+export const recordAnswer = (progress: QuizProgress, key: string, correct: boolean, now = Date.now()): QuizProgress => {
+  const previous = progress[key];
+  const box = correct ? Math.min((previous?.box ?? 0) + 1, REVIEW_INTERVALS.length - 1) : 0;
+  return {
+    ...progress,
+    [key]: {
+      box,
+      due: now + REVIEW_INTERVALS[box],
+      attempts: (previous?.attempts ?? 0) + 1,
+      correct: (previous?.correct ?? 0) + (correct ? 1 : 0),
+      lastSeen: now,
+    },
+  };
+};
+
+// Due cards first, favouring low boxes; otherwise whichever is due soonest.
+// The card just asked isn't repeated straight away unless it's the only one.
+export const pickCard = (
+  pool: QuizCard[],
+  progress: QuizProgress,
+  direction: QuizDirection,
+  lastKey?: string,
+  now = Date.now(),
+  random: () => number = Math.random
+): QuizCard | null => {
+  const candidates = pool.length > 1 ? pool.filter(c => c.key !== lastKey) : pool;
+  if (candidates.length === 0) return null;
+
+  const due = candidates.filter(c => (progress[progressKey(c, direction)]?.due ?? 0) <= now);
+  if (due.length === 0) {
+    return [...candidates].sort((a, b) => progress[progressKey(a, direction)].due - progress[progressKey(b, direction)].due)[0];
+  }
+
+  const weights = due.map(c => 1 / (1 + (progress[progressKey(c, direction)]?.box ?? 0)));
+  let target = random() * weights.reduce((sum, w) => sum + w, 0);
+  for (let i = 0; i < due.length; i++) {
+    target -= weights[i];
+    if (target <= 0) return due[i];
+  }
+  return due[due.length - 1];
+};
+
+// --- Storage ---
+
+const SETTINGS_STORAGE_KEY = 'theorygen_quiz_settings';
+const PROGRESS_STORAGE_KEY = 'theorygen_quiz_progress';
+
+const isCardProgress = (value: unknown): value is CardProgress => {
+  if (!value || typeof value !== 'object') return false;
+  const record = value as Record<string, unknown>;
+  return ['box', 'due', 'attempts', 'correct', 'lastSeen'].every(field => typeof record[field] === 'number') &&
+    (record.box as number) >= 0 && (record.box as number) < REVIEW_INTERVALS.length;
+};
+
+// Each field is checked on its own, so one bad value doesn't reset the rest
+export const loadQuizSettings = (): QuizSettings => {
+  const saved = readStoredJson(SETTINGS_STORAGE_KEY);
+  if (!saved || typeof saved !== 'object') return DEFAULT_QUIZ_SETTINGS;
+  const { direction, prompt, difficulty, categories: savedCategories } = saved as Record<string, unknown>;
+  const categories = Array.isArray(savedCategories)
+    ? QUIZ_CATEGORIES.map(c => c.id).filter(id => savedCategories.includes(id))
+    : DEFAULT_QUIZ_SETTINGS.categories;
+  return {
+    direction: direction === 'play' ? 'play' : 'identify',
+    prompt: prompt === 'see' ? 'see' : 'hear',
+    difficulty: QUIZ_DIFFICULTIES.find(d => d === difficulty) ?? DEFAULT_QUIZ_SETTINGS.difficulty,
+    categories: categories.length > 0 ? categories : DEFAULT_QUIZ_SETTINGS.categories,
+  };
+};
+
+export const saveQuizSettings = (settings: QuizSettings) => {
+  writeStoredJson(SETTINGS_STORAGE_KEY, settings);
+};
+
+// Cards with unreadable progress start over rather than failing the whole quiz
+export const loadQuizProgress = (): QuizProgress => {
+  const saved = readStoredJson(PROGRESS_STORAGE_KEY);
+  if (!saved || typeof saved !== 'object' || Array.isArray(saved)) return {};
+  return Object.fromEntries(Object.entries(saved).filter(([, value]) => isCardProgress(value))) as QuizProgress;
+};
+
+export const saveQuizProgress = (progress: QuizProgress) => {
+  writeStoredJson(PROGRESS_STORAGE_KEY, progress);
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { identifyChords, identifyScales } from './recognition';
+import { parseNoteList } from './reverseLookup';
+
+const chordNames = (text: string) => {
+  const { pitches, spellings } = parseNoteList(text)!;
+  return identifyChords(pitches, undefined, spellings).map(c => c.name);
+};
+
+describe('identifyChords', () => {
+  it('names root position chords first', () => {
+    expect(chordNames('C E G')[0]).toBe('C');
+    expect(chordNames('G B D F')[0]).toBe('G7');
+  });
+
+  it('spells a slash chord bass the way it was typed', () => {
+    expect(chordNames('C Eb Gb A')).toContain('Ebdim7/C');
+    expect(chordNames('E G C')[0]).toBe('C/E');
+    expect(chordNames('Fb Ab Cb')[0]).toBe('Fb');
+  });
+
+  it('spells untyped roots and basses from the chord', () => {
+    expect(identifyChords([52, 55, 60]).map(c => c.name)).toContain('C/E');
+  });
+});
+
+describe('identifyScales', () => {
+  it('ranks exact matches first', () => {
+    const { pitches, spellings } = parseNoteList('C D E F G A B')!;
+    const [best] = identifyScales(pitches, undefined, spellings);
+    expect(best).toMatchObject({ name: 'C Major', missing: 0 });
+  });
+});
@@ -0,0 +1,147 @@
+import {
+  CHORD_FORMULAS,
+  LETTERS,
+  SCALE_FORMULAS,
+  SpelledNote,
+  StructureFormula,
+  buildStructure,
+  formatNote,
+  intervalSemitones,
+  mod12,
+  parseInterval,
+  parseNote,
+  pitchClass,
+  transposeNote,
+} from './theory';
+
+// Names chords from a set of sounding pitches, including inversions and slash
+// chords ("Dm7/C"), and finds the scales that contain them. Works on MIDI
+// numbers or bare pitch classes (0-11).
+
+export interface ChordMatch {
+  name: string;       // e.g. "Dm7/C"
+  root: string;
+  bass?: string;      // Set when the lowest note isn't the root
+  formula: StructureFormula;
+  inversion: number;  // 0 = root position, 1 = bass is the second chord tone ...
+  omitted: string[];  // Chord tones not played (only the fifth may be left out)
+}
+
+// Spelling used for a root when nothing else tells us which enharmonic to pick
+export const DEFAULT_SPELLING = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+const semitones = (label: string) => mod12(intervalSemitones(parseInterval(label)!));
+
+// Sixths, added tones and suspensions are usually a less natural reading than a seventh chord
+const isColourChord = (formula: StructureFormula) =>
+  formula.intervals.some(l => l === '6' || l === '2' || l === '4') || formula.aliases.some(a => a.startsWith('add'));
+
+const score = (match: ChordMatch, index: number) =>
+  match.omitted.length * 10 + (match.inversion > 0 ? 5 : 0) + (isColourChord(match.formula) ? 2 : 0) + index / 100;
+
+// `spellings` names roots the way the user wrote them (pitch class -> note)
+export const identifyChords = (
+  pitches: number[],
+  formulas: StructureFormula[] = CHORD_FORMULAS,
+  spellings?: Map<number, SpelledNote>
+): ChordMatch[] => {
+  const pitchClasses = new Set(pitches.map(mod12));
+  if (pitchClasses.size < 2) return [];
+  const bassPc = mod12(Math.min(...pitches));
+
+  const scored: { match: ChordMatch; score: number }[] = [];
+
+  for (const rootPc of pitchClasses) {
+    const relative = new Set([...pitchClasses].map(pc => mod12(pc - rootPc)));
+
+    formulas.forEach((formula, index) => {
+      const chordTones = new Set(formula.intervals.map(semitones));
+      if (![...relative].every(r => chordTones.has(r))) return;
+
+      const omitted = formula.intervals.filter(l => !relative.has(semitones(l)));
+      if (omitted.some(l => l !== '5') || (omitted.length > 0 && chordTones.size < 4)) return;
+
+      const root = spellings?.get(rootPc) ?? parseNote(DEFAULT_SPELLING[rootPc])!;
+      const bassLabel = formula.intervals.find(l => semitones(l) === mod12(bassPc - rootPc))!;
+      const inversion = formula.intervals.indexOf(bassLabel);
+      // The bass as the user wrote it, else spelled from the chord
+      const bassNote = inversion > 0 ? spellings?.get(bassPc) ?? transposeNote(root, parseInterval(bassLabel)!) : null;
+      const bass = bassNote ? formatNote({ ...bassNote, octave: undefined }) : undefined;
+      const symbol = formula.symbol ?? ` ${formula.name}`;
+
+      const match: ChordMatch = {
+        name: `${formatNote(root)}${symbol}${bass ? `/${bass}` : ''}`,
+        root: formatNote(root),
+        bass,
+        formula,
+        inversion,
+        omitted,
+      };
+      scored.push({ match, score: score(match, index) });
+    });
+  }
+
+  const seen = new Set<string>();
+  return scored
+    .sort((a, b) => a.score - b.score)
+    .map(s => s.match)
+    .filter(m => !seen.has(m.name) && !!seen.add(m.name));
+};
+
+export interface ScaleMatch {
+  name: string;          // e.g. "G Mixolydian"
+  root: SpelledNote;
+  formula: StructureFormula;
+  missing: number;       // Scale notes that weren't played
+  rootPlayed: boolean;
+}
+
+// Spelling of a root that gives the scale the fewest accidentals (Db Major, not C# Major)
+const spellScaleRoot = (rootPc: number, formula: StructureFormula): SpelledNote => {
+  const candidates = LETTERS.flatMap(letter => {
+    let accidental = mod12(rootPc - pitchClass({ letter, accidental: 0 }));
+    if (accidental > 6) accidental -= 12;
+    return Math.abs(accidental) <= 1 ? [{ letter, accidental }] : [];
+  });
+  const cost = (root: SpelledNote) =>
+    buildStructure(root, formula).notes.reduce((sum, name) => {
+      const accidentals = name.length - 1; // Can run past double sharps, which parseNote won't read
+      return sum + accidentals + (accidentals > 1 ? 4 : 0);
+    }, 0);
+  return candidates.reduce((best, c) => (cost(c) < cost(best) ? c : best));
+};
+
+const scaleScore = (match: ScaleMatch, bassIsRoot: boolean, index: number) =>
+  match.missing * 10 + (match.rootPlayed ? 0 : 20) + (bassIsRoot ? 0 : 3) + index / 100;
+
+// Every scale and mode (on any root) containing all the pitches, best fit first:
+// fewest extra notes, then rooted on a played note, then on the lowest one.
+export const identifyScales = (
+  pitches: number[],
+  formulas: StructureFormula[] = SCALE_FORMULAS,
+  spellings?: Map<number, SpelledNote>
+): ScaleMatch[] => {
+  const pitchClasses = new Set(pitches.map(mod12));
+  if (pitchClasses.size === 0) return [];
+  const bassPc = mod12(Math.min(...pitches));
+
+  const scored: { match: ScaleMatch; score: number }[] = [];
+  for (let rootPc = 0; rootPc < 12; rootPc++) {
+    formulas.forEach((formula, index) => {
+      const tones = new Set(formula.intervals.map(l => mod12(semitones(l) + rootPc)));
+      if (![...pitchClasses].every(pc => tones.has(pc))) return;
+
+      const root = spellings?.get(rootPc) ?? spellScaleRoot(rootPc, formula);
+      const match: ScaleMatch = {
+        name: `${formatNote(root)} ${formula.name}`,
+        root,
+        formula,
+        missing: tones.size - pitchClasses.size,
+        rootPlayed: pitchClasses.has(rootPc),
+      };
+      scored.push({ match, score: scaleScore(match, rootPc === bassPc, index) });
+    });
+  }
+
+  return scored.sort((a, b) => a.score - b.score).map(s => s.match);
+};
@@ -0,0 +1,72 @@
+import type { MusicTheoryResponse } from './types';
+import { SpelledNote, formatNote, midiNumber, mod12, parseNote, pitchClass } from './theory';
+import { NoteNaming, parseNoteName } from './noteNames';
+import { ChordMatch, DEFAULT_SPELLING, ScaleMatch } from './recognition';
+import { structureResponse } from './parser';
+
+// Notes -> names: turns typed or clicked notes into pitches for recognition, and
+// a picked chord or scale back into a normal result.
+
+export interface NoteSelection {
+  pitches: number[];                     // MIDI numbers, lowest first
+  spellings: Map<number, SpelledNote>;   // Pitch class -> how the user wrote it
+}
+
+// "C E G Bb D", "c,e,g", "F#3 A3 C#4", "Fis A Cis", "Do Mi Sol". Null if any token isn't a note.
+// Notes without an octave are stacked upwards from octave 3, so the first is the bass.
+export const parseNoteList = (text: string, naming?: NoteNaming): NoteSelection | null => {
+  const tokens = text.split(/[\s,;|]+/).filter(Boolean);
+  if (tokens.length === 0) return null;
+
+  const pitches: number[] = [];
+  const spellings = new Map<number, SpelledNote>();
+  for (const token of tokens) {
+    const note = parseNoteName(token, { naming });
+    if (!note) return null;
+    let midi = midiNumber({ ...note, octave: note.octave ?? 3 });
+    if (note.octave === undefined) {
+      while (pitches.length > 0 && midi <= pitches[pitches.length - 1]) midi += 12;
+    }
+    if (!pitches.includes(midi)) pitches.push(midi);
+    spellings.set(pitchClass(note), { ...note, octave: undefined });
+  }
+  return { pitches: [...pitches].sort((a, b) => a - b), spellings };
+};
+
+// The note's octave chosen so it sounds at `midi`
+const withPitch = (note: SpelledNote, midi: number): SpelledNote => {
+  const octave = 4 + (midi - midiNumber({ ...note, octave: 4 })) / 12;
+  return { ...note, octave };
+};
+
+// "C3 E3 G3" for the selection, spelled as typed where possible
+export const formatSelection = ({ pitches, spellings }: NoteSelection): string[] =>
+  pitches.map(midi => {
+    const note = spellings.get(mod12(midi)) ?? parseNote(DEFAULT_SPELLING[mod12(midi)])!;
+    return formatNote(withPitch(note, midi));
+  });
+
+const INVERSION_NAMES = ['root position', 'first inversion', 'second inversion', 'third inversion'];
+
+// The chord as a result, voiced exactly as it was played
+export const chordMatchResponse = (match: ChordMatch, pitches: number[]): MusicTheoryResponse => {
+  const response = structureResponse(parseNote(match.root)!, match.formula);
+  const chordNotes = response.notes.map(n => parseNote(n)!);
+  const voicing = pitches.map(midi => {
+    const note = chordNotes.find(n => pitchClass(n) === mod12(midi)) ?? parseNote(DEFAULT_SPELLING[mod12(midi)])!;
+    return formatNote(withPitch(note, midi));
+  });
+
+  const details = [
+    match.bass ? `Played over ${match.bass} in the bass (${INVERSION_NAMES[match.inversion] ?? `inversion ${match.inversion}`}).` : '',
+    match.omitted.length > 0 ? 'The fifth is left out.' : '',
+  ].filter(Boolean);
+
+  return {
+    ...response,
+    voicing,
+    description: [response.description, ...details].join(' '),
+  };
+};
+
+export const scaleMatchResponse = (match: ScaleMatch): MusicTheoryResponse => structureResponse(match.root, match.formula);
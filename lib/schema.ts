@@ -0,0 +1,119 @@
+import { Type, Schema } from "@google/genai";
+
+// Shape every provider is asked to return; also used to validate what comes back
+export const THEORY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    root: {
+      type: Type.STRING,
+      description: "The root note of the scale or chord (e.g., 'C', 'F#', 'Bb').",
+    },
+    type: {
+      type: Type.STRING,
+      description: "The specific name of the scale or chord (e.g., 'Major', 'Minor Harmonic', 'Dominant 7th').",
+    },
+    category: {
+      type: Type.STRING,
+      enum: ["scale", "chord", "interval", "progression", "other"],
+      description: "The category of the musical structure.",
+    },
+    notes: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "The list of notes in the scale or chord. Normalize sharp/flat spelling to be consistent (e.g., use either Sharps or Flats based on the key signature).",
+    },
+    intervals: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "The interval structure relative to the root (e.g., ['1', '3', '5', 'b7']).",
+    },
+    description: {
+      type: Type.STRING,
+      description: "A concise, 1-2 sentence explanation of this musical structure and its emotional quality or usage.",
+    },
+    keySignature: {
+      type: Type.OBJECT,
+      properties: {
+        type: {
+          type: Type.STRING,
+          enum: ["sharp", "flat", "none"],
+          description: "Whether the key signature uses sharps, flats, or neither."
+        },
+        count: {
+          type: Type.NUMBER,
+          description: "The number of sharps or flats in the key signature."
+        },
+        notes: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+          description: "The specific notes that are altered in the key signature (e.g. ['F#', 'C#'])."
+        }
+      },
+      required: ["type", "count", "notes"],
+      description: "The key signature associated with the scale or mode. For chords, provide the key signature of the corresponding major/minor key if applicable, or return type='none' if ambiguous."
+    },
+    voicing: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "For chords, a playable voicing with octave numbers between C3 and B4, lowest note first (e.g. ['C3', 'E3', 'G3', 'B3', 'D4']). Every pitch must be one of the notes.",
+    },
+    progression: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          numeral: { type: Type.STRING, description: "Roman numeral in the key, e.g. 'ii7', 'V', 'bVII'." },
+          function: { type: Type.STRING, enum: ["tonic", "subdominant", "dominant"], description: "Harmonic function of the chord in the key." },
+          root: { type: Type.STRING, description: "Root note of the chord." },
+          type: { type: Type.STRING, description: "Chord name, e.g. 'Minor 7th'." },
+          symbol: { type: Type.STRING, description: "Chord symbol, e.g. 'Cm7'." },
+          notes: { type: Type.ARRAY, items: { type: Type.STRING } },
+          intervals: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ["numeral", "function", "root", "type", "symbol", "notes", "intervals"],
+      },
+      description: "For category 'progression' only: the chords in order. root/notes/intervals/keySignature then describe the key itself.",
+    }
+  },
+  required: ["root", "type", "category", "notes", "intervals", "description", "keySignature"],
+};
+
+// Checks a value against a Gemini response `Schema` and returns every problem
+// found (empty when valid). Only the parts of the schema spec we use are handled.
+export const validateAgainstSchema = (value: unknown, schema: Schema, path = 'response'): string[] => {
+  if (value === null || value === undefined) {
+    return schema.nullable ? [] : [`${path} is missing`];
+  }
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) return [`${path} should be an object`];
+      const record = value as Record<string, unknown>;
+      const issues: string[] = [];
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined) issues.push(`${path}.${key} is required`);
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+        if (record[key] !== undefined) issues.push(...validateAgainstSchema(record[key], propertySchema, `${path}.${key}`));
+      }
+      return issues;
+    }
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) return [`${path} should be an array`];
+      if (!schema.items) return [];
+      return value.flatMap((item, i) => validateAgainstSchema(item, schema.items!, `${path}[${i}]`));
+    }
+    case Type.STRING:
+      if (typeof value !== 'string') return [`${path} should be a string`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path} should be one of ${schema.enum.join(', ')}`];
+      return [];
+    case Type.NUMBER:
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path} should be a number`];
+    case Type.INTEGER:
+      return Number.isInteger(value) ? [] : [`${path} should be an integer`];
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? [] : [`${path} should be a boolean`];
+    default:
+      return [];
+  }
+};
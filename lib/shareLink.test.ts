@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { MusicTheoryResponse } from './types';
+import { parseMusicQuery } from './parser';
+import { buildShareHash, decodeResponse, encodeResponse, readShareHash } from './shareLink';
+
+const CUSTOM: MusicTheoryResponse = {
+  root: 'D',
+  type: 'Custom Voicing',
+  category: 'chord',
+  notes: ['D', 'F', 'A', 'C', 'E'],
+  intervals: ['1', 'b3', '5', 'b7', '9'],
+  description: 'A Dm9 voicing from the model',
+  keySignature: { type: 'none', count: 0, notes: [] },
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('encodeResponse / decodeResponse', () => {
+  it('round-trips through the compressed form', async () => {
+    const payload = await encodeResponse(CUSTOM);
+    expect(payload[0]).toBe('z');
+    expect(payload).toMatch(/^[\w-]+$/);
+    expect(await decodeResponse(payload)).toEqual(CUSTOM);
+  });
+
+  it('falls back to plain JSON without compression streams', async () => {
+    vi.stubGlobal('CompressionStream', undefined);
+    const payload = await encodeResponse(CUSTOM);
+    expect(payload[0]).toBe('j');
+    expect(await decodeResponse(payload)).toEqual(CUSTOM);
+  });
+
+  it('rejects payloads that are not a valid result', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await decodeResponse('x' + (await encodeResponse(CUSTOM)).slice(1))).toBeNull();
+    expect(await decodeResponse('zgarbage')).toBeNull();
+    expect(await decodeResponse('j' + btoa(JSON.stringify({ root: 'C' })))).toBeNull();
+  });
+});
+
+describe('buildShareHash / readShareHash', () => {
+  it('leaves the result out when the query reproduces it', async () => {
+    const hash = await buildShareHash('C Dorian', parseMusicQuery('C Dorian'), { view: 'fretboard' });
+    expect(hash).toBe('#q=C+Dorian&view=fretboard');
+    expect(await readShareHash(hash)).toEqual({
+      query: 'C Dorian',
+      response: parseMusicQuery('C Dorian'),
+      options: { view: 'fretboard' },
+    });
+  });
+
+  it('carries the result when the query alone would not', async () => {
+    const hash = await buildShareHash('a dark minor ninth', CUSTOM, { tempo: 90, tuning: undefined });
+    const params = new URLSearchParams(hash.slice(1));
+    expect(params.has('r')).toBe(true);
+    expect(params.has('tuning')).toBe(false);
+    expect(await readShareHash(hash)).toEqual({ query: 'a dark minor ninth', response: CUSTOM, options: { tempo: '90' } });
+  });
+
+  it('keeps reserved keys out of the options', async () => {
+    const hash = await buildShareHash('C Dorian', parseMusicQuery('C Dorian'), { q: 'other', r: 'other' });
+    expect(hash).toBe('#q=C+Dorian');
+  });
+
+  it('has nothing to share without a result', async () => {
+    expect(await buildShareHash('C Dorian', null)).toBe('');
+    expect(await readShareHash('#view=fretboard')).toBeNull();
+  });
+});
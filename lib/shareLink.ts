@@ -0,0 +1,93 @@
+import type { MusicTheoryResponse } from './types';
+import { THEORY_SCHEMA, validateAgainstSchema } from './schema';
+import { parseMusicQuery } from './parser';
+
+// Shareable links. The URL hash carries the query, any display options, and the
+// result itself when the query can't be re-derived locally, so opening a link
+// never needs a model call:  #q=C+Dorian&view=fretboard  or  #q=...&r=z<base64url>
+
+export interface ShareLink {
+  query: string;
+  response: MusicTheoryResponse | null; // null when the link only had a query
+  options: Record<string, string>;      // Display settings; the app checks its own keys
+}
+
+// Reserved for the query and result; everything else is a display option
+const QUERY_PARAM = 'q';
+const RESPONSE_PARAM = 'r';
+
+// Payload prefixes: deflate-compressed or plain JSON
+const COMPRESSED = 'z';
+const PLAIN = 'j';
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+const canCompress = () => typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+export const encodeResponse = async (response: MusicTheoryResponse): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(response));
+  if (!canCompress()) return PLAIN + toBase64Url(json);
+  return COMPRESSED + toBase64Url(await transform(json, new CompressionStream('deflate-raw')));
+};
+
+// Null for anything that doesn't decode to a valid result
+export const decodeResponse = async (payload: string): Promise<MusicTheoryResponse | null> => {
+  try {
+    const bytes = fromBase64Url(payload.slice(1));
+    let json: Uint8Array;
+    if (payload[0] === PLAIN) json = bytes;
+    else if (payload[0] === COMPRESSED && canCompress()) json = await transform(bytes, new DecompressionStream('deflate-raw'));
+    else return null;
+    const response: unknown = JSON.parse(new TextDecoder().decode(json));
+    return validateAgainstSchema(response, THEORY_SCHEMA).length === 0 ? (response as MusicTheoryResponse) : null;
+  } catch (e) {
+    console.error("Failed to decode shared result", e);
+    return null;
+  }
+};
+
+// The result only travels in the link when the query alone wouldn't reproduce it
+const reproducible = (query: string, response: MusicTheoryResponse) =>
+  JSON.stringify(parseMusicQuery(query)) === JSON.stringify(response);
+
+// "#q=...&..." for a result, or '' when there's nothing to share
+export const buildShareHash = async (
+  query: string,
+  response: MusicTheoryResponse | null,
+  options: Record<string, string | number | undefined> = {}
+): Promise<string> => {
+  if (!response) return '';
+  const params = new URLSearchParams({ [QUERY_PARAM]: query });
+  for (const [key, value] of Object.entries(options)) {
+    if (value !== undefined && key !== QUERY_PARAM && key !== RESPONSE_PARAM) params.set(key, String(value));
+  }
+  if (!reproducible(query, response)) params.set(RESPONSE_PARAM, await encodeResponse(response));
+  return `#${params}`;
+};
+
+export const readShareHash = async (hash: string): Promise<ShareLink | null> => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const query = params.get(QUERY_PARAM);
+  if (query === null) return null;
+
+  const payload = params.get(RESPONSE_PARAM);
+  const response = (payload ? await decodeResponse(payload) : null) ?? parseMusicQuery(query);
+
+  const options: Record<string, string> = {};
+  params.forEach((value, key) => {
+    if (key !== QUERY_PARAM && key !== RESPONSE_PARAM) options[key] = value;
+  });
+  return { query, response, options };
+};
@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { readStorage, readStoredJson, writeStorage, writeStoredJson } from './storage';
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  };
+};
+
+const failingStorage = () => ({
+  getItem: () => {
+    throw new DOMException('The operation is insecure.', 'SecurityError');
+  },
+  setItem: () => {
+    throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+  },
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('storage', () => {
+  it('round-trips strings and JSON', () => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    expect(writeStorage('name', 'german')).toBe(true);
+    expect(writeStoredJson('settings', { tuning: 'drop-d' })).toBe(true);
+
+    expect(readStorage('name')).toBe('german');
+    expect(readStoredJson('settings')).toEqual({ tuning: 'drop-d' });
+    expect(readStorage('missing')).toBeNull();
+    expect(readStoredJson('missing')).toBeUndefined();
+  });
+
+  it('reads unparseable JSON as nothing saved', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('localStorage', memoryStorage());
+    writeStorage('settings', '{not json');
+
+    expect(readStoredJson('settings')).toBeUndefined();
+  });
+
+  it('never throws when storage is unavailable', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('localStorage', failingStorage());
+
+    expect(readStorage('name')).toBeNull();
+    expect(readStoredJson('settings')).toBeUndefined();
+    expect(writeStorage('name', 'german')).toBe(false);
+    expect(writeStoredJson('settings', {})).toBe(false);
+    expect(error).toHaveBeenCalledTimes(4);
+  });
+
+  it('copes with no storage at all', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(readStorage('name')).toBeNull();
+    expect(writeStorage('name', 'german')).toBe(false);
+  });
+});
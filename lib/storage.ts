@@ -0,0 +1,38 @@
+// Everything the app keeps between visits goes through here. Storage can be missing,
+// blocked or full (private browsing, quota), so reads fall back to "nothing saved"
+// and writes are best-effort; neither ever throws into the UI.
+
+// The saved string, or null when there's none or storage can't be read
+export const readStorage = (key: string): string | null => {
+  try {
+    return localStorage.getItem(key);
+  } catch (e) {
+    console.error(`Failed to read "${key}" from storage`, e);
+    return null;
+  }
+};
+
+// The saved value, or undefined when there's none or it isn't valid JSON
+export const readStoredJson = (key: string): unknown => {
+  const saved = readStorage(key);
+  if (saved === null) return undefined;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error(`Failed to parse "${key}" from storage`, e);
+    return undefined;
+  }
+};
+
+// Whether the value was saved
+export const writeStorage = (key: string, value: string): boolean => {
+  try {
+    localStorage.setItem(key, value);
+    return true;
+  } catch (e) {
+    console.error(`Failed to save "${key}" to storage`, e);
+    return false;
+  }
+};
+
+export const writeStoredJson = (key: string, value: unknown): boolean => writeStorage(key, JSON.stringify(value));
@@ -0,0 +1,121 @@
+// Sound settings for the built-in synth, the factory presets and the user's own
+// presets (kept in localStorage).
+
+import { readStoredJson, writeStoredJson } from './storage';
+
+export type SoundSource = 'synth' | 'piano';
+
+export interface SynthPatch {
+  source: SoundSource;
+  waveform: OscillatorType;
+  attack: number;          // seconds
+  decay: number;           // seconds
+  sustain: number;         // level, 0-1
+  release: number;         // seconds
+  filterCutoff: number;    // Hz, low-pass
+  filterResonance: number; // Q
+  unison: number;          // oscillators per note
+  detune: number;          // cents spread across the unison oscillators
+  volume: number;          // master, 0-1
+  polyphony: number;       // voices before the oldest is stolen
+}
+
+export interface SynthPreset {
+  name: string;
+  patch: SynthPatch;
+  builtIn?: boolean;
+}
+
+export interface SampleSource {
+  midi: number;
+  url: string;
+}
+
+export const DEFAULT_PATCH: SynthPatch = {
+  source: 'synth',
+  waveform: 'triangle',
+  attack: 0.05,
+  decay: 0.2,
+  sustain: 0.8,
+  release: 0.2,
+  filterCutoff: 12000,
+  filterResonance: 0.7,
+  unison: 1,
+  detune: 0,
+  volume: 0.8,
+  polyphony: 16,
+};
+
+const preset = (name: string, changes: Partial<SynthPatch>): SynthPreset => ({
+  name,
+  patch: { ...DEFAULT_PATCH, ...changes },
+  builtIn: true,
+});
+
+export const FACTORY_PRESETS: SynthPreset[] = [
+  preset('Init', {}),
+  preset('Soft Pad', { waveform: 'sawtooth', attack: 0.6, decay: 0.5, sustain: 0.7, release: 1.2, filterCutoff: 1800, unison: 3, detune: 14 }),
+  preset('Pluck', { waveform: 'sawtooth', attack: 0.005, decay: 0.25, sustain: 0, release: 0.15, filterCutoff: 3200, filterResonance: 4 }),
+  preset('Organ', { waveform: 'sine', attack: 0.01, decay: 0, sustain: 1, release: 0.05, unison: 2, detune: 4 }),
+  preset('Supersaw', { waveform: 'sawtooth', attack: 0.02, decay: 0.3, sustain: 0.6, release: 0.4, filterCutoff: 6000, unison: 5, detune: 30, volume: 0.6 }),
+  preset('Grand Piano', { source: 'piano', attack: 0.002, decay: 2.5, sustain: 0.25, release: 0.5 }),
+];
+
+// Sampled piano: one file every minor third (C, D#, F#, A), pitched to the notes in
+// between. Drop files named like "C4.mp3" / "Ds4.mp3" / "Fs4.mp3" / "A4.mp3" in public/samples/piano.
+const SAMPLE_NAMES: [string, number][] = [['C', 0], ['Ds', 3], ['Fs', 6], ['A', 9]];
+
+export const PIANO_SAMPLES: SampleSource[] = [1, 2, 3, 4, 5, 6, 7].flatMap(octave =>
+  SAMPLE_NAMES.map(([name, offset]) => ({
+    midi: (octave + 1) * 12 + offset,
+    url: `/samples/piano/${name}${octave}.mp3`,
+  }))
+);
+
+// No samples ship with the app, so the piano is only offered once middle C is there.
+// A HEAD request decodes nothing and needs no AudioContext, so this can run on load.
+export const pianoSamplesAvailable = async (): Promise<boolean> => {
+  const middleC = PIANO_SAMPLES.find(sample => sample.midi === 60)!;
+  try {
+    const response = await fetch(middleC.url, { method: 'HEAD' });
+    // Dev servers answer unknown paths with the app's index.html
+    return response.ok && !response.headers.get('content-type')?.startsWith('text/html');
+  } catch {
+    return false;
+  }
+};
+
+const PATCH_KEY = 'theorygen_synth_patch';
+const PRESETS_KEY = 'theorygen_synth_presets';
+
+// Older or hand-edited data may miss fields; fill them from the defaults
+const toPatch = (value: unknown): SynthPatch => ({
+  ...DEFAULT_PATCH,
+  ...(value && typeof value === 'object' ? value : {}),
+});
+
+export const loadCurrentPatch = (): SynthPatch => toPatch(readStoredJson(PATCH_KEY));
+
+export const saveCurrentPatch = (patch: SynthPatch) => {
+  writeStoredJson(PATCH_KEY, patch);
+};
+
+export const loadUserPresets = (): SynthPreset[] => {
+  const saved = readStoredJson(PRESETS_KEY);
+  if (!Array.isArray(saved)) return [];
+  return (saved as SynthPreset[])
+    .filter(p => p && typeof p.name === 'string')
+    .map(p => ({ name: p.name, patch: toPatch(p.patch) }));
+};
+
+const storeUserPresets = (presets: SynthPreset[]) => {
+  writeStoredJson(PRESETS_KEY, presets);
+  return presets;
+};
+
+// Saving under an existing name replaces that preset
+export const saveUserPreset = (name: string, patch: SynthPatch): SynthPreset[] =>
+  storeUserPresets([...loadUserPresets().filter(p => p.name !== name), { name, patch }]);
+
+export const deleteUserPreset = (name: string): SynthPreset[] =>
+  storeUserPresets(loadUserPresets().filter(p => p.name !== name));
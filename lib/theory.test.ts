@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import type { MusicTheoryResponse } from './types';
+import {
+  buildStructure,
+  correctTheoryResponse,
+  findFormula,
+  formatInterval,
+  formatNote,
+  intervalBetween,
+  isValidKeySignature,
+  keySignatureFifths,
+  keySignatureFromFifths,
+  majorKeySignature,
+  majorTonicAt,
+  midiNumber,
+  parseInterval,
+  parseNote,
+  transposeNote,
+} from './theory';
+
+const note = (name: string) => parseNote(name)!;
+
+describe('notes', () => {
+  it('round-trips names through parse and format', () => {
+    for (const name of ['C', 'F#', 'Bb', 'Fx', 'Ebb', 'C#4', 'Bb-1']) {
+      expect(formatNote(note(name))).toBe(name.replace('x', '##'));
+    }
+    expect(formatNote(note('bb3'))).toBe('Bb3');
+    expect(parseNote('H')).toBeNull();
+  });
+
+  it('numbers notes as MIDI does', () => {
+    expect(midiNumber(note('C4'))).toBe(60);
+    expect(midiNumber(note('B#3'))).toBe(60);
+    expect(midiNumber(note('Cb5'))).toBe(71);
+  });
+});
+
+describe('intervals', () => {
+  it('reads degree and quality labels', () => {
+    expect(parseInterval('b3')).toEqual({ number: 3, alteration: -1 });
+    expect(parseInterval('m3')).toEqual({ number: 3, alteration: -1 });
+    expect(parseInterval('A4')).toEqual({ number: 4, alteration: 1 });
+    expect(parseInterval('M5')).toBeNull();
+  });
+
+  it('transposes and measures back to the same interval', () => {
+    for (const root of ['C', 'F#', 'Eb', 'B']) {
+      for (const label of ['1', 'b2', '2', '#2', 'b3', '3', '4', '#4', 'b5', '5', '#5', 'b6', '6', 'bb7', 'b7', '7']) {
+        const target = transposeNote(note(root), parseInterval(label)!);
+        expect(formatInterval(intervalBetween(note(root), target))).toBe(label);
+      }
+    }
+  });
+
+  it('keeps octaves when transposing', () => {
+    expect(formatNote(transposeNote(note('B3'), parseInterval('b3')!))).toBe('D4');
+    expect(formatNote(transposeNote(note('C4'), parseInterval('9')!))).toBe('D5');
+  });
+});
+
+describe('key signatures', () => {
+  it('gives each major key its signature', () => {
+    expect(majorKeySignature(note('Eb'))).toEqual({ type: 'flat', count: 3, notes: ['Bb', 'Eb', 'Ab'] });
+    expect(majorKeySignature(note('E')).notes).toEqual(['F#', 'C#', 'G#', 'D#']);
+    expect(majorKeySignature(note('C'))).toEqual({ type: 'none', count: 0, notes: [] });
+  });
+
+  it('only accepts signatures of real keys', () => {
+    expect(isValidKeySignature({ type: 'sharp', count: 2, notes: ['F#', 'C#'] })).toBe(true);
+    expect(isValidKeySignature({ type: 'sharp', count: 2, notes: ['C#', 'F#'] })).toBe(false);
+    expect(isValidKeySignature({ type: 'flat', count: 1, notes: ['Eb'] })).toBe(false);
+  });
+
+  it('round-trips positions on the line of fifths', () => {
+    for (let position = -7; position <= 7; position++) {
+      expect(keySignatureFifths(keySignatureFromFifths(position))).toBe(position);
+    }
+  });
+
+  it('names the major key at each position', () => {
+    expect([-7, -1, 0, 1, 6, 7].map(p => formatNote(majorTonicAt(p)))).toEqual(['Cb', 'F', 'C', 'G', 'F#', 'C#']);
+  });
+});
+
+describe('buildStructure', () => {
+  it('spells scales and chords from their formulas', () => {
+    expect(buildStructure(note('F#'), findFormula('Major', 'scale')!).notes).toEqual(['F#', 'G#', 'A#', 'B', 'C#', 'D#', 'E#']);
+    expect(buildStructure(note('D'), findFormula('Dorian', 'scale')!).keySignature).toEqual({ type: 'none', count: 0, notes: [] });
+    expect(buildStructure(note('Eb'), findFormula('Minor 7th', 'chord')!).notes).toEqual(['Eb', 'Gb', 'Bb', 'Db']);
+  });
+});
+
+describe('correctTheoryResponse', () => {
+  const response: MusicTheoryResponse = {
+    root: 'A',
+    type: 'Harmonic Minor',
+    category: 'scale',
+    notes: ['A', 'B', 'C', 'D', 'E', 'F', 'G#'],
+    intervals: ['1', '2', 'b3', '4', '5', 'b6', '7'],
+    description: '',
+    keySignature: { type: 'none', count: 0, notes: [] },
+  };
+
+  it('leaves a correct answer alone', () => {
+    expect(correctTheoryResponse(response)).toEqual(response);
+  });
+
+  it('fixes wrong notes and records why', () => {
+    const corrected = correctTheoryResponse({ ...response, notes: ['A', 'B', 'C', 'D', 'E', 'F', 'Ab'] });
+    expect(corrected.notes).toEqual(response.notes);
+    expect(corrected.corrections).toEqual(['Notes corrected: A B C D E F Ab → A B C D E F G#']);
+  });
+});
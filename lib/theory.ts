@@ -0,0 +1,381 @@
+import type { KeySignature, MusicTheoryResponse } from './types';
+
+// Deterministic music theory core. Everything here is pure so it can be used to
+// double-check (and fix) whatever the model returns.
+
+export type Letter = 'C' | 'D' | 'E' | 'F' | 'G' | 'A' | 'B';
+
+export interface SpelledNote {
+  letter: Letter;
+  accidental: number; // -2 = double flat ... +2 = double sharp
+  octave?: number;
+}
+
+export interface Interval {
+  number: number;     // 1 = unison, 3 = third, 9 = ninth ...
+  alteration: number; // semitones relative to the major-scale degree
+}
+
+export interface StructureFormula {
+  name: string;
+  category: 'scale' | 'chord';
+  intervals: string[];
+  aliases: string[];
+  symbol?: string; // Chord symbol suffix, e.g. 'm7' in Dm7
+  // Interval from the root up to the major key whose signature applies.
+  // Left out when there is no sensible key (whole tone, diminished, ...).
+  tonality?: string;
+}
+
+export const LETTERS: Letter[] = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+
+const LETTER_PITCH: Record<Letter, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// Semitones above the root for each degree of the major scale
+const MAJOR_STEPS = [0, 2, 4, 5, 7, 9, 11];
+
+// Position of each natural on the line of fifths (C = 0)
+const FIFTHS: Record<Letter, number> = { F: -1, C: 0, G: 1, D: 2, A: 3, E: 4, B: 5 };
+
+const SHARP_ORDER: Letter[] = ['F', 'C', 'G', 'D', 'A', 'E', 'B'];
+const FLAT_ORDER: Letter[] = ['B', 'E', 'A', 'D', 'G', 'C', 'F'];
+
+export const mod12 = (n: number): number => ((n % 12) + 12) % 12;
+const mod7 = (n: number): number => ((n % 7) + 7) % 7;
+
+// --- Notes ---
+
+const NOTE_PATTERN = /^([A-Ga-g])(##|x|bb|#|b)?(-?\d+)?$/;
+
+export const parseNote = (name: string): SpelledNote | null => {
+  const match = name.trim().match(NOTE_PATTERN);
+  if (!match) return null;
+
+  const [, letter, accidental = '', octave] = match;
+  const accidentalValue = { '': 0, '#': 1, '##': 2, 'x': 2, 'b': -1, 'bb': -2 }[accidental] ?? 0;
+
+  return {
+    letter: letter.toUpperCase() as Letter,
+    accidental: accidentalValue,
+    octave: octave !== undefined ? parseInt(octave, 10) : undefined,
+  };
+};
+
+export const formatNote = (note: SpelledNote): string => {
+  const accidental = note.accidental >= 0 ? '#'.repeat(note.accidental) : 'b'.repeat(-note.accidental);
+  return `${note.letter}${accidental}${note.octave ?? ''}`;
+};
+
+export const pitchClass = (note: SpelledNote): number => mod12(LETTER_PITCH[note.letter] + note.accidental);
+
+// MIDI number of a note with an octave (C4 = 60)
+export const midiNumber = (note: SpelledNote): number =>
+  ((note.octave ?? 4) + 1) * 12 + LETTER_PITCH[note.letter] + note.accidental;
+
+// Normalizes spelling ("bb" -> "Bb") without changing the note; unparseable names pass through
+export const normalizeNoteName = (name: string): string => {
+  const note = parseNote(name);
+  return note ? formatNote(note) : name.trim();
+};
+
+// --- Intervals ---
+
+const PERFECT_DEGREES = new Set([1, 4, 5]);
+
+const isPerfect = (number: number) => PERFECT_DEGREES.has(((number - 1) % 7) + 1);
+
+// Accepts both degree labels ("b3", "#11", "bb7") and quality labels ("m3", "P5", "A4")
+export const parseInterval = (label: string): Interval | null => {
+  const text = label.trim();
+  if (/^r(oot)?$/i.test(text)) return { number: 1, alteration: 0 };
+
+  const degree = text.match(/^(bb|b|##|#)?(\d+)$/);
+  if (degree) {
+    const number = parseInt(degree[2], 10);
+    if (number < 1) return null;
+    const alteration = { '': 0, '#': 1, '##': 2, 'b': -1, 'bb': -2 }[degree[1] ?? ''] ?? 0;
+    return { number, alteration };
+  }
+
+  const quality = text.match(/^(P|M|m|A|d)(\d+)$/);
+  if (quality) {
+    const number = parseInt(quality[2], 10);
+    if (number < 1) return null;
+    const q = quality[1];
+    if (isPerfect(number)) {
+      if (q === 'M' || q === 'm') return null;
+      return { number, alteration: q === 'A' ? 1 : q === 'd' ? -1 : 0 };
+    }
+    if (q === 'P') return null;
+    return { number, alteration: { M: 0, m: -1, A: 1, d: -2 }[q as 'M' | 'm' | 'A' | 'd'] };
+  }
+
+  return null;
+};
+
+export const formatInterval = (interval: Interval): string => {
+  const prefix = interval.alteration >= 0 ? '#'.repeat(interval.alteration) : 'b'.repeat(-interval.alteration);
+  return `${prefix}${interval.number}`;
+};
+
+export const intervalSemitones = (interval: Interval): number => {
+  const index = interval.number - 1;
+  return 12 * Math.floor(index / 7) + MAJOR_STEPS[index % 7] + interval.alteration;
+};
+
+// Two intervals are equivalent when they land on the same letter and pitch class (e.g. "9" and "2")
+export const intervalsEquivalent = (a: Interval, b: Interval): boolean =>
+  (a.number - 1) % 7 === (b.number - 1) % 7 && mod12(intervalSemitones(a)) === mod12(intervalSemitones(b));
+
+export const transposeNote = (root: SpelledNote, interval: Interval): SpelledNote => {
+  const letter = LETTERS[mod7(LETTERS.indexOf(root.letter) + interval.number - 1)];
+  const semitones = intervalSemitones(interval);
+  let accidental = mod12(pitchClass(root) + semitones - LETTER_PITCH[letter]);
+  if (accidental > 6) accidental -= 12;
+
+  const result: SpelledNote = { letter, accidental };
+  if (root.octave !== undefined) {
+    const absolute = midiNumber(root) + semitones;
+    result.octave = (absolute - LETTER_PITCH[letter] - accidental) / 12 - 1;
+  }
+  return result;
+};
+
+// Simple (within-octave) interval from `root` up to `note`
+export const intervalBetween = (root: SpelledNote, note: SpelledNote): Interval => {
+  const number = mod7(LETTERS.indexOf(note.letter) - LETTERS.indexOf(root.letter)) + 1;
+  let alteration = mod12(pitchClass(note) - pitchClass(root)) - MAJOR_STEPS[number - 1];
+  if (alteration > 6) alteration -= 12;
+  if (alteration < -6) alteration += 12;
+  return { number, alteration };
+};
+
+// --- Key signatures ---
+
+export const NO_KEY_SIGNATURE: KeySignature = { type: 'none', count: 0, notes: [] };
+
+export const fifthsPosition = (note: SpelledNote): number => FIFTHS[note.letter] + 7 * note.accidental;
+
+// Signature with `count` accidentals (negative = flats). Beyond 7 the theoretical
+// keys continue with double sharps/flats.
+export const keySignatureFromFifths = (position: number): KeySignature => {
+  if (position === 0) return { ...NO_KEY_SIGNATURE, notes: [] };
+  const order = position > 0 ? SHARP_ORDER : FLAT_ORDER;
+  const direction = position > 0 ? 1 : -1;
+  const count = Math.abs(position);
+  const notes = Array.from({ length: count }, (_, i) =>
+    formatNote({ letter: order[i % 7], accidental: direction * (Math.floor(i / 7) + 1) })
+  );
+  return { type: position > 0 ? 'sharp' : 'flat', count, notes };
+};
+
+// Inverse of keySignatureFromFifths: sharps count up, flats down
+export const keySignatureFifths = (signature: KeySignature): number =>
+  signature.type === 'sharp' ? signature.count : signature.type === 'flat' ? -signature.count : 0;
+
+// Major key `position` steps round the line of fifths from C (negative = flat keys).
+// Sharps are added in line-of-fifths order, starting from F.
+export const majorTonicAt = (position: number): SpelledNote => ({
+  letter: SHARP_ORDER[mod7(position + 1)],
+  accidental: Math.floor((position + 1) / 7),
+});
+
+export const majorKeySignature = (tonic: SpelledNote): KeySignature =>
+  keySignatureFromFifths(fifthsPosition(tonic));
+
+// A signature is only valid if it matches one of the real (or theoretical) keys exactly
+export const isValidKeySignature = (signature: KeySignature): boolean => {
+  if (signature.type === 'none') return signature.count === 0 && signature.notes.length === 0;
+  const expected = keySignatureFromFifths(signature.type === 'sharp' ? signature.count : -signature.count);
+  return (
+    expected.count > 0 &&
+    signature.notes.length === expected.notes.length &&
+    signature.notes.every((n, i) => normalizeNoteName(n) === expected.notes[i])
+  );
+};
+
+const sameKeySignature = (a: KeySignature | undefined, b: KeySignature): boolean =>
+  !!a &&
+  a.type === b.type &&
+  a.count === b.count &&
+  a.notes.length === b.notes.length &&
+  a.notes.every((n, i) => normalizeNoteName(n) === b.notes[i]);
+
+const describeKeySignature = (signature?: KeySignature): string => {
+  if (!signature || signature.type === 'none') return 'none';
+  return `${signature.count} ${signature.type}${signature.count === 1 ? '' : 's'}`;
+};
+
+// --- Formulas ---
+
+export const SCALE_FORMULAS: StructureFormula[] = [
+  { name: 'Major', category: 'scale', intervals: ['1', '2', '3', '4', '5', '6', '7'], aliases: ['major', 'ionian', 'major ionian'], tonality: '1' },
+  { name: 'Natural Minor', category: 'scale', intervals: ['1', '2', 'b3', '4', '5', 'b6', 'b7'], aliases: ['minor', 'natural minor', 'minor natural', 'aeolian', 'natural minor aeolian'], tonality: 'b3' },
+  { name: 'Harmonic Minor', category: 'scale', intervals: ['1', '2', 'b3', '4', '5', 'b6', '7'], aliases: ['harmonic minor', 'minor harmonic'], tonality: 'b3' },
+  { name: 'Melodic Minor', category: 'scale', intervals: ['1', '2', 'b3', '4', '5', '6', '7'], aliases: ['melodic minor', 'minor melodic', 'jazz minor', 'ascending melodic minor', 'melodic minor ascending'], tonality: 'b3' },
+  { name: 'Dorian', category: 'scale', intervals: ['1', '2', 'b3', '4', '5', '6', 'b7'], aliases: ['dorian'], tonality: 'b7' },
+  { name: 'Phrygian', category: 'scale', intervals: ['1', 'b2', 'b3', '4', '5', 'b6', 'b7'], aliases: ['phrygian'], tonality: 'b6' },
+  { name: 'Lydian', category: 'scale', intervals: ['1', '2', '3', '#4', '5', '6', '7'], aliases: ['lydian'], tonality: '5' },
+  { name: 'Mixolydian', category: 'scale', intervals: ['1', '2', '3', '4', '5', '6', 'b7'], aliases: ['mixolydian'], tonality: '4' },
+  { name: 'Locrian', category: 'scale', intervals: ['1', 'b2', 'b3', '4', 'b5', 'b6', 'b7'], aliases: ['locrian'], tonality: 'b2' },
+  { name: 'Major Pentatonic', category: 'scale', intervals: ['1', '2', '3', '5', '6'], aliases: ['major pentatonic', 'pentatonic major', 'pentatonic'], tonality: '1' },
+  { name: 'Minor Pentatonic', category: 'scale', intervals: ['1', 'b3', '4', '5', 'b7'], aliases: ['minor pentatonic', 'pentatonic minor'], tonality: 'b3' },
+  { name: 'Blues', category: 'scale', intervals: ['1', 'b3', '4', 'b5', '5', 'b7'], aliases: ['blues', 'minor blues', 'blues minor'], tonality: 'b3' },
+  { name: 'Major Blues', category: 'scale', intervals: ['1', '2', 'b3', '3', '5', '6'], aliases: ['major blues', 'blues major'], tonality: '1' },
+  { name: 'Phrygian Dominant', category: 'scale', intervals: ['1', 'b2', '3', '4', '5', 'b6', 'b7'], aliases: ['phrygian dominant', 'spanish phrygian', 'freygish'], tonality: 'b6' },
+  { name: 'Lydian Dominant', category: 'scale', intervals: ['1', '2', '3', '#4', '5', '6', 'b7'], aliases: ['lydian dominant', 'lydian b7', 'overtone'], tonality: 'b7' },
+  { name: 'Altered', category: 'scale', intervals: ['1', 'b2', '#2', '3', 'b5', '#5', 'b7'], aliases: ['altered', 'super locrian', 'superlocrian', 'altered dominant'], tonality: 'b4' },
+  { name: 'Whole Tone', category: 'scale', intervals: ['1', '2', '3', '#4', '#5', 'b7'], aliases: ['whole tone', 'wholetone'] },
+  { name: 'Diminished (Whole-Half)', category: 'scale', intervals: ['1', '2', 'b3', '4', 'b5', 'b6', '6', '7'], aliases: ['diminished', 'whole half diminished', 'diminished whole half', 'octatonic'] },
+  { name: 'Diminished (Half-Whole)', category: 'scale', intervals: ['1', 'b2', '#2', '3', '#4', '5', '6', 'b7'], aliases: ['half whole diminished', 'diminished half whole', 'dominant diminished'] },
+  { name: 'Chromatic', category: 'scale', intervals: ['1', 'b2', '2', 'b3', '3', '4', '#4', '5', 'b6', '6', 'b7', '7'], aliases: ['chromatic'] },
+];
+
+export const CHORD_FORMULAS: StructureFormula[] = [
+  { name: 'Major', category: 'chord', intervals: ['1', '3', '5'], symbol: '', aliases: ['major', 'major triad', 'maj'], tonality: '1' },
+  { name: 'Minor', category: 'chord', intervals: ['1', 'b3', '5'], symbol: 'm', aliases: ['minor', 'minor triad', 'min'], tonality: 'b3' },
+  { name: 'Diminished', category: 'chord', intervals: ['1', 'b3', 'b5'], symbol: 'dim', aliases: ['diminished', 'diminished triad', 'dim'] },
+  { name: 'Augmented', category: 'chord', intervals: ['1', '3', '#5'], symbol: 'aug', aliases: ['augmented', 'augmented triad', 'aug'] },
+  { name: 'Suspended 2nd', category: 'chord', intervals: ['1', '2', '5'], symbol: 'sus2', aliases: ['sus2', 'suspended 2', 'suspended second'], tonality: '1' },
+  { name: 'Suspended 4th', category: 'chord', intervals: ['1', '4', '5'], symbol: 'sus4', aliases: ['sus4', 'sus', 'suspended 4', 'suspended fourth', 'suspended'], tonality: '1' },
+  { name: 'Power Chord', category: 'chord', intervals: ['1', '5'], symbol: '5', aliases: ['power', 'power chord', '5'] },
+  { name: 'Major 6th', category: 'chord', intervals: ['1', '3', '5', '6'], symbol: '6', aliases: ['major 6', '6', 'maj6'], tonality: '1' },
+  { name: 'Minor 6th', category: 'chord', intervals: ['1', 'b3', '5', '6'], symbol: 'm6', aliases: ['minor 6', 'min6', 'm6'], tonality: 'b3' },
+  { name: '6/9', category: 'chord', intervals: ['1', '3', '5', '6', '9'], symbol: '6/9', aliases: ['6 9', '6/9', 'six nine', 'major 6/9', 'major 6 9'], tonality: '1' },
+  { name: 'Dominant 7th', category: 'chord', intervals: ['1', '3', '5', 'b7'], symbol: '7', aliases: ['dominant 7', '7', 'dom7', 'dominant'], tonality: '1' },
+  { name: 'Major 7th', category: 'chord', intervals: ['1', '3', '5', '7'], symbol: 'maj7', aliases: ['major 7', 'maj7'], tonality: '1' },
+  { name: 'Minor 7th', category: 'chord', intervals: ['1', 'b3', '5', 'b7'], symbol: 'm7', aliases: ['minor 7', 'min7', 'm7'], tonality: 'b3' },
+  { name: 'Minor Major 7th', category: 'chord', intervals: ['1', 'b3', '5', '7'], symbol: 'm(maj7)', aliases: ['minor major 7', 'minmaj7', 'mmaj7'], tonality: 'b3' },
+  { name: 'Half-Diminished 7th', category: 'chord', intervals: ['1', 'b3', 'b5', 'b7'], symbol: 'm7b5', aliases: ['half diminished', 'half diminished 7', 'minor 7 flat 5', 'minor 7b5', 'm7b5'] },
+  { name: 'Diminished 7th', category: 'chord', intervals: ['1', 'b3', 'b5', 'bb7'], symbol: 'dim7', aliases: ['diminished 7', 'dim7', 'fully diminished 7'] },
+  { name: 'Augmented 7th', category: 'chord', intervals: ['1', '3', '#5', 'b7'], symbol: '7#5', aliases: ['augmented 7', 'aug7', '7#5', 'dominant 7 sharp 5'] },
+  { name: 'Augmented Major 7th', category: 'chord', intervals: ['1', '3', '#5', '7'], symbol: 'maj7#5', aliases: ['augmented major 7', 'maj7#5'] },
+  { name: 'Dominant 7th Suspended 4th', category: 'chord', intervals: ['1', '4', '5', 'b7'], symbol: '7sus4', aliases: ['7sus4', 'dominant 7 sus4', 'dominant 7 suspended 4'], tonality: '1' },
+  { name: 'Dominant 7th Flat 9', category: 'chord', intervals: ['1', '3', '5', 'b7', 'b9'], symbol: '7b9', aliases: ['7b9', 'dominant 7 flat 9', 'dominant 7b9'], tonality: '1' },
+  { name: 'Dominant 7th Sharp 9', category: 'chord', intervals: ['1', '3', '5', 'b7', '#9'], symbol: '7#9', aliases: ['7#9', 'dominant 7 sharp 9', 'dominant 7#9', 'hendrix'], tonality: '1' },
+  { name: 'Add 9', category: 'chord', intervals: ['1', '3', '5', '9'], symbol: 'add9', aliases: ['add9', 'add 9', 'major add9', 'major add 9'], tonality: '1' },
+  { name: 'Minor Add 9', category: 'chord', intervals: ['1', 'b3', '5', '9'], symbol: 'm(add9)', aliases: ['minor add9', 'minor add 9', 'madd9'], tonality: 'b3' },
+  { name: 'Dominant 9th', category: 'chord', intervals: ['1', '3', '5', 'b7', '9'], symbol: '9', aliases: ['dominant 9', '9', 'dom9'], tonality: '1' },
+  { name: 'Major 9th', category: 'chord', intervals: ['1', '3', '5', '7', '9'], symbol: 'maj9', aliases: ['major 9', 'maj9'], tonality: '1' },
+  { name: 'Minor 9th', category: 'chord', intervals: ['1', 'b3', '5', 'b7', '9'], symbol: 'm9', aliases: ['minor 9', 'min9', 'm9'], tonality: 'b3' },
+  { name: 'Dominant 11th', category: 'chord', intervals: ['1', '3', '5', 'b7', '9', '11'], symbol: '11', aliases: ['dominant 11', '11', 'dom11'], tonality: '1' },
+  { name: 'Major 11th', category: 'chord', intervals: ['1', '3', '5', '7', '9', '11'], symbol: 'maj11', aliases: ['major 11', 'maj11'], tonality: '1' },
+  { name: 'Minor 11th', category: 'chord', intervals: ['1', 'b3', '5', 'b7', '9', '11'], symbol: 'm11', aliases: ['minor 11', 'min11', 'm11'], tonality: 'b3' },
+  { name: 'Dominant 13th', category: 'chord', intervals: ['1', '3', '5', 'b7', '9', '13'], symbol: '13', aliases: ['dominant 13', '13', 'dom13'], tonality: '1' },
+  { name: 'Major 13th', category: 'chord', intervals: ['1', '3', '5', '7', '9', '13'], symbol: 'maj13', aliases: ['major 13', 'maj13'], tonality: '1' },
+  { name: 'Minor 13th', category: 'chord', intervals: ['1', 'b3', '5', 'b7', '9', '11', '13'], symbol: 'm13', aliases: ['minor 13', 'min13', 'm13'], tonality: 'b3' },
+];
+
+const ORDINALS: Record<string, string> = {
+  second: '2', fourth: '4', sixth: '6', seventh: '7', ninth: '9', eleventh: '11', thirteenth: '13',
+};
+
+// Lower-cases and strips filler words so "Minor Harmonic Scale" and "Dominant 7th Chord" match aliases
+export const normalizeStructureName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/[()\-–_,]/g, ' ')
+    .replace(/\b(\d+)(st|nd|rd|th)\b/g, '$1')
+    .replace(/\b(second|fourth|sixth|seventh|ninth|eleventh|thirteenth)\b/g, (w) => ORDINALS[w])
+    .replace(/\b(scale|mode|chord)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const findFormula = (type: string, category: MusicTheoryResponse['category']): StructureFormula | undefined => {
+  if (category !== 'scale' && category !== 'chord') return undefined;
+  const table = category === 'scale' ? SCALE_FORMULAS : CHORD_FORMULAS;
+  const key = normalizeStructureName(type);
+  return table.find(f => f.aliases.includes(key) || normalizeStructureName(f.name) === key);
+};
+
+export const keySignatureFor = (root: SpelledNote, formula: StructureFormula): KeySignature => {
+  const interval = formula.tonality ? parseInterval(formula.tonality) : null;
+  return interval ? majorKeySignature(transposeNote(root, interval)) : { ...NO_KEY_SIGNATURE, notes: [] };
+};
+
+export const buildStructure = (root: SpelledNote, formula: StructureFormula) => ({
+  notes: formula.intervals.map(label => formatNote(transposeNote({ ...root, octave: undefined }, parseInterval(label)!))),
+  intervals: [...formula.intervals],
+  keySignature: keySignatureFor(root, formula),
+});
+
+// --- Validation ---
+
+// Recomputes notes, intervals and key signature from root + type where the
+// structure is known, otherwise checks the model's notes and intervals agree.
+// Any fix is recorded in `corrections` so the UI can flag it.
+export const correctTheoryResponse = (response: MusicTheoryResponse): MusicTheoryResponse => {
+  const root = parseNote(response.root);
+  if (!root) return response;
+
+  const issues: string[] = [];
+  const corrected: MusicTheoryResponse = { ...response, root: formatNote({ ...root, octave: undefined }) };
+  const formula = findFormula(response.type, response.category);
+
+  if (formula) {
+    const expected = buildStructure(root, formula);
+
+    const notesMatch =
+      response.notes.length === expected.notes.length &&
+      response.notes.every((n, i) => normalizeNoteName(n) === expected.notes[i]);
+    if (!notesMatch) {
+      issues.push(`Notes corrected: ${response.notes.join(' ')} → ${expected.notes.join(' ')}`);
+    }
+    corrected.notes = expected.notes;
+
+    const intervalsMatch =
+      response.intervals.length === expected.intervals.length &&
+      response.intervals.every((label, i) => {
+        const given = parseInterval(label);
+        return !!given && intervalsEquivalent(given, parseInterval(expected.intervals[i])!);
+      });
+    if (!intervalsMatch) {
+      issues.push(`Intervals corrected: ${response.intervals.join(' ')} → ${expected.intervals.join(' ')}`);
+      corrected.intervals = expected.intervals;
+    }
+
+    if (!sameKeySignature(response.keySignature, expected.keySignature)) {
+      issues.push(
+        `Key signature corrected: ${describeKeySignature(response.keySignature)} → ${describeKeySignature(expected.keySignature)}`
+      );
+    }
+    corrected.keySignature = expected.keySignature;
+  } else {
+    const notes = response.notes.map(parseNote);
+    if (notes.every((n): n is SpelledNote => n !== null)) {
+      corrected.notes = notes.map(n => formatNote({ ...n, octave: undefined }));
+
+      const intervals = notes.map((note, i) => {
+        const computed = intervalBetween(root, note);
+        const given = response.intervals[i] ? parseInterval(response.intervals[i]) : null;
+        // Keep the model's label when it names the same interval (e.g. "9" instead of "2")
+        return given && intervalsEquivalent(given, computed) ? response.intervals[i] : formatInterval(computed);
+      });
+      const intervalsMatch =
+        intervals.length === response.intervals.length && intervals.every((label, i) => label === response.intervals[i]);
+      if (!intervalsMatch) {
+        issues.push(`Intervals recomputed from notes: ${response.intervals.join(' ')} → ${intervals.join(' ')}`);
+        corrected.intervals = intervals;
+      }
+    }
+
+    if (response.keySignature && !isValidKeySignature(response.keySignature)) {
+      issues.push(`Key signature removed: ${describeKeySignature(response.keySignature)} is not a real key signature`);
+      corrected.keySignature = { ...NO_KEY_SIGNATURE, notes: [] };
+    }
+  }
+
+  if (response.voicing) {
+    const pitchClasses = new Set(corrected.notes.map(parseNote).filter((n): n is SpelledNote => !!n).map(pitchClass));
+    const playable = response.voicing.every(name => {
+      const note = parseNote(name);
+      return !!note && note.octave !== undefined && pitchClasses.has(pitchClass(note));
+    });
+    if (!playable) {
+      issues.push(`Voicing removed: ${response.voicing.join(' ')} doesn't match the notes`);
+      delete corrected.voicing;
+    }
+  }
+
+  return issues.length > 0 ? { ...corrected, corrections: issues } : corrected;
+};
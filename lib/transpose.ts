@@ -0,0 +1,120 @@
+import type { KeySignature, MusicTheoryResponse, ProgressionChord } from './types';
+import {
+  LETTERS,
+  SpelledNote,
+  findFormula,
+  fifthsPosition,
+  formatNote,
+  intervalBetween,
+  intervalSemitones,
+  keySignatureFifths,
+  keySignatureFor,
+  keySignatureFromFifths,
+  mod12,
+  parseNote,
+  pitchClass,
+  transposeNote,
+} from './theory';
+
+// Moves a result to another key locally. Every note moves by the same spelled
+// interval, so the structure's spelling survives (C E G -> Db F Ab, not C# F G#).
+
+// Keys offered by "transpose to", including the sharp keys minor tonics need
+export const TRANSPOSE_KEYS = ['C', 'C#', 'Db', 'D', 'D#', 'Eb', 'E', 'F', 'F#', 'Gb', 'G', 'G#', 'Ab', 'A', 'A#', 'Bb', 'B'];
+
+const moveName = (name: string, from: SpelledNote, to: SpelledNote): string => {
+  const note = parseNote(name);
+  return note ? formatNote(transposeNote(note, intervalBetween(from, to))) : name;
+};
+
+// Octave-specific names move by `semitones`, keeping the register
+const moveVoicedName = (name: string, from: SpelledNote, to: SpelledNote, semitones: number): string => {
+  const note = parseNote(name);
+  if (!note || note.octave === undefined) return moveName(name, from, to);
+  const shift = intervalBetween(from, to);
+  const moved = transposeNote(note, shift);
+  return formatNote({ ...moved, octave: moved.octave! + Math.round((semitones - intervalSemitones(shift)) / 12) });
+};
+
+const moveChord = (chord: ProgressionChord, from: SpelledNote, to: SpelledNote): ProgressionChord => {
+  const root = moveName(chord.root, from, to);
+  return {
+    ...chord,
+    root,
+    symbol: chord.symbol.startsWith(chord.root) ? root + chord.symbol.slice(chord.root.length) : chord.symbol,
+    notes: chord.notes.map(n => moveName(n, from, to)),
+  };
+};
+
+const TRANSPOSED_PREFIX = /^Transposed from (\S+) to \S+\. /;
+
+// The description still talks about the original key, so say where it came from
+const describeTransposition = (description: string, fromName: string, toName: string): string => {
+  const original = description.match(TRANSPOSED_PREFIX)?.[1] ?? fromName;
+  const text = description.replace(TRANSPOSED_PREFIX, '');
+  return original === toName ? text : `Transposed from ${original} to ${toName}. ${text}`;
+};
+
+const moveKeySignature = (response: MusicTheoryResponse, from: SpelledNote, to: SpelledNote): KeySignature | undefined => {
+  const signature = response.keySignature;
+  if (!signature) return undefined;
+  const formula = findFormula(response.type, response.category);
+  if (formula) return keySignatureFor(to, formula);
+  // Unknown structures without a signature are taken to have no key at all
+  if (signature.type === 'none' && (response.category === 'interval' || response.category === 'other')) return signature;
+  return keySignatureFromFifths(keySignatureFifths(signature) + fifthsPosition(to) - fifthsPosition(from));
+};
+
+// Same structure on `root`. `semitones` says which way voicings move (nearest by default).
+export const transposeTo = (response: MusicTheoryResponse, root: SpelledNote, semitones?: number): MusicTheoryResponse | null => {
+  const from = parseNote(response.root);
+  if (!from) return null;
+  const to = { ...root, octave: undefined };
+  let shift = semitones ?? mod12(pitchClass(to) - pitchClass(from));
+  if (semitones === undefined && shift > 6) shift -= 12;
+
+  const fromName = formatNote({ ...from, octave: undefined });
+  const toName = formatNote(to);
+  return {
+    ...response,
+    root: toName,
+    type: response.category === 'progression' ? response.type.replace(`in ${fromName} `, `in ${toName} `) : response.type,
+    notes: response.notes.map(n => moveName(n, from, to)),
+    keySignature: moveKeySignature(response, from, to),
+    voicing: response.voicing?.map(n => moveVoicedName(n, from, to, shift)),
+    progression: response.progression?.map(chord => moveChord(chord, from, to)),
+    description: describeTransposition(response.description, fromName, toName),
+    corrections: undefined,
+  };
+};
+
+// Fewest accidentals wins, with double sharps and flats counting extra
+const spellingCost = (result: MusicTheoryResponse): number => {
+  const accidentals = result.notes.map(n => Math.abs(parseNote(n)?.accidental ?? 0));
+  return accidentals.reduce((sum, a) => sum + a + (a > 1 ? 4 : 0), 0) + (result.keySignature?.count ?? 0);
+};
+
+// Up or down by semitones, choosing whichever spelling of the new root reads best
+// (F# major over Gb major going up, Gb going down, Db over C# either way).
+export const transposeBySemitones = (response: MusicTheoryResponse, semitones: number): MusicTheoryResponse | null => {
+  const from = parseNote(response.root);
+  if (!from) return null;
+  const target = mod12(pitchClass(from) + semitones);
+
+  const candidates = LETTERS.flatMap(letter => {
+    let accidental = mod12(target - pitchClass({ letter, accidental: 0 }));
+    if (accidental > 6) accidental -= 12;
+    return Math.abs(accidental) <= 1 ? [{ letter, accidental }] : [];
+  });
+
+  let best: { result: MusicTheoryResponse; cost: number } | null = null;
+  for (const root of candidates) {
+    const result = transposeTo(response, root, semitones);
+    if (!result) continue;
+    // Ties go to sharps going up and flats going down
+    const leaning = root.accidental !== 0 && Math.sign(root.accidental) !== Math.sign(semitones) ? 0.5 : 0;
+    const cost = spellingCost(result) + leaning;
+    if (!best || cost < best.cost) best = { result, cost };
+  }
+  return best?.result ?? null;
+};
@@ -0,0 +1,30 @@
+export interface KeySignature {
+  type: 'sharp' | 'flat' | 'none';
+  count: number;
+  notes: string[];
+}
+
+export type HarmonicFunction = 'tonic' | 'subdominant' | 'dominant';
+
+export interface ProgressionChord {
+  numeral: string;  // Roman numeral, e.g. 'ii7', 'V', 'bVII'
+  function: HarmonicFunction;
+  root: string;
+  type: string;     // Chord name, e.g. 'Minor 7th'
+  symbol: string;   // e.g. 'Cm7'
+  notes: string[];
+  intervals: string[];
+}
+
+export interface MusicTheoryResponse {
+  root: string;
+  type: string;
+  category: 'scale' | 'chord' | 'interval' | 'progression' | 'other';
+  notes: string[];
+  intervals: string[];
+  description: string;
+  keySignature?: KeySignature;
+  voicing?: string[]; // Octave-specific pitches, e.g. ['C3', 'E3', 'G3', 'B3', 'D4']
+  corrections?: string[]; // Fixes applied by the local theory engine, if any
+  progression?: ProgressionChord[]; // Chords in order, for category 'progression'
+}
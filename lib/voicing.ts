@@ -0,0 +1,97 @@
+import type { MusicTheoryResponse } from './types';
+import { SpelledNote, formatNote, intervalSemitones, midiNumber, parseInterval, parseNote } from './theory';
+
+export type VoicingStyle = 'close' | 'drop2' | 'shell';
+
+export const VOICING_STYLES: { id: VoicingStyle; label: string }[] = [
+  { id: 'close', label: 'Close' },
+  { id: 'drop2', label: 'Drop 2' },
+  { id: 'shell', label: 'Shell' },
+];
+
+// Bottom of the on-screen keyboard (C3)
+const LOWEST_MIDI = 48;
+
+interface Voice {
+  note: SpelledNote;
+  interval: number; // semitones above the root, or -1 when unknown
+  degree: number;   // interval number (3 = third ...), or 0 when unknown
+}
+
+const withOctave = (note: SpelledNote, octave: number): SpelledNote => ({ ...note, octave });
+
+// Places each note above the one before it, starting from `octave`
+const stackUp = (notes: SpelledNote[], octave: number): SpelledNote[] => {
+  const stacked: SpelledNote[] = [];
+  for (const note of notes) {
+    let placed = withOctave(note, stacked.length ? stacked[stacked.length - 1].octave! : octave);
+    while (stacked.length && midiNumber(placed) <= midiNumber(stacked[stacked.length - 1])) {
+      placed = withOctave(placed, placed.octave! + 1);
+    }
+    stacked.push(placed);
+  }
+  return stacked;
+};
+
+// Moves the whole voicing by octaves so it starts as low as the keyboard allows
+const fitToKeyboard = (notes: SpelledNote[]): SpelledNote[] => {
+  if (notes.length === 0) return notes;
+  const lowest = Math.min(...notes.map(midiNumber));
+  const shift = Math.ceil((LOWEST_MIDI - lowest) / 12);
+  return notes.map(n => withOctave(n, n.octave! + shift));
+};
+
+const toVoices = (response: MusicTheoryResponse): Voice[] =>
+  response.notes
+    .map((name, i): Voice | null => {
+      const note = parseNote(name);
+      if (!note) return null;
+      const interval = response.intervals[i] ? parseInterval(response.intervals[i]) : null;
+      return {
+        note: { ...note, octave: undefined },
+        interval: interval ? intervalSemitones(interval) : -1,
+        degree: interval ? ((interval.number - 1) % 7) + 1 : 0,
+      };
+    })
+    .filter((v): v is Voice => v !== null);
+
+// Root, third (or suspension) and seventh (or sixth); falls back to the fifth
+const shellVoices = (voices: Voice[]): Voice[] => {
+  const pick = (...degrees: number[]) => {
+    for (const degree of degrees) {
+      const voice = voices.find(v => v.degree === degree && v.interval < 12);
+      if (voice) return voice;
+    }
+    return undefined;
+  };
+  const shell = [voices[0], pick(3, 4, 2), pick(7, 6) ?? pick(5)].filter((v): v is Voice => !!v);
+  return [...new Set(shell)];
+};
+
+// Octave-specific pitches for a result: an ascending run for scales, or the
+// chosen chord voicing. Returns names like "C3", "E3", "G3", "B3", "D4".
+export const buildVoicing = (response: MusicTheoryResponse, style: VoicingStyle = 'close'): string[] => {
+  let voices = toVoices(response);
+  if (voices.length === 0) return [];
+
+  if (response.category !== 'chord') {
+    return fitToKeyboard(stackUp(voices.map(v => v.note), 3)).map(formatNote);
+  }
+
+  // Chord tones go in interval order so extensions sit above the triad
+  if (voices.every(v => v.interval >= 0)) {
+    voices = [...voices].sort((a, b) => a.interval - b.interval);
+  }
+  if (style === 'shell') {
+    voices = shellVoices(voices);
+  }
+
+  let notes = stackUp(voices.map(v => v.note), 3);
+  if (style === 'drop2' && notes.length >= 3) {
+    const index = notes.length - 2;
+    const dropped = withOctave(notes[index], notes[index].octave! - 1);
+    notes = [...notes.slice(0, index), ...notes.slice(index + 1), dropped].sort((a, b) => midiNumber(a) - midiNumber(b));
+  }
+
+  return fitToKeyboard(notes).map(formatNote);
+};
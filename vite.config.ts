@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.THEORY_PROVIDER': JSON.stringify(env.THEORY_PROVIDER),
+        'process.env.THEORY_MODEL': JSON.stringify(env.THEORY_MODEL)
       },
       resolve: {
         alias: {